@@ -94,6 +94,13 @@ const ForesightElement = ({
     meta,
     reactivateAfter,
     enabled,
+    priority,
+    abortAfterIntentLost,
+    minConfidence,
+    settings,
+    resourceKey,
+    retry,
+    weight,
     ...domProps
   } = props
 
@@ -108,6 +115,13 @@ const ForesightElement = ({
     meta,
     reactivateAfter,
     enabled,
+    priority,
+    abortAfterIntentLost,
+    minConfidence,
+    settings,
+    resourceKey,
+    retry,
+    weight,
   } satisfies Record<keyof ForesightOptions, unknown>
 
   const { elementRef, registerResults } = useForesightRegistration(options)
@@ -0,0 +1,88 @@
+import { render } from "@testing-library/react"
+import { describe, expect, it, vi } from "vitest"
+import { createUnregisteredSnapshot, type ForesightManager } from "js.foresight"
+import { addEventListenerSpy, registerSpy } from "../tests/setup"
+import { useForesight } from "../hooks/useForesight"
+import { useForesightEvent } from "../hooks/useForesightEvent"
+import { ForesightProvider } from "./ForesightProvider"
+
+const createScopedManager = () => {
+  const snapshot = createUnregisteredSnapshot(false)
+  const register = vi.fn(() => ({
+    ...snapshot,
+    unregister: vi.fn(),
+    subscribe: () => () => {},
+    getSnapshot: () => snapshot,
+    subscribeToBounds: () => () => {},
+    getBounds: () => ({
+      originalRect: {} as DOMRectReadOnly,
+      expandedRect: { top: 0, left: 0, right: 0, bottom: 0 },
+    }),
+  }))
+  const addEventListener = vi.fn()
+
+  return {
+    register,
+    addEventListener,
+    manager: {
+      register,
+      addEventListener,
+      updateElementOptions: vi.fn(),
+      registeredElements: new Map(),
+    } as unknown as ForesightManager,
+  }
+}
+
+const Probe = () => {
+  const { elementRef } = useForesight<HTMLButtonElement>({ callback: vi.fn() })
+  useForesightEvent("callbackCompleted", vi.fn())
+
+  return <button ref={elementRef} />
+}
+
+describe("ForesightProvider", () => {
+  it("uses the global manager without a provider", () => {
+    render(<Probe />)
+
+    expect(registerSpy).toHaveBeenCalledTimes(1)
+    expect(addEventListenerSpy).toHaveBeenCalledTimes(1)
+  })
+
+  it("registers elements and event listeners on the provided manager", () => {
+    const scoped = createScopedManager()
+    render(
+      <ForesightProvider manager={scoped.manager}>
+        <Probe />
+      </ForesightProvider>
+    )
+
+    expect(scoped.register).toHaveBeenCalledTimes(1)
+    expect(scoped.addEventListener).toHaveBeenCalledWith(
+      "callbackCompleted",
+      expect.any(Function),
+      { signal: expect.any(AbortSignal) }
+    )
+    expect(registerSpy).not.toHaveBeenCalled()
+    expect(addEventListenerSpy).not.toHaveBeenCalled()
+  })
+
+  it("re-registers on the new manager when the provided manager changes", () => {
+    const first = createScopedManager()
+    const second = createScopedManager()
+    const { rerender } = render(
+      <ForesightProvider manager={first.manager}>
+        <Probe />
+      </ForesightProvider>
+    )
+
+    rerender(
+      <ForesightProvider manager={second.manager}>
+        <Probe />
+      </ForesightProvider>
+    )
+
+    expect(first.register).toHaveBeenCalledTimes(1)
+    expect(first.register.mock.results[0]!.value.unregister).toHaveBeenCalledTimes(1)
+    expect(second.register).toHaveBeenCalledTimes(1)
+  })
+})
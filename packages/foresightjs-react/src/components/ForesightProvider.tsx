@@ -0,0 +1,20 @@
+"use client"
+import { createContext } from "react"
+import type { ReactNode } from "react"
+import type { ForesightManager } from "js.foresight"
+
+export const ForesightManagerContext = createContext<ForesightManager | null>(null)
+
+export type ForesightProviderProps = {
+  manager: ForesightManager
+  children?: ReactNode
+}
+
+/**
+ * Scopes every `useForesight`, `<Foresight>` and `useForesightEvent` below it to
+ * `manager` (usually created with `ForesightManager.createScoped()`) instead of
+ * the global `ForesightManager.instance`.
+ */
+export const ForesightProvider = ({ manager, children }: ForesightProviderProps) => (
+  <ForesightManagerContext.Provider value={manager}>{children}</ForesightManagerContext.Provider>
+)
@@ -1,5 +1,5 @@
 /**
- * Serialize an object option (`meta`, `hitSlop`) for use as an effect
+ * Serialize an object option (`meta`, `hitSlop`, `settings`, `retry`) for use as an effect
  * dependency / patch key so a change to its contents re-triggers the patch
  * effect. Depending on the object itself would compare by identity, re-firing
  * the effect for every inline `meta={{...}}` even when its contents are
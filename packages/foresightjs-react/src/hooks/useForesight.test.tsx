@@ -67,12 +67,14 @@ describe("useForesight", () => {
     rerender(<ButtonProbe options={{ name: "x", callback: cb2 }} />)
 
     const fired = { ...createUnregisteredSnapshot(false), isPredicted: true }
+    const signal = new AbortController().signal
+    const element = document.createElement("div")
     act(() => {
-      mockState.lastCallbackWrapper?.(fired)
+      mockState.lastCallbackWrapper?.(fired, signal, element)
     })
 
     expect(cb1).not.toHaveBeenCalled()
-    expect(cb2).toHaveBeenCalledWith(fired)
+    expect(cb2).toHaveBeenCalledWith(fired, signal, element)
   })
 
   it("patches options on the same element without unregistering", () => {
@@ -1,7 +1,8 @@
 "use client"
 
-import { useEffect, useRef } from "react"
+import { useContext, useEffect, useRef } from "react"
 import { ForesightManager, type ForesightEvent, type ForesightEventMap } from "js.foresight"
+import { ForesightManagerContext } from "../components/ForesightProvider"
 
 export const useForesightEvent = <K extends ForesightEvent>(
   eventType: K,
@@ -9,15 +10,17 @@ export const useForesightEvent = <K extends ForesightEvent>(
 ): void => {
   const listenerRef = useRef(listener)
   listenerRef.current = listener
+  const scopedManager = useContext(ForesightManagerContext)
 
   useEffect(() => {
     const controller = new AbortController()
     const stableListener = (event: ForesightEventMap[K]) => listenerRef.current(event)
+    const manager = scopedManager ?? ForesightManager.instance
 
-    ForesightManager.instance.addEventListener(eventType, stableListener, {
+    manager.addEventListener(eventType, stableListener, {
       signal: controller.signal,
     })
 
     return () => controller.abort()
-  }, [eventType])
+  }, [eventType, scopedManager])
 }
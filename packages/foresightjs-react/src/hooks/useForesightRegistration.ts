@@ -1,12 +1,13 @@
 "use client"
 
-import { useCallback, useEffect, useRef, useState } from "react"
+import { useCallback, useContext, useEffect, useRef, useState } from "react"
 import {
   ForesightManager,
   type ForesightElementState,
   type ForesightRegisterResult,
 } from "js.foresight"
 import type { ForesightOptions } from "../types"
+import { ForesightManagerContext } from "../components/ForesightProvider"
 import { serializeOption } from "./serializeOption"
 
 // Registers and patches without subscribing to per-element state, for consumers that never read the state
@@ -19,6 +20,7 @@ export const useForesightRegistration = <T extends HTMLElement = HTMLElement>(
 } => {
   const optionsRef = useRef(options)
   optionsRef.current = options
+  const scopedManager = useContext(ForesightManagerContext)
 
   const [element, setElement] = useState<T | null>(null)
   const [registerResults, setRegisterResults] = useState<ForesightRegisterResult | null>(null)
@@ -27,16 +29,17 @@ export const useForesightRegistration = <T extends HTMLElement = HTMLElement>(
     setElement(node)
   }, [])
 
-  // Register/unregister when the DOM node attaches or swaps.
+  // Register/unregister when the DOM node attaches or swaps, or the provided manager changes.
   useEffect(() => {
     if (!element) {
       return
     }
 
-    const result = ForesightManager.instance.register({
+    const result = (scopedManager ?? ForesightManager.instance).register({
       ...optionsRef.current,
       element,
-      callback: (state: ForesightElementState) => optionsRef.current.callback(state),
+      callback: (state: ForesightElementState, signal: AbortSignal, element: Element) =>
+        optionsRef.current.callback(state, signal, element),
     })
     setRegisterResults(result)
 
@@ -44,34 +47,42 @@ export const useForesightRegistration = <T extends HTMLElement = HTMLElement>(
       result.unregister()
       setRegisterResults(null)
     }
-  }, [element])
+  }, [element, scopedManager])
 
   // Patch options on the existing registration without tearing it down.
-  // meta and hitSlop are compared by content, not identity - an inline
+  // meta, hitSlop, settings and retry are compared by content, not identity - an inline
   // `meta={{...}}` object would otherwise re-fire this effect every render and
   // loop with the useSyncExternalStore re-render it triggers.
   const metaKey = serializeOption(options.meta)
   const hitSlopKey = serializeOption(options.hitSlop)
+  const settingsKey = serializeOption(options.settings)
+  const retryKey = serializeOption(options.retry)
   useEffect(() => {
-    if (
-      !registerResults ||
-      !element ||
-      !ForesightManager.instance.registeredElements.has(element)
-    ) {
+    const manager = scopedManager ?? ForesightManager.instance
+    if (!registerResults || !element || !manager.registeredElements.has(element)) {
       return
     }
 
-    ForesightManager.instance.updateElementOptions(element, {
+    manager.updateElementOptions(element, {
       ...optionsRef.current,
-      callback: (state: ForesightElementState) => optionsRef.current.callback(state),
+      callback: (state: ForesightElementState, signal: AbortSignal, element: Element) =>
+        optionsRef.current.callback(state, signal, element),
     })
   }, [
     options.reactivateAfter,
     options.name,
     metaKey,
     options.enabled,
+    options.priority,
+    options.abortAfterIntentLost,
+    options.minConfidence,
+    options.resourceKey,
+    options.weight,
     hitSlopKey,
+    settingsKey,
+    retryKey,
     element,
+    scopedManager,
     registerResults,
   ])
 
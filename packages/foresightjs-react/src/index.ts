@@ -35,3 +35,4 @@ export {
   type ForesightComponentOptions,
 } from "./components/Foresight"
 export { useForesightEvent } from "./hooks/useForesightEvent"
+export { ForesightProvider, type ForesightProviderProps } from "./components/ForesightProvider"
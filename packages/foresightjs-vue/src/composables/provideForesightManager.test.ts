@@ -0,0 +1,72 @@
+import { defineComponent, h, nextTick } from "vue"
+import { mount } from "@vue/test-utils"
+import { beforeEach, describe, expect, it, vi } from "vitest"
+import type { ForesightManager } from "js.foresight"
+import { createScopedManager } from "../tests/helpers"
+import { addEventListenerSpy, registerSpy } from "../tests/setup"
+import { ForesightManagerKey, provideForesightManager } from "./provideForesightManager"
+import { useForesight } from "./useForesight"
+import { useForesightEvent } from "./useForesightEvent"
+
+const Probe = defineComponent({
+  setup() {
+    useForesightEvent("callbackCompleted", () => {})
+
+    return useForesight({ callback: vi.fn() })
+  },
+  render() {
+    return h("button", { ref: this.elementRef })
+  },
+})
+
+const withProvider = (manager: ForesightManager) =>
+  defineComponent({
+    setup() {
+      provideForesightManager(manager)
+    },
+    render() {
+      return h(Probe)
+    },
+  })
+
+beforeEach(() => {
+  registerSpy.mockClear()
+  addEventListenerSpy.mockClear()
+})
+
+describe("provideForesightManager", () => {
+  it("uses the global manager without a provider", async () => {
+    mount(Probe, { attachTo: document.body })
+    await nextTick()
+
+    expect(registerSpy).toHaveBeenCalledTimes(1)
+    expect(addEventListenerSpy).toHaveBeenCalledTimes(1)
+  })
+
+  it("registers elements and event listeners on the provided manager", async () => {
+    const scoped = createScopedManager()
+    mount(withProvider(scoped.manager), { attachTo: document.body })
+    await nextTick()
+
+    expect(scoped.register).toHaveBeenCalledTimes(1)
+    expect(scoped.addEventListener).toHaveBeenCalledWith(
+      "callbackCompleted",
+      expect.any(Function),
+      { signal: expect.any(AbortSignal) }
+    )
+    expect(registerSpy).not.toHaveBeenCalled()
+    expect(addEventListenerSpy).not.toHaveBeenCalled()
+  })
+
+  it("picks up an app-level manager provided through ForesightManagerKey", async () => {
+    const scoped = createScopedManager()
+    mount(Probe, {
+      attachTo: document.body,
+      global: { provide: { [ForesightManagerKey as symbol]: scoped.manager } },
+    })
+    await nextTick()
+
+    expect(scoped.register).toHaveBeenCalledTimes(1)
+    expect(registerSpy).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,19 @@
+import { hasInjectionContext, inject, provide, type InjectionKey } from "vue"
+import type { ForesightManager } from "js.foresight"
+
+/** Injection key for a scoped manager, for `app.provide(ForesightManagerKey, manager)`. */
+export const ForesightManagerKey: InjectionKey<ForesightManager> = Symbol("ForesightManager")
+
+/**
+ * Scopes every `useForesight`, `<Foresight>`, `useForesightEvent` and
+ * `v-foresight` in the calling component's subtree to `manager` (usually
+ * created with `ForesightManager.createScoped()`) instead of the global
+ * `ForesightManager.instance`. Must be called inside `setup()`.
+ */
+export const provideForesightManager = (manager: ForesightManager): void => {
+  provide(ForesightManagerKey, manager)
+}
+
+// The nearest provided manager, or null to fall back to the global instance.
+export const injectForesightManager = (): ForesightManager | null =>
+  hasInjectionContext() ? inject(ForesightManagerKey, null) : null
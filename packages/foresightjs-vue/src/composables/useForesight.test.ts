@@ -133,9 +133,11 @@ describe("useForesight", () => {
     await nextTick()
 
     const fired = { ...createUnregisteredSnapshot(false), isPredicted: true }
-    mockState.lastCallbackWrapper?.(fired)
+    const signal = new AbortController().signal
+    const element = document.createElement("div")
+    mockState.lastCallbackWrapper?.(fired, signal, element)
 
-    expect(cb).toHaveBeenCalledWith(fired)
+    expect(cb).toHaveBeenCalledWith(fired, signal, element)
   })
 
   it("returns flat refs with unregistered initial state", () => {
@@ -208,10 +210,12 @@ describe("useForesight", () => {
     await nextTick()
 
     const fired = { ...createUnregisteredSnapshot(false), isPredicted: true }
-    mockState.lastCallbackWrapper?.(fired)
+    const signal = new AbortController().signal
+    const element = document.createElement("div")
+    mockState.lastCallbackWrapper?.(fired, signal, element)
 
     expect(cb1).not.toHaveBeenCalled()
-    expect(cb2).toHaveBeenCalledWith(fired)
+    expect(cb2).toHaveBeenCalledWith(fired, signal, element)
   })
 
   it("patches options on the same element without unregistering", async () => {
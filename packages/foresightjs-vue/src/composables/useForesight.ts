@@ -15,9 +15,11 @@ import {
 } from "js.foresight"
 import type { MaybeElement, ForesightOptions, ForesightResult } from "../types"
 import { resolveElement } from "../utils/resolveElement"
+import { injectForesightManager } from "./provideForesightManager"
 
 /**
- * Registers a single element with ForesightManager.
+ * Registers a single element with ForesightManager, or with the manager
+ * provided through {@link provideForesightManager}.
  *
  * @param options - Registration options as a plain object, ref, or getter.
  *
@@ -41,11 +43,14 @@ export const useForesight = (options: MaybeRefOrGetter<ForesightOptions>): Fores
   let currentElement: Element | null = null
   let registerResults: ForesightRegisterResult | null = null
   let unsubscribe: (() => void) | null = null
+  const scopedManager = injectForesightManager()
+  const getManager = () => scopedManager ?? ForesightManager.instance
 
-  const callback = (s: ForesightElementState) => toValue(options).callback(s)
+  const callback = (s: ForesightElementState, signal: AbortSignal, element: Element) =>
+    toValue(options).callback(s, signal, element)
 
   const registerElement = (element: Element, registerOptions: ForesightOptions) => {
-    registerResults = ForesightManager.instance.register({
+    registerResults = getManager().register({
       ...registerOptions,
       element,
       callback,
@@ -95,9 +100,9 @@ export const useForesight = (options: MaybeRefOrGetter<ForesightOptions>): Fores
       if (
         currentElement &&
         registerResults &&
-        ForesightManager.instance.registeredElements.has(currentElement)
+        getManager().registeredElements.has(currentElement)
       ) {
-        ForesightManager.instance.updateElementOptions(currentElement, { ...newOptions, callback })
+        getManager().updateElementOptions(currentElement, { ...newOptions, callback })
       }
     },
     { deep: true, flush: "post" }
@@ -1,5 +1,6 @@
 import { watch, toValue, onScopeDispose, isRef, type MaybeRef, type MaybeRefOrGetter } from "vue"
 import { ForesightManager, type ForesightEvent, type ForesightEventMap } from "js.foresight"
+import { injectForesightManager } from "./provideForesightManager"
 
 type ListenerArg<K extends ForesightEvent> = MaybeRef<(event: ForesightEventMap[K]) => void>
 
@@ -16,6 +17,7 @@ export const useForesightEvent = <K extends ForesightEvent>(
   listener: ListenerArg<K>
 ): void => {
   let controller: AbortController | null = null
+  const scopedManager = injectForesightManager()
 
   const resolveListener = isRef(listener) ? () => listener.value : () => listener
 
@@ -29,7 +31,8 @@ export const useForesightEvent = <K extends ForesightEvent>(
 
     const stableListener = (event: ForesightEventMap[K]) => resolveListener()(event)
 
-    ForesightManager.instance.addEventListener(type, stableListener, {
+    const manager = scopedManager ?? ForesightManager.instance
+    manager.addEventListener(type, stableListener, {
       signal: controller.signal,
     })
   }
@@ -1,7 +1,12 @@
 import { defineComponent, h, ref, withDirectives } from "vue"
 import { mount } from "@vue/test-utils"
 import { beforeEach, describe, expect, it, vi } from "vitest"
-import { createUnregisteredSnapshot } from "js.foresight"
+import { createUnregisteredSnapshot, type ForesightManager } from "js.foresight"
+import {
+  ForesightManagerKey,
+  provideForesightManager,
+} from "../composables/provideForesightManager"
+import { createScopedManager } from "../tests/helpers"
 import { mockState, registerSpy, updateElementOptionsSpy, unregisterSpy } from "../tests/setup"
 import { vForesight } from "./vForesight"
 
@@ -97,9 +102,11 @@ describe("vForesight directive", () => {
     mount(Component, { attachTo: document.body })
 
     const fired = { ...createUnregisteredSnapshot(false), isPredicted: true }
-    mockState.lastCallbackWrapper?.(fired)
+    const signal = new AbortController().signal
+    const element = document.createElement("div")
+    mockState.lastCallbackWrapper?.(fired, signal, element)
 
-    expect(cb).toHaveBeenCalledWith(fired)
+    expect(cb).toHaveBeenCalledWith(fired, signal, element)
   })
 
   it("accepts a plain function as shorthand", () => {
@@ -118,7 +125,9 @@ describe("vForesight directive", () => {
     expect(registerSpy).toHaveBeenCalledTimes(1)
 
     const fired = { ...createUnregisteredSnapshot(false), isPredicted: true }
-    mockState.lastCallbackWrapper?.(fired)
+    const signal = new AbortController().signal
+    const element = document.createElement("div")
+    mockState.lastCallbackWrapper?.(fired, signal, element)
 
     expect(cb).toHaveBeenCalled()
   })
@@ -267,4 +276,76 @@ describe("vForesight directive", () => {
       updateElementOptionsSpy.mock.calls[updateElementOptionsSpy.mock.calls.length - 1]
     expect(lastCall?.[1].name).toBe("second")
   })
+
+  describe("scoped managers", () => {
+    const Button = defineComponent({
+      setup() {
+        const name = ref("first")
+
+        return { name, callback: vi.fn() }
+      },
+      render() {
+        return withDirectives(h("button"), [
+          [vForesight, { name: this.name, callback: this.callback }],
+        ])
+      },
+    })
+
+    const withProvider = (manager: ForesightManager) =>
+      defineComponent({
+        setup() {
+          provideForesightManager(manager)
+        },
+        render() {
+          return h(Button)
+        },
+      })
+
+    it("registers, updates and unregisters with the provided manager", async () => {
+      const scoped = createScopedManager()
+      const wrapper = mount(withProvider(scoped.manager), { attachTo: document.body })
+      const button = wrapper.findComponent(Button)
+
+      button.vm.name = "second"
+      await button.vm.$nextTick()
+      wrapper.unmount()
+
+      expect(scoped.register).toHaveBeenCalledTimes(1)
+      expect(scoped.updateElementOptions).toHaveBeenCalledWith(
+        expect.any(HTMLButtonElement),
+        expect.objectContaining({ name: "second" })
+      )
+      expect(scoped.unregister).toHaveBeenCalledTimes(1)
+      expect(registerSpy).not.toHaveBeenCalled()
+      expect(updateElementOptionsSpy).not.toHaveBeenCalled()
+      expect(unregisterSpy).not.toHaveBeenCalled()
+    })
+
+    it("picks up an app-level manager provided through ForesightManagerKey", () => {
+      const scoped = createScopedManager()
+      mount(Button, {
+        attachTo: document.body,
+        global: { provide: { [ForesightManagerKey as symbol]: scoped.manager } },
+      })
+
+      expect(scoped.register).toHaveBeenCalledTimes(1)
+      expect(registerSpy).not.toHaveBeenCalled()
+    })
+
+    it("ignores a manager provided by the component that renders the element, like inject()", () => {
+      const scoped = createScopedManager()
+      const SelfProviding = defineComponent({
+        setup() {
+          provideForesightManager(scoped.manager)
+        },
+        render() {
+          return withDirectives(h("button"), [[vForesight, vi.fn()]])
+        },
+      })
+      mount(SelfProviding, { attachTo: document.body })
+
+      expect(scoped.register).not.toHaveBeenCalled()
+      expect(registerSpy).toHaveBeenCalledTimes(1)
+    })
+  })
 })
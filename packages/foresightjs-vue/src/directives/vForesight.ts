@@ -4,7 +4,9 @@ import {
   type ForesightCallback,
   type ForesightRegisterResult,
 } from "js.foresight"
+import { ForesightManagerKey } from "../composables/provideForesightManager"
 import type { ForesightOptions } from "../types"
+import { injectFromInstance } from "../utils/injectFromInstance"
 
 /** Shorthand: pass just the callback instead of a full options object. */
 type CallbackShorthand = ForesightCallback
@@ -13,7 +15,12 @@ type ForesightDirectiveValue = ForesightOptions | CallbackShorthand
 
 type ForesightDirectiveElement = HTMLElement | SVGElement
 
-const resultMap = new WeakMap<ForesightDirectiveElement, ForesightRegisterResult>()
+type DirectiveRegistration = {
+  manager: ForesightManager
+  result: ForesightRegisterResult
+}
+
+const registrations = new WeakMap<ForesightDirectiveElement, DirectiveRegistration>()
 
 const isCallbackShorthand = (value: ForesightDirectiveValue): value is CallbackShorthand =>
   typeof value === "function"
@@ -21,18 +28,26 @@ const isCallbackShorthand = (value: ForesightDirectiveValue): value is CallbackS
 const resolveOptions = (value: ForesightDirectiveValue): ForesightOptions =>
   isCallbackShorthand(value) ? { callback: value } : value
 
-const register = (element: ForesightDirectiveElement, options: ForesightOptions) => {
-  resultMap.set(element, ForesightManager.instance.register({ element, ...options }))
+const register = (
+  element: ForesightDirectiveElement,
+  manager: ForesightManager,
+  options: ForesightOptions
+) => {
+  registrations.set(element, { manager, result: manager.register({ element, ...options }) })
 }
 
 const unregister = (element: ForesightDirectiveElement) => {
-  resultMap.get(element)?.unregister()
-  resultMap.delete(element)
+  registrations.get(element)?.result.unregister()
+  registrations.delete(element)
 }
 
+// Registers with the manager provided through provideForesightManager() or
+// ForesightManagerKey, falling back to the global ForesightManager.instance.
 export const vForesight: ObjectDirective<ForesightDirectiveElement, ForesightDirectiveValue> = {
   mounted(element, binding) {
-    register(element, resolveOptions(binding.value))
+    // Directives can't call inject(), so resolve from the component that rendered the element
+    const manager = injectFromInstance(binding.instance?.$ ?? null, ForesightManagerKey)
+    register(element, manager ?? ForesightManager.instance, resolveOptions(binding.value))
   },
 
   // Patch options (incl. enabled) on change without tearing down.
@@ -41,11 +56,12 @@ export const vForesight: ObjectDirective<ForesightDirectiveElement, ForesightDir
       return
     }
 
-    if (!ForesightManager.instance.registeredElements.has(element)) {
+    const manager = registrations.get(element)?.manager
+    if (!manager?.registeredElements.has(element)) {
       return
     }
 
-    ForesightManager.instance.updateElementOptions(element, resolveOptions(binding.value))
+    manager.updateElementOptions(element, resolveOptions(binding.value))
   },
 
   unmounted(element) {
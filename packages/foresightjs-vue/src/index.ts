@@ -47,4 +47,5 @@ export const Foresight = ForesightImpl as unknown as DefineSetupFnComponent<
   SlotsType<{ default?: (props: ForesightSlotProps) => unknown }>
 >
 export { useForesightEvent } from "./composables/useForesightEvent"
+export { provideForesightManager, ForesightManagerKey } from "./composables/provideForesightManager"
 export { vForesight } from "./directives/vForesight"
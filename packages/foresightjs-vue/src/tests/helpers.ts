@@ -1,5 +1,11 @@
 import { nextTick } from "vue"
-import { createUnregisteredSnapshot, type ForesightElementState } from "js.foresight"
+import { vi, type Mock } from "vitest"
+import {
+  createUnregisteredSnapshot,
+  type ForesightElementState,
+  type ForesightManager,
+  type ForesightRegisterOptions,
+} from "js.foresight"
 import { mockState } from "./setup"
 
 // Pushes a new snapshot through the mocked manager and notifies every
@@ -9,3 +15,44 @@ export const emitSnapshot = async (partial: Partial<ForesightElementState>) => {
   mockState.listeners.forEach(l => l())
   await nextTick()
 }
+
+type ScopedManagerMock = {
+  register: Mock
+  unregister: Mock
+  addEventListener: Mock
+  updateElementOptions: Mock
+  manager: ForesightManager
+}
+
+// A stand-in for a ForesightManager.createScoped() instance, to tell its calls
+// apart from the mocked global instance.
+export const createScopedManager = (): ScopedManagerMock => {
+  const snapshot = createUnregisteredSnapshot(false)
+  const registeredElements = new Set<Element>()
+  const unregister = vi.fn()
+  const register = vi.fn((options: ForesightRegisterOptions) => {
+    registeredElements.add(options.element)
+
+    return {
+      ...snapshot,
+      unregister,
+      subscribe: () => () => {},
+      getSnapshot: () => snapshot,
+    }
+  })
+  const addEventListener = vi.fn()
+  const updateElementOptions = vi.fn()
+
+  return {
+    register,
+    unregister,
+    addEventListener,
+    updateElementOptions,
+    manager: {
+      register,
+      addEventListener,
+      updateElementOptions,
+      registeredElements,
+    } as unknown as ForesightManager,
+  }
+}
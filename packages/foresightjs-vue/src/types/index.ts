@@ -1,6 +1,8 @@
 import type { Component, ComponentPublicInstance, MaybeRefOrGetter, ToRefs } from "vue"
 import type {
+  CallbackRetryOptions,
   ForesightCallback,
+  ForesightElementSettings,
   ForesightElementState,
   ForesightRegisterOptionsWithoutElement,
   HitSlop,
@@ -52,6 +54,13 @@ export interface ForesightProps {
   meta?: Record<string, unknown>
   reactivateAfter?: number
   enabled?: boolean
+  priority?: number
+  abortAfterIntentLost?: number
+  minConfidence?: number
+  settings?: ForesightElementSettings
+  resourceKey?: string
+  retry?: number | CallbackRetryOptions
+  weight?: number
 }
 
 /** @deprecated Use {@link ForesightOptions} instead. */
@@ -0,0 +1,70 @@
+import { defineComponent, getCurrentInstance, h, inject, provide, type InjectionKey } from "vue"
+import { mount } from "@vue/test-utils"
+import { describe, expect, it } from "vitest"
+import { injectFromInstance } from "./injectFromInstance"
+
+const key: InjectionKey<string> = Symbol("test")
+
+// Records what inject() and injectFromInstance() resolve in the same component
+const createProbe = (ownValue?: string) => {
+  const resolved = { injected: undefined as string | undefined, fromInstance: "" as unknown }
+  const Probe = defineComponent({
+    setup() {
+      if (ownValue) {
+        provide(key, ownValue)
+      }
+
+      resolved.injected = inject(key, undefined)
+      resolved.fromInstance = injectFromInstance(getCurrentInstance(), key)
+
+      return () => h("div")
+    },
+  })
+
+  return { Probe, resolved }
+}
+
+const withParentProviding = (value: string, child: ReturnType<typeof defineComponent>) =>
+  defineComponent({
+    setup() {
+      provide(key, value)
+
+      return () => h(child)
+    },
+  })
+
+describe("injectFromInstance", () => {
+  it("returns undefined without an instance", () => {
+    expect(injectFromInstance(null, key)).toBeUndefined()
+  })
+
+  it("returns undefined when nothing is provided", () => {
+    const { Probe, resolved } = createProbe()
+    mount(Probe)
+
+    expect(resolved.fromInstance).toBeUndefined()
+  })
+
+  it("reads a value provided by an ancestor", () => {
+    const { Probe, resolved } = createProbe()
+    mount(withParentProviding("parent", Probe))
+
+    expect(resolved.fromInstance).toBe("parent")
+    expect(resolved.fromInstance).toBe(resolved.injected)
+  })
+
+  it("reads a value provided by the app on the root component", () => {
+    const { Probe, resolved } = createProbe()
+    mount(Probe, { global: { provide: { [key as symbol]: "app" } } })
+
+    expect(resolved.fromInstance).toBe("app")
+  })
+
+  it("skips the component's own provide, like inject()", () => {
+    const { Probe, resolved } = createProbe("own")
+    mount(withParentProviding("parent", Probe))
+
+    expect(resolved.fromInstance).toBe("parent")
+    expect(resolved.fromInstance).toBe(resolved.injected)
+  })
+})
@@ -0,0 +1,28 @@
+import type { ComponentInternalInstance, InjectionKey } from "vue"
+
+// `provides` is internal to Vue, so it is missing from the public instance type
+type InstanceWithProvides = ComponentInternalInstance & {
+  provides: Record<string | symbol, unknown>
+}
+
+/**
+ * Looks up `key` the way `inject()` would from `instance`'s setup, for callers
+ * like directives that run outside an injection context. Like `inject()` it
+ * reads the parent's provides, so a component's own `provide()` is skipped,
+ * falling back to the app's for the root component.
+ *
+ * Relies on the internal `provides` field Vue keeps on every component instance.
+ */
+export const injectFromInstance = <T>(
+  instance: ComponentInternalInstance | null,
+  key: InjectionKey<T>
+): T | undefined => {
+  if (!instance) {
+    return undefined
+  }
+
+  const { parent, appContext } = instance
+  const provides = parent ? (parent as InstanceWithProvides).provides : appContext.provides
+
+  return provides[key as symbol] as T | undefined
+}
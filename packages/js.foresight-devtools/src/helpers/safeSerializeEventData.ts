@@ -1,4 +1,7 @@
 import type {
+  CallbackAbortReason,
+  CallbackBudgetStrategy,
+  CallbackCompletedEvent,
   CallbackHits,
   CallbackHitType,
   ForesightElementState,
@@ -9,6 +12,7 @@ import type {
   HitSlop,
   ForesightPoint,
   ScrollDirection,
+  TrajectoryDwellPhase,
   UpdatedManagerSetting,
 } from "js.foresight"
 
@@ -43,10 +47,19 @@ interface ElementUnregisteredEvent extends PayloadBase {
   wasLastRegisteredElement: boolean
 }
 
+interface ElementReactivatedPayload extends PayloadBase {
+  type: "elementReactivated"
+  name: string
+  id: string
+  state: ForesightElementState
+  meta: Record<string, unknown>
+}
+
 interface CallbackInvokedPayload extends PayloadBase {
   type: "callbackInvoked"
   name: string
   hitType: CallbackHitType
+  confidence: number
   state: ForesightElementState
   meta: Record<string, unknown>
 }
@@ -54,21 +67,54 @@ interface CallbackInvokedPayload extends PayloadBase {
 interface CallbackCompletedPayload extends PayloadBase {
   type: "callbackCompleted"
   elapsed: string
+  queueWait: string
   name: string
   hitType: CallbackHitType
-  status: "success" | "error" | undefined
+  status: CallbackCompletedEvent["status"]
   errorMessage: string | undefined | null
+  abortReason: CallbackAbortReason | null
   state: ForesightElementState
   wasLastActiveElement: boolean
   meta: Record<string, unknown>
 }
 
+interface CallbackRetryScheduledPayload extends PayloadBase {
+  type: "callbackRetryScheduled"
+  name: string
+  hitType: CallbackHitType
+  attempt: number
+  delay: string
+  errorMessage: string
+  state: ForesightElementState
+  meta: Record<string, unknown>
+}
+
+interface BudgetExceededPayload extends PayloadBase {
+  type: "budgetExceeded"
+  name: string
+  hitType: CallbackHitType
+  strategy: CallbackBudgetStrategy
+  budgetUsage: number
+  state: ForesightElementState
+  meta: Record<string, unknown>
+}
+
+interface TrajectoryDwellChangedPayload extends PayloadBase {
+  type: "trajectoryDwellChanged"
+  name: string
+  phase: TrajectoryDwellPhase
+  minDwellMs: number
+  state: ForesightElementState
+  meta: Record<string, unknown>
+}
+
 interface MouseTrajectoryUpdatePayload extends PayloadBase {
   type: "mouseTrajectoryUpdate"
   currentPoint: ForesightPoint
   predictedPoint: ForesightPoint
   positionCount: number
   mousePredictionEnabled: boolean
+  rankedOut: string[]
 }
 
 interface ScrollTrajectoryUpdatePayload extends PayloadBase {
@@ -103,14 +149,19 @@ interface ManagerDataPayload extends PayloadBase {
   eventListenerCount: Record<string, number>
   managerSettings: ForesightManagerSettings
   registeredElements: Array<ForesightElementState & { elementInfo: string }>
+  callbackBudgetUsage: number
   loadedModules: ForesightManagerData["loadedModules"]
 }
 
 export type SerializedEventData =
   | ElementRegisteredPayload
   | ElementUnregisteredEvent
+  | ElementReactivatedPayload
   | CallbackInvokedPayload
   | CallbackCompletedPayload
+  | CallbackRetryScheduledPayload
+  | BudgetExceededPayload
+  | TrajectoryDwellChangedPayload
   | MouseTrajectoryUpdatePayload
   | ScrollTrajectoryUpdatePayload
   | ManagerSettingsChangedPayload
@@ -145,6 +196,7 @@ export const safeSerializeManagerData = (
     eventListenerCount: eventListeners,
     managerSettings: data.globalSettings,
     registeredElements: registeredElements,
+    callbackBudgetUsage: data.callbackBudgetUsage,
     loadedModules: data.loadedModules,
     summary: `${registeredElements.length} elements, ${
       Object.values(eventListeners).flat().length
@@ -194,11 +246,23 @@ export const safeSerializeEventData = <K extends keyof ForesightEventMap>(
           logId: logId,
           summary: `${event.state.name} - ${event.unregisterReason}`,
         }
+      case "elementReactivated":
+        return {
+          type: "elementReactivated",
+          name: event.state.name,
+          id: event.element.id || "",
+          meta: event.state.meta,
+          state: event.state,
+          localizedTimestamp: new Date(event.timestamp).toLocaleTimeString(),
+          logId: logId,
+          summary: event.state.name,
+        }
       case "callbackInvoked":
         return {
           type: "callbackInvoked",
           name: event.state.name,
           hitType: event.hitType,
+          confidence: event.confidence,
           state: event.state,
           meta: event.state.meta,
           localizedTimestamp: new Date(event.timestamp).toLocaleTimeString(),
@@ -216,13 +280,62 @@ export const safeSerializeEventData = <K extends keyof ForesightEventMap>(
           meta: event.state.meta,
           wasLastActiveElement: event.wasLastActiveElement,
           elapsed: elapsed,
+          queueWait: formatElapsed(event.queueWaitMs),
           localizedTimestamp: new Date(event.timestamp).toLocaleTimeString(),
           logId: logId,
           status: event.state.status,
           errorMessage: event.state.error,
-          summary: `${event.state.name} - ${elapsed}`,
+          abortReason: event.abortReason,
+          summary:
+            event.status === "aborted"
+              ? `${event.state.name} - aborted (${event.abortReason})`
+              : event.status === "timeout"
+                ? `${event.state.name} - timed out after ${elapsed}`
+                : `${event.state.name} - ${elapsed}`,
         }
       }
+      case "callbackRetryScheduled": {
+        const delay = formatElapsed(event.delay)
+
+        return {
+          type: "callbackRetryScheduled",
+          name: event.state.name,
+          hitType: event.hitType,
+          attempt: event.attempt,
+          delay,
+          errorMessage: event.errorMessage,
+          state: event.state,
+          meta: event.state.meta,
+          localizedTimestamp: new Date(event.timestamp).toLocaleTimeString(),
+          logId: logId,
+          summary: `${event.state.name} - attempt ${event.attempt + 1}/${event.state.retry.maxAttempts} in ${delay}`,
+        }
+      }
+      case "budgetExceeded":
+        return {
+          type: "budgetExceeded",
+          name: event.state.name,
+          hitType: event.hitType,
+          strategy: event.strategy,
+          budgetUsage: event.budgetUsage,
+          state: event.state,
+          meta: event.state.meta,
+          localizedTimestamp: new Date(event.timestamp).toLocaleTimeString(),
+          logId: logId,
+          summary: `${event.state.name} - ${event.strategy === "drop" ? "dropped" : "deferred"}`,
+        }
+      case "trajectoryDwellChanged":
+        return {
+          type: "trajectoryDwellChanged",
+          name: event.state.name,
+          phase: event.phase,
+          minDwellMs: event.minDwellMs,
+          state: event.state,
+          meta: event.state.meta,
+          localizedTimestamp: new Date(event.timestamp).toLocaleTimeString(),
+          logId: logId,
+          summary: `${event.state.name} - dwell ${event.phase}`,
+        }
       case "mouseTrajectoryUpdate":
         return {
           type: "mouseTrajectoryUpdate",
@@ -230,9 +343,12 @@ export const safeSerializeEventData = <K extends keyof ForesightEventMap>(
           predictedPoint: event.trajectoryPositions?.predictedPoint,
           positionCount: event.trajectoryPositions?.positions?.length || 0,
           mousePredictionEnabled: event.predictionEnabled,
+          rankedOut: event.rankedOutCandidates?.map(candidate => candidate.name) ?? [],
           localizedTimestamp: new Date().toLocaleTimeString(),
           logId: logId,
-          summary: "",
+          summary: event.rankedOutCandidates?.length
+            ? `${event.rankedOutCandidates.length} ranked out`
+            : "",
         }
       case "scrollTrajectoryUpdate":
         return {
@@ -152,7 +152,7 @@ export class ElementTab extends LitElement {
     const mouseTotal = hitCounts.mouse.trajectory + hitCounts.mouse.hover
     const scrollTotal =
       hitCounts.scroll.up + hitCounts.scroll.down + hitCounts.scroll.left + hitCounts.scroll.right
-    const tabTotal = hitCounts.tab.forwards + hitCounts.tab.reverse
+    const tabTotal = hitCounts.tab.forwards + hitCounts.tab.reverse + hitCounts.tab.keyboard
 
     lines.push("Desktop Strategy")
     if (mouseTotal > 0) {
@@ -173,7 +173,7 @@ export class ElementTab extends LitElement {
 
     if (tabTotal > 0) {
       lines.push(
-        `   Tab (${tabTotal}): ${hitCounts.tab.forwards} forward, ${hitCounts.tab.reverse} reverse`
+        `   Tab (${tabTotal}): ${hitCounts.tab.forwards} forward, ${hitCounts.tab.reverse} reverse, ${hitCounts.tab.keyboard} arrow keys`
       )
     } else {
       lines.push("   Tab: No hits")
@@ -238,6 +238,14 @@ export class SingleElement extends LitElement {
       })
     }
 
+    if (!this.state.isActive && this.state.status === "timeout") {
+      reasons.push({
+        label: "timed out",
+        color: "#f44336",
+        description: `Last callback ran longer than its callbackTimeout and was aborted${this.state.error ? ` (${this.state.error})` : ""}.`,
+      })
+    }
+
     return reasons
   }
 
@@ -278,7 +286,13 @@ export class SingleElement extends LitElement {
 
   private getStatusText(): string {
     if (this.state.isCallbackRunning) {
-      return "callback active"
+      return this.state.attempt > 1
+        ? `callback active (attempt ${this.state.attempt}/${this.state.retry.maxAttempts})`
+        : "callback active"
+    }
+
+    if (this.state.isQueued) {
+      return `queued (priority ${this.state.priority})`
     }
 
     if (!this.state.isActive) {
@@ -287,6 +301,10 @@ export class SingleElement extends LitElement {
       return reasons.length ? `inactive: ${reasons.map(r => r.label).join(", ")}` : "inactive"
     }
 
+    if (this.state.isDwelling) {
+      return "dwelling"
+    }
+
     const baseStatus = this.state.isIntersectingWithViewport ? "in viewport" : "not in viewport"
     const deviceStatus = this.currentDeviceStrategy === "touch" ? " (touch device)" : ""
 
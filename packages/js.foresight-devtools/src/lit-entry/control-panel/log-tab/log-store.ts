@@ -14,7 +14,11 @@ export const EVENT_COLORS: Record<ForesightEvent, string> = {
   elementRegistered: "#2196f3",
   callbackInvoked: "#00bcd4",
   callbackCompleted: "#4caf50",
+  callbackRetryScheduled: "#ff7043",
+  budgetExceeded: "#ffc107",
+  trajectoryDwellChanged: "#3f51b5",
   elementUnregistered: "#ff9800",
+  elementReactivated: "#8bc34a",
   managerSettingsChanged: "#f44336",
   mouseTrajectoryUpdate: "#78909c",
   scrollTrajectoryUpdate: "#607d8b",
@@ -171,6 +171,12 @@ export class LogTab extends LitElement {
         title: "Show element unregistration events",
         icon: FILTER_SVG,
       },
+      {
+        value: "elementReactivated",
+        label: "Element Reactivated",
+        title: "Show element reactivation events",
+        icon: FILTER_SVG,
+      },
       {
         value: "callbackInvoked",
         label: "Callback Invoked",
@@ -183,6 +189,24 @@ export class LogTab extends LitElement {
         title: "Show callback completed events",
         icon: FILTER_SVG,
       },
+      {
+        value: "callbackRetryScheduled",
+        label: "Callback Retry Scheduled",
+        title: "Show callback retry events",
+        icon: FILTER_SVG,
+      },
+      {
+        value: "budgetExceeded",
+        label: "Budget Exceeded",
+        title: "Show callback budget exceeded events",
+        icon: FILTER_SVG,
+      },
+      {
+        value: "trajectoryDwellChanged",
+        label: "Trajectory Dwell",
+        title: "Show trajectory dwell events",
+        icon: FILTER_SVG,
+      },
       {
         value: "mouseTrajectoryUpdate",
         label: "Mouse Trajectory Update",
@@ -92,7 +92,10 @@ export class SingleLog extends LitElement {
     // Only run this logic if the `log` property has changed.
     if (changedProperties.has("log") && this.log) {
       const log = this.log
-      const isError = log.type === "callbackCompleted" && "status" in log && log.status === "error"
+      const isError =
+        log.type === "callbackCompleted" &&
+        "status" in log &&
+        (log.status === "error" || log.status === "timeout")
 
       // Instead of toggling a class, we now set CSS custom properties
       // directly on the host element's style. This is an encapsulated
@@ -120,8 +123,12 @@ export class SingleLog extends LitElement {
     const eventNames: Record<string, string> = {
       elementRegistered: "Registered",
       elementUnregistered: "Unregistered",
+      elementReactivated: "Reactivated",
       callbackInvoked: "Invoked",
       callbackCompleted: "Completed",
+      callbackRetryScheduled: "Retry",
+      budgetExceeded: "Budget",
+      trajectoryDwellChanged: "Dwell",
       mouseTrajectoryUpdate: "Mouse",
       scrollTrajectoryUpdate: "Scroll",
       managerSettingsChanged: "Settings",
@@ -142,7 +149,10 @@ export class SingleLog extends LitElement {
 
   render() {
     const log = this.log
-    const isError = log.type === "callbackCompleted" && "status" in log && log.status === "error"
+    const isError =
+      log.type === "callbackCompleted" &&
+      "status" in log &&
+      (log.status === "error" || log.status === "timeout")
 
     // The border color for the child component is still fine to calculate here.
     const borderColor = isError ? "#f44336" : this.getLogTypeColor(log.type)
@@ -2,6 +2,8 @@ import type {
   ForesightManagerSettings,
   TouchDeviceStrategy,
   MinimumConnectionType,
+  TrajectoryModelName,
+  TrajectoryShape,
   UpdatedManagerSetting,
 } from "js.foresight"
 import { ForesightManager } from "js.foresight"
@@ -105,6 +107,12 @@ export class SettingsTab extends LitElement {
       title: "Execute callbacks when registered elements enter the viewport",
       icon: html`<span>Viewport</span>`,
     },
+    {
+      value: "scrollLanding",
+      label: "Scroll Landing",
+      title: "Execute callbacks for elements visible where a touch scroll is predicted to stop",
+      icon: html`<span>Landing</span>`,
+    },
     {
       value: "none",
       label: "None",
@@ -113,6 +121,54 @@ export class SettingsTab extends LitElement {
     },
   ]
 
+  @state() private trajectoryModelOptions: DropdownOption[] = [
+    {
+      value: "linear",
+      label: "Linear",
+      title: "Velocity between the oldest and newest mouse position",
+      icon: html`<span>Linear</span>`,
+    },
+    {
+      value: "weightedLeastSquares",
+      label: "Weighted Least Squares",
+      title: "Line fitted through all mouse positions, newer ones weighing more",
+      icon: html`<span>WLS</span>`,
+    },
+    {
+      value: "constantAcceleration",
+      label: "Constant Acceleration",
+      title: "Velocity and acceleration, stopping where a braking cursor comes to rest",
+      icon: html`<span>Accel</span>`,
+    },
+    {
+      value: "kalman",
+      label: "Kalman Filter",
+      title: "Kalman filter smoothing out pointer jitter",
+      icon: html`<span>Kalman</span>`,
+    },
+  ]
+
+  @state() private trajectoryShapeOptions: DropdownOption[] = [
+    {
+      value: "line",
+      label: "Line",
+      title: "Straight segment from the cursor to the predicted point",
+      icon: html`<span>Line</span>`,
+    },
+    {
+      value: "curve",
+      label: "Curve",
+      title: "Polyline that keeps bending the way the cursor has been turning",
+      icon: html`<span>Curve</span>`,
+    },
+    {
+      value: "cone",
+      label: "Cone",
+      title: "Cone around the predicted direction, narrowing as the heading settles",
+      icon: html`<span>Cone</span>`,
+    },
+  ]
+
   @state() private minimumConnectionTypeOptions: DropdownOption[] = [
     {
       value: "slow-2g",
@@ -229,6 +285,8 @@ export class SettingsTab extends LitElement {
       "enableTabPrediction",
       "enableScrollPrediction",
       "trajectoryPredictionTime",
+      "trajectoryModel",
+      "trajectoryShape",
       "positionHistorySize",
       "tabOffset",
       "scrollMargin",
@@ -291,6 +349,18 @@ export class SettingsTab extends LitElement {
     })
   }
 
+  private _handleTrajectoryModelChange = (value: string): void => {
+    ForesightManager.instance.alterGlobalSettings({
+      trajectoryModel: value as TrajectoryModelName,
+    })
+  }
+
+  private _handleTrajectoryShapeChange = (value: string): void => {
+    ForesightManager.instance.alterGlobalSettings({
+      trajectoryShape: value as TrajectoryShape,
+    })
+  }
+
   private _handleMinimumConnectionTypeChange = (value: string): void => {
     ForesightManager.instance.alterGlobalSettings({
       minimumConnectionType: value as MinimumConnectionType,
@@ -345,6 +415,10 @@ export class SettingsTab extends LitElement {
       enableScrollPrediction: settings.enableScrollPrediction,
       positionHistorySize: settings.positionHistorySize,
       trajectoryPredictionTime: settings.trajectoryPredictionTime,
+      // A custom model function can't be copied as JSON and is left out
+      trajectoryModel:
+        typeof settings.trajectoryModel === "string" ? settings.trajectoryModel : undefined,
+      trajectoryShape: settings.trajectoryShape,
       tabOffset: settings.tabOffset,
       scrollMargin: settings.scrollMargin,
       touchDeviceStrategy: settings.touchDeviceStrategy,
@@ -410,6 +484,30 @@ export class SettingsTab extends LitElement {
                 description="How far into the future to calculate mouse trajectory path"
                 setting="trajectoryPredictionTime"
               ></setting-item-range>
+              <setting-item
+                header="Trajectory Model"
+                description="Algorithm predicting the mouse path (none selected for a custom function)"
+              >
+                <single-select-dropdown
+                  slot="controls"
+                  .dropdownOptions=${this.trajectoryModelOptions}
+                  .selectedOptionValue=${typeof settings.trajectoryModel === "string"
+                    ? settings.trajectoryModel
+                    : "custom"}
+                  .onSelectionChange=${this._handleTrajectoryModelChange}
+                ></single-select-dropdown>
+              </setting-item>
+              <setting-item
+                header="Trajectory Shape"
+                description="Shape of the predicted path elements are hit-tested against"
+              >
+                <single-select-dropdown
+                  slot="controls"
+                  .dropdownOptions=${this.trajectoryShapeOptions}
+                  .selectedOptionValue=${settings.trajectoryShape}
+                  .onSelectionChange=${this._handleTrajectoryShapeChange}
+                ></single-select-dropdown>
+              </setting-item>
               <setting-item-range
                 .currentValue=${settings.positionHistorySize}
                 .maxValue=${MAX_POSITION_HISTORY_SIZE}
@@ -470,7 +568,7 @@ export class SettingsTab extends LitElement {
                 <single-select-dropdown
                   slot="controls"
                   .dropdownOptions=${this.touchDeviceStrategyOptions}
-                  .selectedOptionValue=${settings.touchDeviceStrategy}
+                  .selectedOptionValue=${[settings.touchDeviceStrategy].flat().join(", ")}
                   .onSelectionChange=${this._handleTouchDeviceStrategyChange}
                 ></single-select-dropdown>
               </setting-item>
@@ -74,6 +74,11 @@ export class ElementOverlays extends LitElement {
         pointer-events: none;
       }
 
+      .slop-area[data-dwelling] {
+        border-color: rgba(59, 130, 246, 0.8);
+        background-color: rgba(59, 130, 246, 0.05);
+      }
+
       .slop-area[data-hit="mouse"] {
         border-color: #3b82f6;
         background-color: rgba(59, 130, 246, 0.1);
@@ -353,6 +358,8 @@ export class ElementOverlays extends LitElement {
 
     this.updateSlopArea(overlay, element, state.hitSlop, bounds)
     this.updateNameLabel(overlay, state, bounds)
+    // Waiting out minDwellMs before a trajectory hit fires
+    overlay.slopArea.toggleAttribute("data-dwelling", state.isDwelling)
   }
 
   private removeElementOverlay(element: ForesightElement) {
@@ -51,11 +51,45 @@ export class MouseTrajectory extends LitElement {
         border-bottom: 4px solid transparent;
         filter: drop-shadow(0 0 6px rgba(59, 130, 246, 0.6));
       }
+
+      .trajectory-curve {
+        display: none;
+        position: absolute;
+        top: 0;
+        left: 0;
+        width: 1px;
+        height: 1px;
+        overflow: visible;
+        pointer-events: none;
+        z-index: 9999;
+      }
+
+      .trajectory-curve polyline {
+        fill: none;
+        stroke: #3b82f6;
+        stroke-width: 4;
+        stroke-linecap: round;
+        stroke-linejoin: round;
+        filter: drop-shadow(0 0 6px rgba(59, 130, 246, 0.4));
+      }
+
+      .trajectory-curve path {
+        fill: rgba(59, 130, 246, 0.15);
+        stroke: rgba(59, 130, 246, 0.5);
+        stroke-width: 1;
+      }
     `,
   ]
 
   private _abortController = new AbortController()
   private _lineEl: HTMLElement | null = null
+  private _curveEl: SVGSVGElement | null = null
+  private _curvePolylineEl: SVGPolylineElement | null = null
+  private _conePathEl: SVGPathElement | null = null
+  // The "curve" trajectoryShape publishes a polyline instead of a single segment
+  private _isCurve = false
+  // The "cone" trajectoryShape publishes a cone drawn around the line
+  private _hasCone = false
   private _mousePredictionIsEnabled =
     ForesightManager.instance.getManagerData.globalSettings.enableMousePrediction
   private _isVisible = false
@@ -95,6 +129,9 @@ export class MouseTrajectory extends LitElement {
 
   protected firstUpdated(): void {
     this._lineEl = this.shadowRoot!.querySelector<HTMLElement>(".trajectory-line")
+    this._curveEl = this.shadowRoot!.querySelector<SVGSVGElement>(".trajectory-curve")
+    this._curvePolylineEl = this.shadowRoot!.querySelector<SVGPolylineElement>("polyline")
+    this._conePathEl = this.shadowRoot!.querySelector<SVGPathElement>("path")
   }
 
   disconnectedCallback(): void {
@@ -108,8 +145,17 @@ export class MouseTrajectory extends LitElement {
     }
 
     this._isVisible = visible
+    this._applyVisibility()
+  }
+
+  private _applyVisibility(): void {
     if (this._lineEl) {
-      this._lineEl.style.display = visible ? "block" : "none"
+      this._lineEl.style.display = this._isVisible && !this._isCurve ? "block" : "none"
+    }
+
+    if (this._curveEl) {
+      this._curveEl.style.display =
+        this._isVisible && (this._isCurve || this._hasCone) ? "block" : "none"
     }
   }
 
@@ -124,6 +170,9 @@ export class MouseTrajectory extends LitElement {
         this._lineEl.style.transform = "translate3d(0px, 0px, 0) rotate(0deg)"
         this._lineEl.style.width = "0px"
       }
+
+      this._curvePolylineEl?.setAttribute("points", "")
+      this._conePathEl?.setAttribute("d", "")
     }
   }
 
@@ -142,7 +191,38 @@ export class MouseTrajectory extends LitElement {
 
     this._setVisible(true)
 
-    const { currentPoint, predictedPoint } = e.trajectoryPositions
+    const { currentPoint, predictedPoint, predictedPath, predictedCone } = e.trajectoryPositions
+    const isCurve = predictedPath.length > 2
+    const hasCone = predictedCone !== null
+    if (isCurve !== this._isCurve || hasCone !== this._hasCone) {
+      this._isCurve = isCurve
+      this._hasCone = hasCone
+      this._curvePolylineEl?.setAttribute("points", "")
+      this._conePathEl?.setAttribute("d", "")
+      this._applyVisibility()
+    }
+
+    if (predictedCone) {
+      const { origin, heading, halfAngle, length } = predictedCone
+      const startAngle = heading - halfAngle
+      const endAngle = heading + halfAngle
+      this._conePathEl?.setAttribute(
+        "d",
+        `M ${origin.x} ${origin.y} ` +
+          `L ${origin.x + Math.cos(startAngle) * length} ${origin.y + Math.sin(startAngle) * length} ` +
+          `A ${length} ${length} 0 0 1 ${origin.x + Math.cos(endAngle) * length} ${origin.y + Math.sin(endAngle) * length} Z`
+      )
+    }
+
+    if (isCurve) {
+      this._curvePolylineEl?.setAttribute(
+        "points",
+        predictedPath.map(point => `${point.x},${point.y}`).join(" ")
+      )
+
+      return
+    }
+
     const dx = predictedPoint.x - currentPoint.x
     const dy = predictedPoint.y - currentPoint.y
     const length = Math.sqrt(dx * dx + dy * dy)
@@ -155,6 +235,10 @@ export class MouseTrajectory extends LitElement {
   }
 
   render() {
-    return html`<div class="trajectory-line"></div>`
+    return html`<div class="trajectory-line"></div>
+      <svg class="trajectory-curve">
+        <path></path>
+        <polyline></polyline>
+      </svg>`
   }
 }
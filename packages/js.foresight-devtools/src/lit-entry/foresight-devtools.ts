@@ -40,8 +40,12 @@ export class ForesightDevtools extends LitElement {
       logLocation: "controlPanel",
       callbackCompleted: true,
       callbackInvoked: true,
+      callbackRetryScheduled: true,
+      budgetExceeded: true,
+      trajectoryDwellChanged: true,
       elementRegistered: false,
       elementUnregistered: false,
+      elementReactivated: false,
       managerSettingsChanged: true,
       mouseTrajectoryUpdate: false,
       scrollTrajectoryUpdate: false,
@@ -169,8 +173,12 @@ export class ForesightDevtools extends LitElement {
 
       this.updateLoggingSetting("callbackCompleted", props.logging.callbackCompleted)
       this.updateLoggingSetting("callbackInvoked", props.logging.callbackInvoked)
+      this.updateLoggingSetting("callbackRetryScheduled", props.logging.callbackRetryScheduled)
+      this.updateLoggingSetting("budgetExceeded", props.logging.budgetExceeded)
+      this.updateLoggingSetting("trajectoryDwellChanged", props.logging.trajectoryDwellChanged)
       this.updateLoggingSetting("elementRegistered", props.logging.elementRegistered)
       this.updateLoggingSetting("elementUnregistered", props.logging.elementUnregistered)
+      this.updateLoggingSetting("elementReactivated", props.logging.elementReactivated)
       this.updateLoggingSetting("managerSettingsChanged", props.logging.managerSettingsChanged)
       this.updateLoggingSetting("mouseTrajectoryUpdate", props.logging.mouseTrajectoryUpdate)
       this.updateLoggingSetting("scrollTrajectoryUpdate", props.logging.scrollTrajectoryUpdate)
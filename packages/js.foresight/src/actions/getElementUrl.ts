@@ -0,0 +1,26 @@
+import type { ForesightElement, ForesightElementState } from "../types/types"
+
+/**
+ * The URL an action loads for an element: `meta.url` when set, otherwise the
+ * element's `href` or `src` attribute, resolved against the document's base URI.
+ * Returns `null` when the element has neither or the URL is malformed.
+ */
+export const getElementUrl = (
+  state: ForesightElementState,
+  element: ForesightElement
+): string | null => {
+  const url =
+    typeof state.meta.url === "string"
+      ? state.meta.url
+      : (element.getAttribute("href") ?? element.getAttribute("src"))
+
+  if (!url) {
+    return null
+  }
+
+  try {
+    return new URL(url, element.ownerDocument.baseURI).href
+  } catch {
+    return null
+  }
+}
@@ -0,0 +1,8 @@
+export { prefetchLink, modulePreload, preloadImage, warmFetch } from "./prefetchActions"
+export { enableSpeculationRules, getDefaultSpeculation } from "./speculationRules"
+export type {
+  Speculation,
+  SpeculationAction,
+  SpeculationEagerness,
+  SpeculationRulesOptions,
+} from "./speculationRules"
@@ -0,0 +1,161 @@
+import { describe, it, expect, vi, afterEach } from "vitest"
+import { createUnregisteredSnapshot } from "../helpers/createInitialState"
+import type { ForesightCallback } from "../types/types"
+import { modulePreload, prefetchLink, preloadImage, warmFetch } from "./prefetchActions"
+
+// Every test uses its own URLs, since loaded resources are remembered for the
+// lifetime of the module.
+let urlCounter = 0
+const uniqueUrl = () => `https://example.com/resource-${++urlCounter}`
+
+const createLink = (href: string) => {
+  const element = document.createElement("a")
+  element.setAttribute("href", href)
+  document.body.appendChild(element)
+
+  return element
+}
+
+const run = (action: ForesightCallback, element: Element, meta: Record<string, unknown> = {}) =>
+  action(
+    { ...createUnregisteredSnapshot(false), name: "test", meta },
+    new AbortController().signal,
+    element
+  ) as unknown as Promise<void>
+
+const getLinks = (rel: string) =>
+  Array.from(document.head.querySelectorAll<HTMLLinkElement>(`link[rel="${rel}"]`))
+
+afterEach(() => {
+  document.head.innerHTML = ""
+  document.body.innerHTML = ""
+  vi.unstubAllGlobals()
+  vi.restoreAllMocks()
+})
+
+describe("prefetchLink", () => {
+  it("injects a prefetch link for the element's href", async () => {
+    const url = uniqueUrl()
+
+    const pending = run(prefetchLink, createLink(url))
+    const [link] = getLinks("prefetch")
+    link!.dispatchEvent(new Event("load"))
+
+    await expect(pending).resolves.toBeUndefined()
+    expect(link!.href).toBe(url)
+  })
+
+  it("dedupes elements pointing at the same URL", async () => {
+    const url = uniqueUrl()
+
+    const first = run(prefetchLink, createLink(url))
+    const second = run(prefetchLink, createLink(url))
+    getLinks("prefetch")[0]!.dispatchEvent(new Event("load"))
+    await Promise.all([first, second])
+    await run(prefetchLink, createLink(url))
+
+    expect(getLinks("prefetch")).toHaveLength(1)
+  })
+
+  it("prefers meta.url over the element", async () => {
+    const url = uniqueUrl()
+
+    const pending = run(prefetchLink, createLink(uniqueUrl()), { url })
+    const [link] = getLinks("prefetch")
+    link!.dispatchEvent(new Event("load"))
+    await pending
+
+    expect(link!.href).toBe(url)
+  })
+
+  it("rejects and allows a retry when loading fails", async () => {
+    const url = uniqueUrl()
+
+    const failed = run(prefetchLink, createLink(url))
+    getLinks("prefetch")[0]!.dispatchEvent(new Event("error"))
+
+    await expect(failed).rejects.toThrow(`Failed to prefetch ${url}`)
+    expect(getLinks("prefetch")).toHaveLength(0)
+
+    void run(prefetchLink, createLink(url))
+    expect(getLinks("prefetch")).toHaveLength(1)
+  })
+
+  it("rejects when the element has no URL", async () => {
+    await expect(run(prefetchLink, document.createElement("button"))).rejects.toThrow(
+      "No URL for element test"
+    )
+  })
+
+  it("rejects without loading when the URL is malformed", async () => {
+    await expect(run(prefetchLink, createLink("http://["))).rejects.toThrow(
+      "No URL for element test"
+    )
+    expect(getLinks("prefetch")).toHaveLength(0)
+  })
+})
+
+describe("modulePreload", () => {
+  it("injects a modulepreload link", async () => {
+    const url = uniqueUrl()
+
+    const pending = run(modulePreload, document.createElement("div"), { url })
+    const [link] = getLinks("modulepreload")
+    link!.dispatchEvent(new Event("load"))
+
+    await expect(pending).resolves.toBeUndefined()
+    expect(link!.href).toBe(url)
+  })
+})
+
+describe("preloadImage", () => {
+  // jsdom doesn't implement HTMLImageElement.decode
+  const stubDecode = (decode: () => Promise<void>) => {
+    const mock = vi.fn(decode)
+    HTMLImageElement.prototype.decode = mock
+
+    return mock
+  }
+
+  afterEach(() => {
+    // @ts-expect-error - removing the jsdom stub again
+    delete HTMLImageElement.prototype.decode
+  })
+
+  it("decodes the image from the element's src", async () => {
+    const decode = stubDecode(() => Promise.resolve())
+    const image = document.createElement("img")
+    image.setAttribute("src", uniqueUrl())
+
+    await run(preloadImage, image)
+
+    expect(decode).toHaveBeenCalledTimes(1)
+  })
+
+  it("rejects when the image fails to load", async () => {
+    stubDecode(() => Promise.reject(new Error("EncodingError")))
+    const url = uniqueUrl()
+
+    await expect(run(preloadImage, createLink(url))).rejects.toThrow(`Failed to load image ${url}`)
+  })
+})
+
+describe("warmFetch", () => {
+  it("fetches the URL with a low priority once", async () => {
+    const fetchMock = vi.fn().mockResolvedValue({ ok: true, status: 200 })
+    vi.stubGlobal("fetch", fetchMock)
+    const url = uniqueUrl()
+
+    await Promise.all([run(warmFetch, createLink(url)), run(warmFetch, createLink(url))])
+
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    expect(fetchMock).toHaveBeenCalledWith(url, { priority: "low" })
+  })
+
+  it("rejects on an error response", async () => {
+    vi.stubGlobal("fetch", vi.fn().mockResolvedValue({ ok: false, status: 404 }))
+    const url = uniqueUrl()
+
+    await expect(run(warmFetch, createLink(url))).rejects.toThrow(`Failed to fetch ${url}: 404`)
+  })
+})
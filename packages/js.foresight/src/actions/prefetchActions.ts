@@ -0,0 +1,99 @@
+import type { ForesightCallback, ForesightElement, ForesightElementState } from "../types/types"
+import { getElementUrl } from "./getElementUrl"
+
+/**
+ * Resources that are loading or already loaded, keyed by kind and absolute URL.
+ * Shared by every element, so elements pointing at the same resource only load
+ * it once. Failed loads are dropped again so a later hit can retry.
+ */
+const resources: Map<string, Promise<void>> = new Map()
+
+const resolveUrl = (state: ForesightElementState, element: ForesightElement): string => {
+  const url = getElementUrl(state, element)
+  if (!url) {
+    throw new Error(`No URL for element ${state.name}, set a valid href/src attribute or meta.url`)
+  }
+
+  return url
+}
+
+const loadOnce = (key: string, load: () => Promise<void>): Promise<void> => {
+  let pending = resources.get(key)
+  if (!pending) {
+    pending = load()
+    resources.set(key, pending)
+    pending.catch(() => resources.delete(key))
+  }
+
+  return pending
+}
+
+const injectLink = (rel: string, href: string): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const link = document.createElement("link")
+    link.rel = rel
+    link.href = href
+    link.addEventListener("load", () => resolve(), { once: true })
+    link.addEventListener(
+      "error",
+      () => {
+        link.remove()
+        reject(new Error(`Failed to ${rel} ${href}`))
+      },
+      { once: true }
+    )
+    document.head.appendChild(link)
+  })
+
+// Loads are shared between elements, so the run's AbortSignal is not forwarded:
+// aborting one element must not cancel the load for the others.
+const createPrefetchAction =
+  (kind: string, load: (url: string) => Promise<void>): ForesightCallback =>
+  async (state, _signal, element) => {
+    const url = resolveUrl(state, element)
+
+    await loadOnce(`${kind} ${url}`, () => load(url))
+  }
+
+/**
+ * Prefetches the element's URL with `<link rel="prefetch">`, e.g. the next page
+ * of a link.
+ */
+export const prefetchLink: ForesightCallback = createPrefetchAction("prefetch", url =>
+  injectLink("prefetch", url)
+)
+
+/**
+ * Preloads a JavaScript module (and its static imports) with
+ * `<link rel="modulepreload">`, e.g. the chunk of a lazily imported route.
+ */
+export const modulePreload: ForesightCallback = createPrefetchAction("modulepreload", url =>
+  injectLink("modulepreload", url)
+)
+
+/**
+ * Loads and decodes an image so it renders without delay, e.g. the full-size
+ * version behind a thumbnail.
+ */
+export const preloadImage: ForesightCallback = createPrefetchAction("image", async url => {
+  const image = new Image()
+  image.src = url
+
+  try {
+    await image.decode()
+  } catch {
+    throw new Error(`Failed to load image ${url}`)
+  }
+})
+
+/**
+ * Warms the HTTP cache with a low priority `fetch()`, e.g. for API responses.
+ * Responses outside the 2xx range count as a failure.
+ */
+export const warmFetch: ForesightCallback = createPrefetchAction("fetch", async url => {
+  const response = await fetch(url, { priority: "low" })
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch ${url}: ${response.status}`)
+  }
+})
@@ -0,0 +1,155 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest"
+import { ForesightEventEmitter } from "../core/ForesightEventEmitter"
+import { createUnregisteredSnapshot } from "../helpers/createInitialState"
+import type { CallbackHitType, ForesightElement } from "../types/types"
+import { enableSpeculationRules, getDefaultSpeculation } from "./speculationRules"
+
+const HOVER: CallbackHitType = { kind: "mouse", subType: "hover" }
+
+const createLink = (href: string) => {
+  const element = document.createElement("a")
+  element.setAttribute("href", href)
+  document.body.appendChild(element)
+
+  return element
+}
+
+const getRules = () =>
+  Array.from(document.head.querySelectorAll('script[type="speculationrules"]'), script =>
+    JSON.parse(script.textContent ?? "")
+  )
+
+describe("enableSpeculationRules", () => {
+  let emitter: ForesightEventEmitter
+  let disable: () => void
+
+  const invoke = (element: ForesightElement, hitType: CallbackHitType = HOVER) =>
+    emitter.emit({
+      type: "callbackInvoked",
+      element,
+      state: { ...createUnregisteredSnapshot(false), name: "link" },
+      hitType,
+      confidence: 1,
+      timestamp: Date.now(),
+    })
+
+  beforeEach(() => {
+    // jsdom doesn't implement HTMLScriptElement.supports
+    HTMLScriptElement.supports = vi.fn((type: string) => type === "speculationrules")
+    emitter = new ForesightEventEmitter()
+    disable = enableSpeculationRules(emitter)
+  })
+
+  afterEach(() => {
+    disable()
+    // @ts-expect-error - removing the jsdom stub again
+    delete HTMLScriptElement.supports
+    document.head.innerHTML = ""
+    document.body.innerHTML = ""
+  })
+
+  it("adds a rule for the element's URL on a callback hit", () => {
+    invoke(createLink("https://example.com/pricing"))
+
+    expect(getRules()).toEqual([
+      {
+        prerender: [
+          { source: "list", urls: ["https://example.com/pricing"], eagerness: "immediate" },
+        ],
+      },
+    ])
+  })
+
+  it("updates the rule when a later hit asks for a different speculation", () => {
+    const element = createLink("https://example.com/pricing")
+
+    invoke(element, { kind: "scroll", subType: "down" })
+    invoke(element, HOVER)
+
+    expect(getRules()).toHaveLength(1)
+    expect(getRules()[0].prerender).toBeDefined()
+  })
+
+  it("skips elements without a URL", () => {
+    invoke(document.createElement("button"))
+
+    expect(getRules()).toHaveLength(0)
+  })
+
+  it("skips elements with a malformed URL", () => {
+    expect(() => invoke(createLink("http://["))).not.toThrow()
+    expect(getRules()).toHaveLength(0)
+  })
+
+  it("downgrades the oldest prerender once the limit is reached", () => {
+    invoke(createLink("https://example.com/a"))
+    invoke(createLink("https://example.com/b"))
+    invoke(createLink("https://example.com/c"))
+
+    const rules = getRules()
+    expect(rules.filter(rule => rule.prerender)).toHaveLength(2)
+    expect(rules.find(rule => rule.prefetch)?.prefetch[0].urls).toEqual(["https://example.com/a"])
+  })
+
+  it("removes the rule when the element is unregistered", () => {
+    const element = createLink("https://example.com/pricing")
+    invoke(element)
+
+    emitter.emit({
+      type: "elementUnregistered",
+      element,
+      state: createUnregisteredSnapshot(false),
+      unregisterReason: "apiCall",
+      wasLastRegisteredElement: true,
+      timestamp: Date.now(),
+    })
+
+    expect(getRules()).toHaveLength(0)
+  })
+
+  it("removes the rule when the element is reactivated", () => {
+    const element = createLink("https://example.com/pricing")
+    invoke(element)
+
+    emitter.emit({
+      type: "elementReactivated",
+      element,
+      state: createUnregisteredSnapshot(false),
+      timestamp: Date.now(),
+    })
+
+    expect(getRules()).toHaveLength(0)
+  })
+
+  it("removes every rule and stops listening when disabled", () => {
+    const element = createLink("https://example.com/pricing")
+    invoke(element)
+
+    disable()
+    invoke(element)
+
+    expect(getRules()).toHaveLength(0)
+  })
+
+  it("does nothing without Speculation Rules support", () => {
+    disable()
+    HTMLScriptElement.supports = vi.fn(() => false)
+    disable = enableSpeculationRules(emitter)
+
+    invoke(createLink("https://example.com/pricing"))
+
+    expect(getRules()).toHaveLength(0)
+  })
+})
+
+describe("getDefaultSpeculation", () => {
+  it("prerenders immediately on strong intent and prefetches on weak intent", () => {
+    expect(getDefaultSpeculation(HOVER)).toEqual({ action: "prerender", eagerness: "immediate" })
+    expect(getDefaultSpeculation({ kind: "mouse", subType: "trajectory" })).toEqual({
+      action: "prerender",
+      eagerness: "moderate",
+    })
+    expect(getDefaultSpeculation({ kind: "tab", subType: "forwards" }).action).toBe("prerender")
+    expect(getDefaultSpeculation({ kind: "viewport" }).action).toBe("prefetch")
+  })
+})
@@ -0,0 +1,145 @@
+import type { ForesightManager } from "../managers/ForesightManager"
+import type { CallbackHitType, ForesightElement, ForesightElementState } from "../types/types"
+import { getElementUrl } from "./getElementUrl"
+
+export type SpeculationAction = "prefetch" | "prerender"
+export type SpeculationEagerness = "immediate" | "eager" | "moderate" | "conservative"
+
+export type Speculation = {
+  action: SpeculationAction
+  eagerness: SpeculationEagerness
+}
+
+export type SpeculationRulesOptions = {
+  /**
+   * Maximum number of prerender rules at once. When exceeded, the oldest
+   * prerender is downgraded to a prefetch.
+   * @default 2
+   */
+  maxPrerenders?: number
+  /**
+   * Picks the speculation for a callback hit. Return `null` to not speculate.
+   * @default getDefaultSpeculation
+   */
+  getSpeculation?: (hitType: CallbackHitType, state: ForesightElementState) => Speculation | null
+}
+
+type SpeculationRule = Speculation & {
+  url: string
+  script: HTMLScriptElement
+}
+
+const DEFAULT_MAX_PRERENDERS = 2
+
+/**
+ * The default speculation per hit type. Hover, tab and touch hits are strong
+ * signals and prerender right away. A trajectory prediction prerenders with
+ * `moderate` eagerness, so the browser waits for the pointer to actually reach
+ * the link. Scroll and viewport hits only prefetch.
+ */
+export const getDefaultSpeculation = (hitType: CallbackHitType): Speculation => {
+  switch (hitType.kind) {
+    case "mouse":
+      return hitType.subType === "hover"
+        ? { action: "prerender", eagerness: "immediate" }
+        : { action: "prerender", eagerness: "moderate" }
+    case "tab":
+    case "touch":
+      return { action: "prerender", eagerness: "immediate" }
+    case "scroll":
+      return { action: "prefetch", eagerness: "immediate" }
+    case "viewport":
+      return { action: "prefetch", eagerness: "conservative" }
+  }
+}
+
+const isSpeculationRulesSupported = (): boolean =>
+  typeof HTMLScriptElement !== "undefined" &&
+  typeof HTMLScriptElement.supports === "function" &&
+  HTMLScriptElement.supports("speculationrules")
+
+const createRuleScript = (url: string, { action, eagerness }: Speculation): HTMLScriptElement => {
+  const script = document.createElement("script")
+  script.type = "speculationrules"
+  script.textContent = JSON.stringify({ [action]: [{ source: "list", urls: [url], eagerness }] })
+  document.head.appendChild(script)
+
+  return script
+}
+
+/**
+ * Adds a `<script type="speculationrules">` rule for an element's URL (see
+ * `getElementUrl`) whenever one of the manager's callbacks fires, so Chromium
+ * can prefetch or prerender the whole page. Rules are removed again once the
+ * element is unregistered or reactivated, as the speculation may be stale by then.
+ *
+ * Works next to the element's own callback. Does nothing in browsers without
+ * Speculation Rules support.
+ *
+ * @returns A function that removes the listeners and every rule added.
+ */
+export const enableSpeculationRules = (
+  manager: Pick<ForesightManager, "addEventListener">,
+  options: SpeculationRulesOptions = {}
+): (() => void) => {
+  if (!isSpeculationRulesSupported()) {
+    return () => {}
+  }
+
+  const { maxPrerenders = DEFAULT_MAX_PRERENDERS, getSpeculation = getDefaultSpeculation } = options
+  // Insertion ordered, so the first prerender is the oldest one.
+  const rules: Map<ForesightElement, SpeculationRule> = new Map()
+  const controller = new AbortController()
+  const { signal } = controller
+
+  const removeRule = (element: ForesightElement): void => {
+    rules.get(element)?.script.remove()
+    rules.delete(element)
+  }
+
+  const setRule = (element: ForesightElement, url: string, speculation: Speculation): void => {
+    removeRule(element)
+    rules.set(element, { ...speculation, url, script: createRuleScript(url, speculation) })
+  }
+
+  const enforcePrerenderLimit = (): void => {
+    const prerenders = Array.from(rules).filter(([, rule]) => rule.action === "prerender")
+
+    for (const [element, rule] of prerenders.slice(0, prerenders.length - maxPrerenders)) {
+      setRule(element, rule.url, { action: "prefetch", eagerness: rule.eagerness })
+    }
+  }
+
+  manager.addEventListener(
+    "callbackInvoked",
+    ({ element, state, hitType }) => {
+      const url = getElementUrl(state, element)
+      const speculation = url ? getSpeculation(hitType, state) : null
+      if (!url || !speculation) {
+        return
+      }
+
+      const current = rules.get(element)
+      if (
+        current?.url === url &&
+        current.action === speculation.action &&
+        current.eagerness === speculation.eagerness
+      ) {
+        return
+      }
+
+      setRule(element, url, speculation)
+      enforcePrerenderLimit()
+    },
+    { signal }
+  )
+  manager.addEventListener("elementUnregistered", ({ element }) => removeRule(element), { signal })
+  manager.addEventListener("elementReactivated", ({ element }) => removeRule(element), { signal })
+
+  return () => {
+    controller.abort()
+    for (const element of Array.from(rules.keys())) {
+      removeRule(element)
+    }
+  }
+}
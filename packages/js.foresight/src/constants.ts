@@ -24,3 +24,53 @@ export const DEFAULT_ENABLE_MOUSE_PREDICTION: boolean = true
 export const DEFAULT_ENABLE_SCROLL_PREDICTION: boolean = true
 
 export const DEFAULT_REACTIVATE_AFTER: number = Infinity
+
+export const MIN_CONCURRENT_CALLBACKS: number = 1
+export const MAX_CONCURRENT_CALLBACKS: number = Infinity
+export const DEFAULT_MAX_CONCURRENT_CALLBACKS: number = Infinity
+
+export const DEFAULT_PRIORITY: number = 0
+
+export const DEFAULT_ABORT_AFTER_INTENT_LOST: number = Infinity
+
+export const MIN_CALLBACK_TIMEOUT: number = 100
+export const MAX_CALLBACK_TIMEOUT: number = Infinity
+export const DEFAULT_CALLBACK_TIMEOUT: number = Infinity
+
+export const MIN_RETRY_ATTEMPTS: number = 1
+export const MAX_RETRY_ATTEMPTS: number = 10
+export const DEFAULT_RETRY_ATTEMPTS: number = 1
+export const DEFAULT_RETRY_BASE_DELAY: number = 1000
+export const DEFAULT_RETRY_MAX_DELAY: number = 30000
+export const DEFAULT_RETRY_JITTER: boolean = true
+
+export const MIN_CALLBACK_BUDGET: number = 1
+export const MAX_CALLBACK_BUDGET: number = Infinity
+export const DEFAULT_CALLBACK_BUDGET: number = Infinity
+
+export const MIN_CALLBACK_BUDGET_WINDOW: number = 1000
+export const MAX_CALLBACK_BUDGET_WINDOW: number = 3600000
+export const DEFAULT_CALLBACK_BUDGET_WINDOW: number = 60000
+
+export const DEFAULT_WEIGHT: number = 1
+
+export const MIN_DWELL_MS: number = 0
+export const MAX_DWELL_MS: number = 2000
+export const DEFAULT_MIN_DWELL_MS: number = 0
+
+export const MIN_VIEWPORT_THRESHOLD: number = 0
+export const MAX_VIEWPORT_THRESHOLD: number = 1
+export const DEFAULT_VIEWPORT_THRESHOLD: number = 0
+export const DEFAULT_VIEWPORT_ROOT_MARGIN: string = "0px"
+
+export const MIN_VIEWPORT_DWELL_MS: number = 0
+export const MAX_VIEWPORT_DWELL_MS: number = 10000
+export const DEFAULT_VIEWPORT_DWELL_MS: number = 0
+
+export const MIN_TARGETS_PER_MOVE: number = 1
+export const MAX_TARGETS_PER_MOVE: number = Infinity
+export const DEFAULT_MAX_TARGETS_PER_MOVE: number = Infinity
+
+export const MIN_CONFIDENCE: number = 0
+export const MAX_CONFIDENCE: number = 1
+export const DEFAULT_MIN_CONFIDENCE: number = 0
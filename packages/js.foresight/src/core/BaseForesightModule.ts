@@ -1,9 +1,12 @@
 import { devLogMessage } from "../helpers/devLog"
+import type { SpatialGrid } from "../helpers/SpatialGrid"
 import type {
+  CallbackAbortReason,
   CallbackHitType,
   ElementBounds,
   ForesightElement,
   ForesightElementInternal,
+  ForesightElementSettings,
   ForesightElementState,
   ForesightEvent,
   ForesightEventMap,
@@ -12,7 +15,13 @@ import type {
 
 type CallCallbackFunction = (
   entry: ForesightElementInternal,
-  callbackHitType: CallbackHitType
+  callbackHitType: CallbackHitType,
+  confidence?: number
+) => void
+
+type AbortCallbackFunction = (
+  entry: ForesightElementInternal,
+  abortReason: CallbackAbortReason
 ) => void
 
 type EmitFunction = <K extends ForesightEvent>(event: ForesightEventMap[K]) => void
@@ -32,10 +41,17 @@ type UpdateElementBoundsFunction = (
 export type ForesightModuleDependencies = {
   elements: ReadonlyMap<ForesightElement, ForesightElementInternal>
   callCallback: CallCallbackFunction
+  abortCallback: AbortCallbackFunction
   emit: EmitFunction
   hasListeners: HasListenersFunction
   updateElementState: UpdateElementStateFunction
   updateElementBounds: UpdateElementBoundsFunction
+  /** Visible, active elements by their `expandedRect`, see `ForesightManager.syncElementIndex`. */
+  elementIndex: SpatialGrid<ForesightElementInternal>
+  /** Elements whose callback is currently running. */
+  runningElements: ReadonlySet<ForesightElementInternal>
+  /** Scopes registered with `ForesightManager.registerFocusScope`, oldest first. */
+  focusScopes: readonly Element[]
   settings: ForesightManagerSettings
 }
 
@@ -43,10 +59,14 @@ export abstract class BaseForesightModule {
   protected abortController?: AbortController
   protected elements: ReadonlyMap<ForesightElement, ForesightElementInternal>
   protected callCallback: CallCallbackFunction
+  protected abortCallback: AbortCallbackFunction
   protected emit: EmitFunction
   protected hasListeners: HasListenersFunction
   protected updateElementState: UpdateElementStateFunction
   protected updateElementBounds: UpdateElementBoundsFunction
+  protected elementIndex: SpatialGrid<ForesightElementInternal>
+  protected runningElements: ReadonlySet<ForesightElementInternal>
+  protected focusScopes: readonly Element[]
   protected settings: ForesightManagerSettings
   private _isConnected = false
 
@@ -59,10 +79,14 @@ export abstract class BaseForesightModule {
   constructor(dependencies: ForesightModuleDependencies) {
     this.elements = dependencies.elements
     this.callCallback = dependencies.callCallback
+    this.abortCallback = dependencies.abortCallback
     this.emit = dependencies.emit
     this.hasListeners = dependencies.hasListeners
     this.updateElementState = dependencies.updateElementState
     this.updateElementBounds = dependencies.updateElementBounds
+    this.elementIndex = dependencies.elementIndex
+    this.runningElements = dependencies.runningElements
+    this.focusScopes = dependencies.focusScopes
     this.settings = dependencies.settings
   }
 
@@ -96,6 +120,17 @@ export abstract class BaseForesightModule {
     devLogMessage(this.moduleName, message, color)
   }
 
+  /**
+   * Reads a prediction setting for an element: its `settings` override when set,
+   * otherwise the global value.
+   */
+  protected getElementSetting<K extends keyof ForesightElementSettings>(
+    entry: ForesightElementInternal,
+    key: K
+  ): Required<ForesightElementSettings>[K] {
+    return entry.state.settings[key] ?? this.settings[key]
+  }
+
   protected abstract onConnect(): void
   protected abstract onDisconnect(): void
 
@@ -0,0 +1,181 @@
+import { describe, it, expect, vi, afterEach } from "vitest"
+import { sharedGlobalListeners, type GlobalListenerSubscriber } from "./SharedGlobalListeners"
+
+const createSubscriber = (): GlobalListenerSubscriber => ({
+  handlePointerMove: vi.fn(),
+  handleDomMutations: vi.fn(),
+})
+
+const countPointerMoveCalls = (spy: { mock: { calls: unknown[][] } }) =>
+  spy.mock.calls.filter(([type]) => type === "pointermove").length
+
+describe("sharedGlobalListeners", () => {
+  const subscribers: GlobalListenerSubscriber[] = []
+
+  const subscribe = () => {
+    const subscriber = createSubscriber()
+    subscribers.push(subscriber)
+    sharedGlobalListeners.subscribe(subscriber)
+
+    return subscriber
+  }
+
+  afterEach(() => {
+    for (const subscriber of subscribers.splice(0)) {
+      sharedGlobalListeners.unsubscribe(subscriber)
+    }
+    vi.restoreAllMocks()
+  })
+
+  it("attaches a single pointermove listener for all subscribers", () => {
+    const addSpy = vi.spyOn(document, "addEventListener")
+
+    subscribe()
+    subscribe()
+    subscribe()
+
+    expect(countPointerMoveCalls(addSpy)).toBe(1)
+    expect(sharedGlobalListeners.subscriberCount).toBe(3)
+  })
+
+  it("ignores duplicate subscriptions", () => {
+    const subscriber = subscribe()
+    sharedGlobalListeners.subscribe(subscriber)
+
+    expect(sharedGlobalListeners.subscriberCount).toBe(1)
+  })
+
+  it("dispatches pointer moves to every subscriber", () => {
+    const a = subscribe()
+    const b = subscribe()
+    const event = new PointerEvent("pointermove", { clientX: 10, clientY: 20 })
+
+    document.dispatchEvent(event)
+
+    expect(a.handlePointerMove).toHaveBeenCalledWith(event)
+    expect(b.handlePointerMove).toHaveBeenCalledWith(event)
+  })
+
+  it("dispatches DOM mutations to every subscriber", async () => {
+    const a = subscribe()
+    const b = subscribe()
+
+    document.body.appendChild(document.createElement("div"))
+
+    await vi.waitFor(() => {
+      expect(a.handleDomMutations).toHaveBeenCalled()
+      expect(b.handleDomMutations).toHaveBeenCalled()
+    })
+  })
+
+  it("removes the listener only when the last subscriber leaves", () => {
+    const removeSpy = vi.spyOn(document, "removeEventListener")
+    const a = subscribe()
+    const b = subscribe()
+
+    sharedGlobalListeners.unsubscribe(a)
+    expect(countPointerMoveCalls(removeSpy)).toBe(0)
+
+    sharedGlobalListeners.unsubscribe(b)
+    expect(countPointerMoveCalls(removeSpy)).toBe(1)
+    expect(sharedGlobalListeners.subscriberCount).toBe(0)
+
+    document.dispatchEvent(new PointerEvent("pointermove"))
+    expect(a.handlePointerMove).not.toHaveBeenCalled()
+  })
+
+  it("observes shadow roots for DOM mutations", async () => {
+    // Attach the host before subscribing so only the shadow mutation is observed
+    const host = document.createElement("div")
+    document.body.appendChild(host)
+    const shadowRoot = host.attachShadow({ mode: "open" })
+    const subscriber = subscribe()
+
+    sharedGlobalListeners.observeRoot(shadowRoot)
+    shadowRoot.appendChild(document.createElement("span"))
+
+    await vi.waitFor(() => {
+      expect(subscriber.handleDomMutations).toHaveBeenCalled()
+    })
+
+    sharedGlobalListeners.unobserveRoot(shadowRoot)
+    expect(sharedGlobalListeners.observedRootCount).toBe(0)
+  })
+
+  it("reference counts shadow roots", async () => {
+    const host = document.createElement("div")
+    document.body.appendChild(host)
+    const shadowRoot = host.attachShadow({ mode: "open" })
+    const subscriber = subscribe()
+
+    sharedGlobalListeners.observeRoot(shadowRoot)
+    sharedGlobalListeners.observeRoot(shadowRoot)
+    sharedGlobalListeners.unobserveRoot(shadowRoot)
+    expect(sharedGlobalListeners.observedRootCount).toBe(1)
+
+    shadowRoot.appendChild(document.createElement("span"))
+    await vi.waitFor(() => {
+      expect(subscriber.handleDomMutations).toHaveBeenCalled()
+    })
+
+    sharedGlobalListeners.unobserveRoot(shadowRoot)
+    expect(sharedGlobalListeners.observedRootCount).toBe(0)
+  })
+
+  it("forwards pointer moves inside an observed frame in top-level coordinates", () => {
+    const frame = document.createElement("iframe")
+    document.body.appendChild(frame)
+    frame.getBoundingClientRect = () => new DOMRectReadOnly(50, 100, 300, 200)
+    const frameDocument = frame.contentDocument!
+    const subscriber = subscribe()
+
+    sharedGlobalListeners.observeRoot(frameDocument)
+    frameDocument.dispatchEvent(new PointerEvent("pointermove", { clientX: 10, clientY: 20 }))
+
+    const event = vi.mocked(subscriber.handlePointerMove).mock.calls[0]![0]
+    expect([event.clientX, event.clientY]).toEqual([60, 120])
+
+    sharedGlobalListeners.unobserveRoot(frameDocument)
+    frame.remove()
+  })
+
+  it("forwards pointer moves from frames without registered elements, including nested ones", () => {
+    const frame = document.createElement("iframe")
+    document.body.appendChild(frame)
+    const nestedFrame = frame.contentDocument!.createElement("iframe")
+    frame.contentDocument!.body.appendChild(nestedFrame)
+    const subscriber = subscribe()
+
+    frame.contentDocument!.dispatchEvent(new PointerEvent("pointermove"))
+    nestedFrame.contentDocument!.dispatchEvent(new PointerEvent("pointermove"))
+
+    expect(subscriber.handlePointerMove).toHaveBeenCalledTimes(2)
+    frame.remove()
+  })
+
+  it("forwards pointer moves from frames added after subscribing", async () => {
+    const subscriber = subscribe()
+    const frame = document.createElement("iframe")
+    document.body.appendChild(frame)
+
+    await vi.waitFor(() => {
+      expect(subscriber.handleDomMutations).toHaveBeenCalled()
+    })
+    frame.contentDocument!.dispatchEvent(new PointerEvent("pointermove"))
+
+    expect(subscriber.handlePointerMove).toHaveBeenCalledTimes(1)
+    frame.remove()
+  })
+
+  it("stops forwarding frame pointer moves once the last subscriber leaves", () => {
+    const frame = document.createElement("iframe")
+    document.body.appendChild(frame)
+    const subscriber = subscribe()
+
+    sharedGlobalListeners.unsubscribe(subscriber)
+    frame.contentDocument!.dispatchEvent(new PointerEvent("pointermove"))
+
+    expect(subscriber.handlePointerMove).not.toHaveBeenCalled()
+    frame.remove()
+  })
+})
@@ -0,0 +1,226 @@
+import { getFrameOffset } from "../helpers/frames"
+import { isDocument, type ObservedRoot } from "../helpers/getObservedRoots"
+
+export type GlobalListenerSubscriber = {
+  handlePointerMove: (e: PointerEvent) => void
+  handleDomMutations: (mutationsList: MutationRecord[]) => void
+}
+
+const OBSERVER_OPTIONS: MutationObserverInit = {
+  childList: true,
+  subtree: true,
+  // Toggling inert or opening a dialog changes which elements can be tabbed to
+  attributes: true,
+  attributeFilter: ["inert", "open"],
+}
+
+const FRAME_SELECTOR = "iframe, frame"
+
+type FrameElement = HTMLIFrameElement | HTMLFrameElement
+
+/**
+ * Document-level listeners shared by every ForesightManager on the page, so
+ * scoped managers don't each attach their own `pointermove` listener and
+ * MutationObserver. The first subscriber attaches them, the last one to
+ * unsubscribe removes them again.
+ *
+ * The MutationObserver also watches the shadow roots and same-origin frame
+ * documents registered elements live in. Roots are reference counted since
+ * several elements (and managers) can share one.
+ *
+ * Pointer events don't bubble out of a frame, so every reachable same-origin
+ * frame document gets a `pointermove` listener too, whether or not it holds a
+ * registered element; their coordinates are mapped into the top-level viewport
+ * before dispatching. Frames are found in the top-level document, in observed
+ * roots and (recursively) in the frame documents themselves, and followed when
+ * they navigate. Frames added later are noticed in the top-level document and
+ * observed roots only.
+ */
+class SharedGlobalListeners {
+  private subscribers: Set<GlobalListenerSubscriber> = new Set()
+  private domObserver: MutationObserver | null = null
+  private roots: Map<ObservedRoot, number> = new Map()
+  // Frame listeners stay attached after detach: removing them later would mean
+  // holding on to every frame document, keeping removed frames alive. Without
+  // subscribers they do nothing, and adding the same listener again is a no-op.
+  private frames: WeakSet<FrameElement> = new WeakSet()
+  private frameDocuments: WeakSet<Document> = new WeakSet()
+
+  public subscribe(subscriber: GlobalListenerSubscriber): void {
+    if (typeof document === "undefined" || this.subscribers.has(subscriber)) {
+      return
+    }
+
+    this.subscribers.add(subscriber)
+
+    if (this.subscribers.size === 1) {
+      this.attach()
+    }
+  }
+
+  public unsubscribe(subscriber: GlobalListenerSubscriber): void {
+    if (!this.subscribers.delete(subscriber)) {
+      return
+    }
+
+    if (this.subscribers.size === 0) {
+      this.detach()
+    }
+  }
+
+  public observeRoot(root: ObservedRoot): void {
+    const count = this.roots.get(root) ?? 0
+    this.roots.set(root, count + 1)
+
+    if (count === 0 && this.domObserver) {
+      this.attachRoot(this.domObserver, root)
+    }
+  }
+
+  public unobserveRoot(root: ObservedRoot): void {
+    const count = this.roots.get(root)
+    if (count === undefined) {
+      return
+    }
+
+    if (count > 1) {
+      this.roots.set(root, count - 1)
+
+      return
+    }
+
+    this.roots.delete(root)
+
+    if (this.domObserver) {
+      // MutationObserver can't stop observing a single target, so start over
+      // with the remaining ones.
+      this.domObserver.disconnect()
+      this.observeTargets(this.domObserver)
+    }
+  }
+
+  public get subscriberCount(): number {
+    return this.subscribers.size
+  }
+
+  public get observedRootCount(): number {
+    return this.roots.size
+  }
+
+  private attach(): void {
+    document.addEventListener("pointermove", this.handlePointerMove)
+    this.listenToFrames(document)
+
+    this.domObserver = new MutationObserver(this.handleDomMutations)
+    this.domObserver.observe(document.documentElement, OBSERVER_OPTIONS)
+
+    for (const root of this.roots.keys()) {
+      this.attachRoot(this.domObserver, root)
+    }
+  }
+
+  private detach(): void {
+    document.removeEventListener("pointermove", this.handlePointerMove)
+
+    this.domObserver?.disconnect()
+    this.domObserver = null
+  }
+
+  private attachRoot(observer: MutationObserver, root: ObservedRoot): void {
+    observer.observe(root, OBSERVER_OPTIONS)
+
+    if (isDocument(root)) {
+      this.listenToFrameDocument(root)
+    } else {
+      this.listenToFrames(root)
+    }
+  }
+
+  /** Forwards pointer moves from every same-origin frame inside `root`, including nested ones. */
+  private listenToFrames(root: Document | ShadowRoot | Element): void {
+    if (root.nodeType === Node.ELEMENT_NODE && (root as Element).matches(FRAME_SELECTOR)) {
+      this.listenToFrame(root as FrameElement)
+    }
+
+    for (const frame of root.querySelectorAll<FrameElement>(FRAME_SELECTOR)) {
+      this.listenToFrame(frame)
+    }
+  }
+
+  private listenToFrame(frame: FrameElement): void {
+    if (!this.frames.has(frame)) {
+      this.frames.add(frame)
+      // A navigation replaces the frame's document
+      frame.addEventListener("load", this.handleFrameLoad)
+    }
+
+    // null for cross-origin frames
+    const frameDocument = frame.contentDocument
+    if (frameDocument) {
+      this.listenToFrameDocument(frameDocument)
+    }
+  }
+
+  private listenToFrameDocument(frameDocument: Document): void {
+    if (frameDocument === document || this.frameDocuments.has(frameDocument)) {
+      return
+    }
+
+    this.frameDocuments.add(frameDocument)
+    frameDocument.addEventListener("pointermove", this.handleFramePointerMove)
+    this.listenToFrames(frameDocument)
+  }
+
+  private observeTargets(observer: MutationObserver): void {
+    observer.observe(document.documentElement, OBSERVER_OPTIONS)
+
+    for (const root of this.roots.keys()) {
+      observer.observe(root, OBSERVER_OPTIONS)
+    }
+  }
+
+  private handlePointerMove = (e: PointerEvent): void => {
+    for (const subscriber of this.subscribers) {
+      subscriber.handlePointerMove(e)
+    }
+  }
+
+  private handleFramePointerMove = (e: PointerEvent): void => {
+    if (this.subscribers.size === 0) {
+      return
+    }
+
+    const frameDocument = (e.currentTarget as Document | null) ?? document
+    const { x, y } = getFrameOffset(frameDocument)
+
+    this.handlePointerMove(
+      new PointerEvent("pointermove", {
+        clientX: e.clientX + x,
+        clientY: e.clientY + y,
+        pointerType: e.pointerType,
+        pointerId: e.pointerId,
+        isPrimary: e.isPrimary,
+      })
+    )
+  }
+
+  private handleFrameLoad = (e: Event): void => {
+    this.listenToFrame(e.currentTarget as FrameElement)
+  }
+
+  private handleDomMutations = (mutationsList: MutationRecord[]): void => {
+    for (const mutation of mutationsList) {
+      for (const node of mutation.addedNodes) {
+        if (node.nodeType === Node.ELEMENT_NODE) {
+          this.listenToFrames(node as Element)
+        }
+      }
+    }
+
+    for (const subscriber of this.subscribers) {
+      subscriber.handleDomMutations(mutationsList)
+    }
+  }
+}
+
+export const sharedGlobalListeners = new SharedGlobalListeners()
@@ -125,6 +125,23 @@ describe("CircularBuffer", () => {
     })
   })
 
+  describe("get", () => {
+    it("should read items oldest first before and after wrapping", () => {
+      const buffer = makeBuffer(3, 1, 2)
+      expect([buffer.get(0), buffer.get(1)]).toEqual([1, 2])
+
+      buffer.add(3)
+      buffer.add(4)
+      expect([buffer.get(0), buffer.get(1), buffer.get(2)]).toEqual([2, 3, 4])
+    })
+
+    it("should return undefined outside the stored items", () => {
+      const buffer = makeBuffer(3, 1, 2)
+      expect(buffer.get(-1)).toBeUndefined()
+      expect(buffer.get(2)).toBeUndefined()
+    })
+  })
+
   describe("getFirstLast", () => {
     it("should return [undefined, undefined] for empty buffer", () => {
       const buffer = new CircularBuffer<number>(5)
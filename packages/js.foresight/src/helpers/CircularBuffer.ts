@@ -48,6 +48,17 @@ export class CircularBuffer<T> {
     }
   }
 
+  /** Reads the item at `index`, oldest first, without copying the buffer. */
+  get(index: number): T | undefined {
+    if (index < 0 || index >= this.count) {
+      return undefined
+    }
+
+    const startIndex = this.count < this.capacity ? 0 : this.head
+
+    return this.buffer[(startIndex + index) % this.capacity]
+  }
+
   getFirstLast(): [T | undefined, T | undefined] {
     if (this.count === 0) {
       return [undefined, undefined]
@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest"
+import { SpatialGrid } from "./SpatialGrid"
+import type { Rect } from "../types/types"
+
+const rect = (left: number, top: number, size: number = 10): Rect => ({
+  left,
+  top,
+  right: left + size,
+  bottom: top + size,
+})
+
+const query = <T>(grid: SpatialGrid<T>, area: Rect) => [...grid.query(area, new Set())]
+
+describe("SpatialGrid", () => {
+  it("throws for a non-positive cell size", () => {
+    expect(() => new SpatialGrid(0)).toThrow("SpatialGrid cell size must be greater than 0")
+  })
+
+  it("returns only the items near the queried area", () => {
+    const grid = new SpatialGrid<string>(100)
+    grid.set("near", rect(10, 10))
+    grid.set("far", rect(1000, 1000))
+
+    expect(query(grid, rect(0, 0, 50))).toEqual(["near"])
+    expect(query(grid, rect(950, 950, 100))).toEqual(["far"])
+    expect(query(grid, rect(500, 500))).toEqual([])
+  })
+
+  it("returns an item spanning several cells once", () => {
+    const grid = new SpatialGrid<string>(100)
+    grid.set("wide", { left: 0, top: 0, right: 450, bottom: 20 })
+
+    expect(query(grid, { left: 0, top: 0, right: 500, bottom: 500 })).toEqual(["wide"])
+    expect(query(grid, rect(420, 0))).toEqual(["wide"])
+  })
+
+  it("handles negative coordinates", () => {
+    const grid = new SpatialGrid<string>(100)
+    grid.set("above", rect(-50, -250))
+
+    expect(query(grid, rect(-60, -260, 30))).toEqual(["above"])
+    expect(query(grid, rect(50, 50))).toEqual([])
+  })
+
+  it("moves an item to its new rect", () => {
+    const grid = new SpatialGrid<string>(100)
+    grid.set("moving", rect(10, 10))
+    grid.set("moving", rect(510, 510))
+
+    expect(query(grid, rect(0, 0))).toEqual([])
+    expect(query(grid, rect(500, 500))).toEqual(["moving"])
+    expect(grid.size).toBe(1)
+  })
+
+  it("matches items without a rect on every query", () => {
+    const grid = new SpatialGrid<string>(100)
+    grid.set("everywhere", null)
+    grid.set("near", rect(10, 10))
+
+    expect(query(grid, rect(5000, 5000))).toEqual(["everywhere"])
+    expect(query(grid, rect(0, 0))).toEqual(["everywhere", "near"])
+  })
+
+  it("deletes and clears items", () => {
+    const grid = new SpatialGrid<string>(100)
+    grid.set("a", rect(10, 10))
+    grid.set("b", null)
+
+    expect(grid.delete("a")).toBe(true)
+    expect(grid.delete("a")).toBe(false)
+    expect(grid.has("b")).toBe(true)
+
+    grid.clear()
+
+    expect(grid.size).toBe(0)
+    expect(query(grid, rect(0, 0))).toEqual([])
+  })
+})
@@ -0,0 +1,152 @@
+import type { Rect } from "../types/types"
+
+// Cell size in px, a few typical targets wide so most rects land in one to four cells
+const DEFAULT_CELL_SIZE = 128
+// Cell coordinates are packed into one number key, offset to keep them positive
+const CELL_OFFSET = 1 << 15
+const CELL_STRIDE = 1 << 16
+
+type CellRange = {
+  minX: number
+  minY: number
+  maxX: number
+  maxY: number
+}
+
+/**
+ * Uniform grid over rectangles. Every item is stored in each cell its rect
+ * overlaps, so a query only looks at the items near the queried area instead
+ * of all of them. Items set without a rect match every query.
+ */
+export class SpatialGrid<T> {
+  private cells: Map<number, Set<T>> = new Map()
+  private ranges: Map<T, CellRange> = new Map()
+  private unbounded: Set<T> = new Set()
+  private cellSize: number
+
+  constructor(cellSize: number = DEFAULT_CELL_SIZE) {
+    if (cellSize <= 0) {
+      throw new Error("SpatialGrid cell size must be greater than 0")
+    }
+
+    this.cellSize = cellSize
+  }
+
+  get size(): number {
+    return this.ranges.size + this.unbounded.size
+  }
+
+  has(item: T): boolean {
+    return this.ranges.has(item) || this.unbounded.has(item)
+  }
+
+  /**
+   * Adds an item or moves it to a new rect. Moving within the same cells is a no-op.
+   *
+   * @param rect - The item's rect, or `null` to match every query.
+   */
+  set(item: T, rect: Rect | null): void {
+    if (rect === null) {
+      this.removeFromCells(item)
+      this.unbounded.add(item)
+
+      return
+    }
+
+    this.unbounded.delete(item)
+    const range = this.getCellRange(rect)
+    const current = this.ranges.get(item)
+    if (
+      current &&
+      current.minX === range.minX &&
+      current.minY === range.minY &&
+      current.maxX === range.maxX &&
+      current.maxY === range.maxY
+    ) {
+      return
+    }
+
+    this.removeFromCells(item)
+    this.ranges.set(item, range)
+    for (let x = range.minX; x <= range.maxX; x++) {
+      for (let y = range.minY; y <= range.maxY; y++) {
+        const key = x * CELL_STRIDE + y
+        let cell = this.cells.get(key)
+        if (!cell) {
+          cell = new Set()
+          this.cells.set(key, cell)
+        }
+
+        cell.add(item)
+      }
+    }
+  }
+
+  delete(item: T): boolean {
+    return this.removeFromCells(item) || this.unbounded.delete(item)
+  }
+
+  clear(): void {
+    this.cells.clear()
+    this.ranges.clear()
+    this.unbounded.clear()
+  }
+
+  /**
+   * Collects the items whose cells overlap `rect`. Items near but outside the
+   * rect may be included, so callers still test each item exactly.
+   *
+   * @param out - Set the items are added to, without clearing it first.
+   * @returns `out`, for chaining.
+   */
+  query(rect: Rect, out: Set<T>): Set<T> {
+    for (const item of this.unbounded) {
+      out.add(item)
+    }
+
+    const range = this.getCellRange(rect)
+    for (let x = range.minX; x <= range.maxX; x++) {
+      for (let y = range.minY; y <= range.maxY; y++) {
+        const cell = this.cells.get(x * CELL_STRIDE + y)
+        if (cell) {
+          for (const item of cell) {
+            out.add(item)
+          }
+        }
+      }
+    }
+
+    return out
+  }
+
+  private getCellRange(rect: Rect): CellRange {
+    return {
+      minX: Math.floor(rect.left / this.cellSize) + CELL_OFFSET,
+      minY: Math.floor(rect.top / this.cellSize) + CELL_OFFSET,
+      maxX: Math.floor(rect.right / this.cellSize) + CELL_OFFSET,
+      maxY: Math.floor(rect.bottom / this.cellSize) + CELL_OFFSET,
+    }
+  }
+
+  private removeFromCells(item: T): boolean {
+    const range = this.ranges.get(item)
+    if (!range) {
+      return false
+    }
+
+    for (let x = range.minX; x <= range.maxX; x++) {
+      for (let y = range.minY; y <= range.maxY; y++) {
+        const key = x * CELL_STRIDE + y
+        const cell = this.cells.get(key)
+        cell?.delete(item)
+        if (cell?.size === 0) {
+          this.cells.delete(key)
+        }
+      }
+    }
+
+    this.ranges.delete(item)
+
+    return true
+  }
+}
@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest"
+import {
+  coneIntersectsRect,
+  createConeOutline,
+  getConeHalfAngle,
+  getConeRectEntry,
+  updateConeOutline,
+} from "./coneIntersectsRect"
+import type { Point, TrajectoryCone } from "../types/types"
+
+const createCone = (halfAngle: number, length = 100): [TrajectoryCone, Point[]] => {
+  const cone: TrajectoryCone = { origin: { x: 0, y: 0 }, heading: 0, halfAngle, length }
+  const outline = createConeOutline()
+  updateConeOutline(cone, outline)
+
+  return [cone, outline]
+}
+
+describe("getConeHalfAngle", () => {
+  it("is widest without a settled heading", () => {
+    expect(getConeHalfAngle(0, 1, 0)).toBeCloseTo(Math.PI / 6)
+    expect(getConeHalfAngle(1, 0, 0)).toBeCloseTo(Math.PI / 6)
+  })
+
+  it("shrinks as the heading stabilises", () => {
+    expect(getConeHalfAngle(0.8, 1, 0)).toBeLessThan(getConeHalfAngle(0.4, 1, 0))
+    expect(getConeHalfAngle(1, 1, 0)).toBeCloseTo(Math.PI / 90)
+  })
+
+  it("shrinks as speed rises", () => {
+    expect(getConeHalfAngle(0.5, 1, 2)).toBeLessThan(getConeHalfAngle(0.5, 1, 0.5))
+  })
+})
+
+describe("coneIntersectsRect", () => {
+  // 20° above the axis, 80px out
+  const offAxisRect = { top: -32, left: 72, right: 80, bottom: -24 }
+
+  it("hits a rect off the axis that a wide cone covers", () => {
+    const [cone, outline] = createCone(Math.PI / 6)
+
+    expect(coneIntersectsRect(cone, outline, offAxisRect)).toBe(true)
+  })
+
+  it("misses the same rect once the cone narrows", () => {
+    const [cone, outline] = createCone(Math.PI / 90)
+
+    expect(coneIntersectsRect(cone, outline, offAxisRect)).toBe(false)
+  })
+
+  it("hits a rect lying entirely inside the cone", () => {
+    const [cone, outline] = createCone(Math.PI / 6)
+
+    expect(coneIntersectsRect(cone, outline, { top: -2, left: 50, right: 54, bottom: 2 })).toBe(
+      true
+    )
+  })
+
+  it("misses a rect beyond the cone's length", () => {
+    const [cone, outline] = createCone(Math.PI / 6)
+
+    expect(coneIntersectsRect(cone, outline, { top: -5, left: 120, right: 130, bottom: 5 })).toBe(
+      false
+    )
+  })
+})
+
+describe("getConeRectEntry", () => {
+  it("returns the distance to the rect relative to the cone's length", () => {
+    const [cone, outline] = createCone(Math.PI / 6)
+
+    expect(getConeRectEntry(cone, outline, { top: -10, left: 40, right: 60, bottom: 10 })).toBe(0.4)
+  })
+
+  it("returns 0 when the origin is inside the rect", () => {
+    const [cone, outline] = createCone(Math.PI / 6)
+
+    expect(getConeRectEntry(cone, outline, { top: -10, left: -10, right: 10, bottom: 10 })).toBe(0)
+  })
+
+  it("falls back to the origin for a zero-length cone", () => {
+    const [cone, outline] = createCone(Math.PI / 6, 0)
+
+    expect(getConeRectEntry(cone, outline, { top: -10, left: -10, right: 10, bottom: 10 })).toBe(0)
+    expect(getConeRectEntry(cone, outline, { top: 10, left: 10, right: 20, bottom: 20 })).toBeNull()
+  })
+})
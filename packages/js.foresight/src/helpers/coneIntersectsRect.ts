@@ -0,0 +1,125 @@
+import type { Point, Rect, TrajectoryCone } from "../types/types"
+import { getSegmentRectEntry } from "./lineSegmentIntersectsRect"
+
+/** Points approximating the arc at the far end of the cone. */
+const CONE_ARC_POINTS = 5
+// Half-angle bounds in radians: 2° once the heading is settled, 30° when it is unknown
+const MIN_CONE_HALF_ANGLE = Math.PI / 90
+const MAX_CONE_HALF_ANGLE = Math.PI / 6
+// Cursor speed (px/ms) that halves the cone's width
+const CONE_REFERENCE_SPEED = 1
+
+/**
+ * Computes the cone's half-angle from how uncertain the heading is. The cone is
+ * widest right after the cursor starts moving and narrows as the heading
+ * stabilises and as the cursor speeds up.
+ *
+ * @param headingSteadiness - 0-1, see {@link MotionSteadiness}.
+ * @param historyFill - 0-1, how much of the position history is filled.
+ * @param speed - Cursor speed in px/ms.
+ * @returns The half-angle in radians.
+ */
+export const getConeHalfAngle = (
+  headingSteadiness: number,
+  historyFill: number,
+  speed: number
+): number => {
+  const uncertainty = 1 - headingSteadiness * historyFill
+  const speedFactor = CONE_REFERENCE_SPEED / (CONE_REFERENCE_SPEED + speed)
+
+  return (
+    MIN_CONE_HALF_ANGLE + (MAX_CONE_HALF_ANGLE - MIN_CONE_HALF_ANGLE) * uncertainty * speedFactor
+  )
+}
+
+/** Creates the reusable outline array for {@link updateConeOutline}. */
+export const createConeOutline = (): Point[] =>
+  Array.from({ length: CONE_ARC_POINTS + 1 }, () => ({ x: 0, y: 0 }))
+
+/**
+ * Writes the cone's outline as a convex polygon: the origin followed by points
+ * along its far arc.
+ *
+ * @param cone - The cone to outline.
+ * @param out - Points to mutate, created by {@link createConeOutline}.
+ */
+export const updateConeOutline = (cone: TrajectoryCone, out: Point[]): void => {
+  const { origin, heading, halfAngle, length } = cone
+  out[0]!.x = origin.x
+  out[0]!.y = origin.y
+
+  for (let i = 0; i < CONE_ARC_POINTS; i++) {
+    const angle = heading - halfAngle + (2 * halfAngle * i) / (CONE_ARC_POINTS - 1)
+    out[i + 1]!.x = origin.x + Math.cos(angle) * length
+    out[i + 1]!.y = origin.y + Math.sin(angle) * length
+  }
+}
+
+const isPointInConvexPolygon = (x: number, y: number, polygon: readonly Point[]): boolean => {
+  let sign = 0
+  for (let i = 0; i < polygon.length; i++) {
+    const a = polygon[i]!
+    const b = polygon[(i + 1) % polygon.length]!
+    const cross = (b.x - a.x) * (y - a.y) - (b.y - a.y) * (x - a.x)
+    if (cross === 0) {
+      continue
+    }
+
+    if (sign === 0) {
+      sign = Math.sign(cross)
+    } else if (Math.sign(cross) !== sign) {
+      return false
+    }
+  }
+
+  return sign !== 0
+}
+
+/**
+ * Finds where a cone first reaches a rectangle.
+ *
+ * @param cone - The cone to test.
+ * @param outline - The cone's outline, see {@link updateConeOutline}.
+ * @param rect - The {@link Rect} to check for intersection.
+ * @returns How far from the origin the cone reaches the rectangle, from `0`
+ *          (at the origin, also when it is inside the rectangle) to `1` (at
+ *          the cone's length), or `null` if the cone misses the rectangle.
+ */
+export const getConeRectEntry = (
+  cone: TrajectoryCone,
+  outline: readonly Point[],
+  rect: Rect
+): number | null => {
+  const { origin, length } = cone
+  if (length === 0) {
+    return getSegmentRectEntry(origin, origin, rect)
+  }
+
+  let intersects = false
+  for (let i = 0; i < outline.length && !intersects; i++) {
+    intersects = getSegmentRectEntry(outline[i]!, outline[(i + 1) % outline.length]!, rect) !== null
+  }
+
+  // Without crossing edges the rectangle can still lie entirely inside the cone
+  const centerX = (rect.left + rect.right) / 2
+  const centerY = (rect.top + rect.bottom) / 2
+  if (!intersects && !isPointInConvexPolygon(centerX, centerY, outline)) {
+    return null
+  }
+
+  const closestX = Math.max(rect.left, Math.min(origin.x, rect.right))
+  const closestY = Math.max(rect.top, Math.min(origin.y, rect.bottom))
+
+  return Math.min(1, Math.hypot(closestX - origin.x, closestY - origin.y) / length)
+}
+
+/**
+ * Determines if a cone intersects with a given rectangle.
+ *
+ * @returns `true` if the cone intersects the rectangle, `false` otherwise.
+ */
+export const coneIntersectsRect = (
+  cone: TrajectoryCone,
+  outline: readonly Point[],
+  rect: Rect
+): boolean => getConeRectEntry(cone, outline, rect) !== null
@@ -1,13 +1,27 @@
 import {
+  DEFAULT_ABORT_AFTER_INTENT_LOST,
+  DEFAULT_CALLBACK_BUDGET,
+  DEFAULT_CALLBACK_BUDGET_WINDOW,
+  DEFAULT_CALLBACK_TIMEOUT,
   DEFAULT_ENABLE_MOUSE_PREDICTION,
   DEFAULT_ENABLE_SCROLL_PREDICTION,
   DEFAULT_ENABLE_TAB_PREDICTION,
   DEFAULT_HITSLOP,
+  DEFAULT_MAX_CONCURRENT_CALLBACKS,
+  DEFAULT_MAX_TARGETS_PER_MOVE,
+  DEFAULT_MIN_CONFIDENCE,
+  DEFAULT_MIN_DWELL_MS,
   DEFAULT_POSITION_HISTORY_SIZE,
+  DEFAULT_PRIORITY,
   DEFAULT_REACTIVATE_AFTER,
+  DEFAULT_RETRY_ATTEMPTS,
   DEFAULT_SCROLL_MARGIN,
   DEFAULT_TAB_OFFSET,
   DEFAULT_TRAJECTORY_PREDICTION_TIME,
+  DEFAULT_VIEWPORT_DWELL_MS,
+  DEFAULT_VIEWPORT_ROOT_MARGIN,
+  DEFAULT_VIEWPORT_THRESHOLD,
+  DEFAULT_WEIGHT,
 } from "../constants"
 import type {
   CallbackHits,
@@ -18,7 +32,11 @@ import type {
   HitSlop,
 } from "../types/types"
 import { getExpandedRect, normalizeHitSlop } from "./rectAndHitSlop"
+import { getTopLevelRect } from "./frames"
 import { initialViewportState } from "./initialViewportState"
+import { normalizeMinConfidence } from "./predictionConfidence"
+import { normalizeRetryOptions } from "./retry"
+import { normalizeElementSettings } from "../managers/SettingsManager"
 
 export const createInitialCallbackHits = (): CallbackHits => {
   return {
@@ -29,6 +47,7 @@ export const createInitialCallbackHits = (): CallbackHits => {
     tab: {
       forwards: 0,
       reverse: 0,
+      keyboard: 0,
     },
     scroll: {
       down: 0,
@@ -49,6 +68,10 @@ export const createDefaultManagerSettings = (): ForesightManagerSettings => {
     enableScrollPrediction: DEFAULT_ENABLE_SCROLL_PREDICTION,
     positionHistorySize: DEFAULT_POSITION_HISTORY_SIZE,
     trajectoryPredictionTime: DEFAULT_TRAJECTORY_PREDICTION_TIME,
+    trajectoryModel: "linear",
+    trajectoryShape: "line",
+    minDwellMs: DEFAULT_MIN_DWELL_MS,
+    maxTargetsPerMove: DEFAULT_MAX_TARGETS_PER_MOVE,
     scrollMargin: DEFAULT_SCROLL_MARGIN,
     defaultHitSlop: {
       top: DEFAULT_HITSLOP,
@@ -59,8 +82,17 @@ export const createDefaultManagerSettings = (): ForesightManagerSettings => {
     enableTabPrediction: DEFAULT_ENABLE_TAB_PREDICTION,
     tabOffset: DEFAULT_TAB_OFFSET,
     touchDeviceStrategy: "onTouchStart",
+    viewportThreshold: DEFAULT_VIEWPORT_THRESHOLD,
+    viewportRootMargin: DEFAULT_VIEWPORT_ROOT_MARGIN,
+    viewportDwellMs: DEFAULT_VIEWPORT_DWELL_MS,
     minimumConnectionType: "3g",
     setDataAttributes: true,
+    scanDataAttributes: true,
+    maxConcurrentCallbacks: DEFAULT_MAX_CONCURRENT_CALLBACKS,
+    callbackTimeout: DEFAULT_CALLBACK_TIMEOUT,
+    callbackBudget: DEFAULT_CALLBACK_BUDGET,
+    callbackBudgetWindow: DEFAULT_CALLBACK_BUDGET_WINDOW,
+    callbackBudgetStrategy: "drop",
   }
 }
 
@@ -71,12 +103,28 @@ export const createDefaultManagerSettings = (): ForesightManagerSettings => {
 export const createElementInternal = (
   options: ForesightRegisterOptions,
   id: string,
+  registrationOrder: number,
   defaultHitSlop: Exclude<HitSlop, number>,
   isLimitedConnection: boolean
 ): ForesightElementInternal => {
-  const { element, callback, hitSlop, name, meta, reactivateAfter, enabled } = options
+  const {
+    element,
+    callback,
+    hitSlop,
+    name,
+    meta,
+    reactivateAfter,
+    enabled,
+    priority,
+    abortAfterIntentLost,
+    minConfidence,
+    settings,
+    resourceKey,
+    retry,
+    weight,
+  } = options
 
-  const initialRect = element.getBoundingClientRect()
+  const initialRect = getTopLevelRect(element)
   const normalizedHitSlop = hitSlop !== undefined ? normalizeHitSlop(hitSlop) : defaultHitSlop
   const isEnabled = enabled !== false
 
@@ -99,6 +147,18 @@ export const createElementInternal = (
     status: undefined,
     error: null,
     reactivateAfter: reactivateAfter ?? DEFAULT_REACTIVATE_AFTER,
+    abortAfterIntentLost: abortAfterIntentLost ?? DEFAULT_ABORT_AFTER_INTENT_LOST,
+    priority: priority ?? DEFAULT_PRIORITY,
+    isQueued: false,
+    confidence: undefined,
+    minConfidence:
+      minConfidence !== undefined ? normalizeMinConfidence(minConfidence) : DEFAULT_MIN_CONFIDENCE,
+    settings: settings !== undefined ? normalizeElementSettings(settings) : {},
+    resourceKey,
+    retry: normalizeRetryOptions(retry ?? DEFAULT_RETRY_ATTEMPTS),
+    attempt: 0,
+    weight: weight !== undefined ? Math.max(0, weight) : DEFAULT_WEIGHT,
+    isDwelling: false,
   }
 
   return {
@@ -110,10 +170,20 @@ export const createElementInternal = (
     invokedAt: undefined,
     completedAt: undefined,
     element,
+    registrationOrder,
     callback,
     reactivateTimeoutId: undefined,
+    reactivateAt: undefined,
+    isPredictedByResourceGroup: false,
+    queuedHitType: undefined,
+    queuedAt: undefined,
+    runningCallback: undefined,
+    intentLostTimeoutId: undefined,
+    dwellTimeoutId: undefined,
     subscribers: new Set(),
     boundsSubscribers: new Set(),
+    observedRoots: [],
+    isDeclarative: false,
   }
 }
 
@@ -151,5 +221,16 @@ export const createUnregisteredSnapshot = (isLimitedConnection: boolean): Foresi
     status: undefined,
     error: null,
     reactivateAfter: DEFAULT_REACTIVATE_AFTER,
+    abortAfterIntentLost: DEFAULT_ABORT_AFTER_INTENT_LOST,
+    priority: DEFAULT_PRIORITY,
+    isQueued: false,
+    confidence: undefined,
+    minConfidence: DEFAULT_MIN_CONFIDENCE,
+    settings: {},
+    resourceKey: undefined,
+    retry: normalizeRetryOptions(DEFAULT_RETRY_ATTEMPTS),
+    attempt: 0,
+    weight: DEFAULT_WEIGHT,
+    isDwelling: false,
   }
 }
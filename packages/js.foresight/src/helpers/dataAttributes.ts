@@ -9,6 +9,7 @@ const DATA_ATTRIBUTES: Record<
   "data-predicted": state => state.isPredicted,
   "data-active": state => state.isActive,
   "data-callback-running": state => state.isCallbackRunning,
+  "data-queued": state => state.isQueued,
   "data-status": state => state.status,
 }
 
@@ -0,0 +1,118 @@
+import { describe, it, expect, afterEach } from "vitest"
+import { findDeclarativeElements, readDeclarativeOptions } from "./declarativeRegistration"
+
+const createElement = (attributes: Record<string, string>) => {
+  const element = document.createElement("a")
+  for (const [name, value] of Object.entries(attributes)) {
+    element.setAttribute(name, value)
+  }
+
+  return element
+}
+
+afterEach(() => {
+  document.body.innerHTML = ""
+})
+
+describe("readDeclarativeOptions", () => {
+  it("reads every supported attribute", () => {
+    const element = createElement({
+      href: "/pricing",
+      "data-foresight": "",
+      "data-foresight-name": "pricing",
+      "data-foresight-action": "prefetchHref",
+      "data-foresight-hitslop": "20",
+      "data-foresight-reactivate-after": "5000",
+      "data-foresight-priority": "2",
+      "data-foresight-min-confidence": "0.5",
+      "data-foresight-enabled": "false",
+      "data-foresight-resource-key": "/pricing",
+      "data-foresight-retry": "3",
+      "data-foresight-weight": "250",
+    })
+
+    expect(readDeclarativeOptions(element)).toEqual({
+      name: "pricing",
+      meta: { href: "/pricing" },
+      action: "prefetchHref",
+      hitSlop: 20,
+      reactivateAfter: 5000,
+      priority: 2,
+      minConfidence: 0.5,
+      enabled: false,
+      resourceKey: "/pricing",
+      retry: 3,
+      weight: 250,
+    })
+  })
+
+  it("leaves missing attributes undefined", () => {
+    expect(readDeclarativeOptions(createElement({ "data-foresight": "" }))).toEqual({
+      name: undefined,
+      meta: undefined,
+      action: undefined,
+      hitSlop: undefined,
+      reactivateAfter: undefined,
+      priority: undefined,
+      minConfidence: undefined,
+      enabled: undefined,
+      resourceKey: undefined,
+      retry: undefined,
+      weight: undefined,
+    })
+  })
+
+  it("parses a four-sided hit slop in CSS order", () => {
+    const element = createElement({ "data-foresight-hitslop": "10 20, 30 40" })
+
+    expect(readDeclarativeOptions(element).hitSlop).toEqual({
+      top: 10,
+      right: 20,
+      bottom: 30,
+      left: 40,
+    })
+  })
+
+  it("ignores malformed numbers", () => {
+    const element = createElement({
+      "data-foresight-hitslop": "10 20",
+      "data-foresight-priority": "high",
+      "data-foresight-reactivate-after": "",
+    })
+    const options = readDeclarativeOptions(element)
+
+    expect(options.hitSlop).toBeUndefined()
+    expect(options.priority).toBeUndefined()
+    expect(options.reactivateAfter).toBeUndefined()
+  })
+
+  it("accepts Infinity for reactivate-after", () => {
+    const element = createElement({ "data-foresight-reactivate-after": "Infinity" })
+
+    expect(readDeclarativeOptions(element).reactivateAfter).toBe(Infinity)
+  })
+
+  it("treats any enabled value other than false as enabled", () => {
+    expect(readDeclarativeOptions(createElement({ "data-foresight-enabled": "" })).enabled).toBe(
+      true
+    )
+  })
+})
+
+describe("findDeclarativeElements", () => {
+  it("finds marked descendants and the root itself", () => {
+    const root = createElement({ "data-foresight": "" })
+    const child = createElement({ "data-foresight": "" })
+    root.append(child, createElement({}))
+
+    expect(findDeclarativeElements(root)).toEqual([root, child])
+  })
+
+  it("skips an unmarked root", () => {
+    const root = document.createElement("div")
+    const child = createElement({ "data-foresight": "" })
+    root.append(child)
+
+    expect(findDeclarativeElements(root)).toEqual([child])
+  })
+})
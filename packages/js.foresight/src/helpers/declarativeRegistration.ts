@@ -0,0 +1,87 @@
+import type { ForesightRegisterOptionsWithoutElement, HitSlop } from "../types/types"
+
+const DECLARATIVE_SELECTOR = "[data-foresight]"
+
+export type DeclarativeOptions = Omit<ForesightRegisterOptionsWithoutElement, "callback"> & {
+  /** Name of the action (see `ForesightManager.defineAction`) to run as callback. */
+  action: string | undefined
+}
+
+const parseNumber = (value: string | null): number | undefined => {
+  if (value === null || value.trim() === "") {
+    return undefined
+  }
+
+  const parsed = Number(value)
+
+  return Number.isNaN(parsed) ? undefined : parsed
+}
+
+// "20" for every side, or "top right bottom left" like CSS (spaces or commas)
+const parseHitSlop = (value: string | null): HitSlop | undefined => {
+  if (value === null) {
+    return undefined
+  }
+
+  const sides = value
+    .trim()
+    .split(/[\s,]+/)
+    .map(Number)
+  if (sides.some(Number.isNaN)) {
+    return undefined
+  }
+
+  if (sides.length === 1) {
+    return sides[0]
+  }
+
+  if (sides.length === 4) {
+    const [top, right, bottom, left] = sides as [number, number, number, number]
+
+    return { top, right, bottom, left }
+  }
+
+  return undefined
+}
+
+/**
+ * Reads the registration options of a declaratively registered element from its
+ * `data-foresight-*` attributes. Missing or malformed attributes are left
+ * undefined so the regular defaults apply. Actions receive the element like any
+ * callback; its `href` (if any) is also copied to `meta.href` for actions that
+ * only read `meta`.
+ *
+ * @example
+ * ```html
+ * <a href="/pricing" data-foresight data-foresight-name="pricing"
+ *    data-foresight-hitslop="20" data-foresight-action="prefetchHref">Pricing</a>
+ * ```
+ */
+export const readDeclarativeOptions = (element: Element): DeclarativeOptions => {
+  const enabled = element.getAttribute("data-foresight-enabled")
+  const href = element.getAttribute("href")
+
+  return {
+    action: element.getAttribute("data-foresight-action") ?? undefined,
+    name: element.getAttribute("data-foresight-name") ?? undefined,
+    meta: href !== null ? { href } : undefined,
+    hitSlop: parseHitSlop(element.getAttribute("data-foresight-hitslop")),
+    reactivateAfter: parseNumber(element.getAttribute("data-foresight-reactivate-after")),
+    priority: parseNumber(element.getAttribute("data-foresight-priority")),
+    minConfidence: parseNumber(element.getAttribute("data-foresight-min-confidence")),
+    enabled: enabled === null ? undefined : enabled !== "false",
+    resourceKey: element.getAttribute("data-foresight-resource-key") ?? undefined,
+    retry: parseNumber(element.getAttribute("data-foresight-retry")),
+    weight: parseNumber(element.getAttribute("data-foresight-weight")),
+  }
+}
+
+/**
+ * The `[data-foresight]` elements in a subtree, including `root` itself when it
+ * matches.
+ */
+export const findDeclarativeElements = (root: Element): Element[] => {
+  const elements = Array.from(root.querySelectorAll(DECLARATIVE_SELECTOR))
+
+  return root.matches(DECLARATIVE_SELECTOR) ? [root, ...elements] : elements
+}
@@ -0,0 +1,94 @@
+import { describe, it, expect, afterEach } from "vitest"
+import {
+  getFrameElement,
+  getFrameOffset,
+  getTopLevelRect,
+  isConnectedToTopDocument,
+  toTopLevelRect,
+} from "./frames"
+
+const createFrame = (parent: Document, left: number, top: number) => {
+  const frame = parent.createElement("iframe")
+  parent.body.appendChild(frame)
+  frame.getBoundingClientRect = () => new DOMRectReadOnly(left, top, 300, 200)
+
+  return { frame, frameDocument: frame.contentDocument! }
+}
+
+afterEach(() => {
+  document.body.innerHTML = ""
+})
+
+describe("getFrameElement", () => {
+  it("returns null for the top-level document", () => {
+    expect(getFrameElement(document)).toBeNull()
+  })
+
+  it("returns the iframe hosting a same-origin document", () => {
+    const { frame, frameDocument } = createFrame(document, 0, 0)
+
+    expect(getFrameElement(frameDocument)).toBe(frame)
+  })
+})
+
+describe("getFrameOffset", () => {
+  it("is zero for the top-level document", () => {
+    expect(getFrameOffset(document)).toEqual({ x: 0, y: 0 })
+  })
+
+  it("includes the frame's position and padding", () => {
+    const { frame, frameDocument } = createFrame(document, 50, 100)
+    frame.style.padding = "5px 10px"
+
+    expect(getFrameOffset(frameDocument)).toEqual({ x: 60, y: 105 })
+  })
+
+  it("accumulates offsets through nested frames", () => {
+    const outer = createFrame(document, 50, 100)
+    const inner = createFrame(outer.frameDocument, 20, 30)
+
+    expect(getFrameOffset(inner.frameDocument)).toEqual({ x: 70, y: 130 })
+  })
+})
+
+describe("toTopLevelRect / getTopLevelRect", () => {
+  it("returns the rect as is for top-level elements", () => {
+    const element = document.createElement("a")
+    document.body.appendChild(element)
+    const rect = new DOMRectReadOnly(1, 2, 3, 4)
+
+    expect(toTopLevelRect(rect, element)).toBe(rect)
+  })
+
+  it("maps rects of elements inside a frame into top-level coordinates", () => {
+    const { frameDocument } = createFrame(document, 50, 100)
+    const element = frameDocument.createElement("a")
+    frameDocument.body.appendChild(element)
+    element.getBoundingClientRect = () => new DOMRectReadOnly(10, 20, 30, 40)
+
+    const rect = getTopLevelRect(element)
+
+    expect([rect.left, rect.top, rect.right, rect.bottom]).toEqual([60, 120, 90, 160])
+  })
+})
+
+describe("isConnectedToTopDocument", () => {
+  it("follows the element through its hosting frames", () => {
+    const { frame, frameDocument } = createFrame(document, 0, 0)
+    const element = frameDocument.createElement("a")
+    frameDocument.body.appendChild(element)
+
+    expect(isConnectedToTopDocument(element)).toBe(true)
+
+    frame.remove()
+
+    expect(isConnectedToTopDocument(element)).toBe(false)
+  })
+
+  it("is false for an element detached inside its frame", () => {
+    const { frameDocument } = createFrame(document, 0, 0)
+    const element = frameDocument.createElement("a")
+
+    expect(isConnectedToTopDocument(element)).toBe(false)
+  })
+})
@@ -0,0 +1,78 @@
+import type { Point } from "../types/types"
+
+/**
+ * The frame (`<iframe>`) that hosts a document, or null for the top-level
+ * document and for frames we can't access (cross-origin).
+ */
+export const getFrameElement = (doc: Document): Element | null => {
+  if (doc === document) {
+    return null
+  }
+
+  try {
+    return doc.defaultView?.frameElement ?? null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Offset of a same-origin frame document's viewport relative to the top-level
+ * viewport, accumulated through nested frames. Zero for the top-level document.
+ */
+export const getFrameOffset = (doc: Document): Point => {
+  const offset = { x: 0, y: 0 }
+  let frame = getFrameElement(doc)
+
+  while (frame) {
+    const rect = frame.getBoundingClientRect()
+    const style = frame.ownerDocument.defaultView?.getComputedStyle(frame)
+    // The frame's viewport starts inside its border and padding
+    offset.x += rect.left + frame.clientLeft + (parseFloat(style?.paddingLeft ?? "") || 0)
+    offset.y += rect.top + frame.clientTop + (parseFloat(style?.paddingTop ?? "") || 0)
+
+    frame = getFrameElement(frame.ownerDocument)
+  }
+
+  return offset
+}
+
+/**
+ * Maps a rect measured in an element's own document into top-level viewport
+ * coordinates. Returns the rect as is for elements in the top-level document.
+ */
+export const toTopLevelRect = (rect: DOMRectReadOnly, element: Element): DOMRectReadOnly => {
+  if (element.ownerDocument === document) {
+    return rect
+  }
+
+  const { x, y } = getFrameOffset(element.ownerDocument)
+
+  return new DOMRectReadOnly(rect.x + x, rect.y + y, rect.width, rect.height)
+}
+
+/** `getBoundingClientRect()` in top-level viewport coordinates. */
+export const getTopLevelRect = (element: Element): DOMRectReadOnly =>
+  toTopLevelRect(element.getBoundingClientRect(), element)
+
+/**
+ * `isConnected` for elements inside frames only says the element is attached to
+ * its own document. This also requires every hosting frame to still be attached.
+ */
+export const isConnectedToTopDocument = (element: Element): boolean => {
+  let node: Element | null = element
+
+  while (node) {
+    if (!node.isConnected) {
+      return false
+    }
+
+    if (node.ownerDocument === document) {
+      return true
+    }
+
+    node = getFrameElement(node.ownerDocument)
+  }
+
+  return false
+}
@@ -0,0 +1,99 @@
+import { beforeEach, describe, expect, it } from "vitest"
+import { getArrowKeyTargets } from "./getArrowKeyTargets"
+
+const ids = (elements: Element[]) => elements.map(element => element.id)
+
+describe("getArrowKeyTargets", () => {
+  beforeEach(() => {
+    document.body.innerHTML = ""
+  })
+
+  const byId = (id: string) => document.getElementById(id)!
+
+  describe("one-dimensional widgets", () => {
+    beforeEach(() => {
+      document.body.innerHTML = `
+        <ul role="menu">
+          <li role="menuitem" id="m1" tabindex="0">One</li>
+          <li role="menuitemcheckbox" id="m2" tabindex="-1">Two</li>
+          <li role="menuitem" id="m3" tabindex="-1">
+            Three
+            <ul role="menu"><li role="menuitem" id="sub1">Nested</li></ul>
+          </li>
+          <li role="menuitemradio" id="m4" tabindex="-1">Four</li>
+        </ul>
+        <div role="tablist">
+          <button role="tab" id="t1">A</button>
+          <button role="tab" id="t2">B</button>
+          <button role="tab" id="t3">C</button>
+        </div>
+      `
+    })
+
+    it("follows the default vertical orientation of a menu", () => {
+      expect(ids(getArrowKeyTargets(byId("m2"), "ArrowDown"))).toEqual(["m3", "m4"])
+      expect(ids(getArrowKeyTargets(byId("m3"), "ArrowUp"))).toEqual(["m2", "m1"])
+      expect(getArrowKeyTargets(byId("m2"), "ArrowRight")).toEqual([])
+    })
+
+    it("follows the default horizontal orientation of a tablist", () => {
+      expect(ids(getArrowKeyTargets(byId("t1"), "ArrowRight"))).toEqual(["t2", "t3"])
+      expect(ids(getArrowKeyTargets(byId("t3"), "ArrowLeft"))).toEqual(["t2", "t1"])
+      expect(getArrowKeyTargets(byId("t1"), "ArrowDown")).toEqual([])
+    })
+
+    it("respects aria-orientation", () => {
+      byId("t1").parentElement!.setAttribute("aria-orientation", "vertical")
+
+      expect(ids(getArrowKeyTargets(byId("t1"), "ArrowDown"))).toEqual(["t2", "t3"])
+      expect(getArrowKeyTargets(byId("t1"), "ArrowRight")).toEqual([])
+    })
+
+    it("leaves out the items of nested widgets", () => {
+      expect(ids(getArrowKeyTargets(byId("m1"), "ArrowDown"))).not.toContain("sub1")
+    })
+
+    it("returns nothing outside a composite widget", () => {
+      const button = document.createElement("button")
+      document.body.appendChild(button)
+
+      expect(getArrowKeyTargets(button, "ArrowDown")).toEqual([])
+    })
+  })
+
+  it("resolves the current option from aria-activedescendant", () => {
+    document.body.innerHTML = `
+      <input role="combobox" id="combo" aria-activedescendant="o2" />
+      <ul role="listbox">
+        <li role="option" id="o1">One</li>
+        <li role="option" id="o2">Two</li>
+        <li role="option" id="o3">Three</li>
+      </ul>
+    `
+
+    expect(ids(getArrowKeyTargets(byId("combo"), "ArrowDown"))).toEqual(["o3"])
+    expect(ids(getArrowKeyTargets(byId("combo"), "ArrowUp"))).toEqual(["o1"])
+  })
+
+  it("moves along rows and columns of a grid", () => {
+    document.body.innerHTML = `
+      <div role="grid">
+        <div role="row">
+          <span role="gridcell" id="a1">A1</span><span role="gridcell" id="a2">A2</span>
+        </div>
+        <div role="row">
+          <span role="gridcell" id="b1"><button id="b1-button">B1</button></span>
+          <span role="gridcell" id="b2">B2</span>
+        </div>
+        <div role="row">
+          <span role="gridcell" id="c1">C1</span><span role="gridcell" id="c2">C2</span>
+        </div>
+      </div>
+    `
+
+    expect(ids(getArrowKeyTargets(byId("b1-button"), "ArrowRight"))).toEqual(["b2"])
+    expect(ids(getArrowKeyTargets(byId("b2"), "ArrowLeft"))).toEqual(["b1"])
+    expect(ids(getArrowKeyTargets(byId("a2"), "ArrowDown"))).toEqual(["b2", "c2"])
+    expect(ids(getArrowKeyTargets(byId("c1"), "ArrowUp"))).toEqual(["b1", "a1"])
+  })
+})
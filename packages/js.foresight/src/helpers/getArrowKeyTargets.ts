@@ -0,0 +1,122 @@
+export type ArrowKey = "ArrowUp" | "ArrowDown" | "ArrowLeft" | "ArrowRight"
+
+type CompositeRole = "menu" | "menubar" | "grid" | "tablist" | "listbox" | "toolbar"
+
+const MENU_ITEM_SELECTOR = '[role="menuitem"], [role="menuitemcheckbox"], [role="menuitemradio"]'
+
+/** Selects the items arrow keys move focus between in each ARIA composite widget. */
+const ITEM_SELECTORS: Record<CompositeRole, string> = {
+  menu: MENU_ITEM_SELECTOR,
+  menubar: MENU_ITEM_SELECTOR,
+  grid: '[role="gridcell"], [role="rowheader"], [role="columnheader"]',
+  tablist: '[role="tab"]',
+  listbox: '[role="option"]',
+  // Toolbar items have no role of their own, a roving tabindex marks them
+  toolbar: "[tabindex]",
+}
+
+// Used when the widget has no aria-orientation, see https://www.w3.org/TR/wai-aria-1.2/#aria-orientation
+const DEFAULT_ORIENTATIONS: Record<Exclude<CompositeRole, "grid">, "horizontal" | "vertical"> = {
+  menu: "vertical",
+  menubar: "horizontal",
+  tablist: "horizontal",
+  listbox: "vertical",
+  toolbar: "horizontal",
+}
+
+const COMPOSITE_SELECTOR = Object.keys(ITEM_SELECTORS)
+  .map(role => `[role="${role}"]`)
+  .join(", ")
+
+export const isArrowKey = (key: string): key is ArrowKey =>
+  key === "ArrowUp" || key === "ArrowDown" || key === "ArrowLeft" || key === "ArrowRight"
+
+/** The items of a widget, leaving out those of widgets nested inside it (e.g. submenus). */
+const getOwnItems = (widget: Element, selector: string): Element[] =>
+  Array.from(widget.querySelectorAll(selector)).filter(
+    item => item.closest(COMPOSITE_SELECTOR) === widget
+  )
+
+const getGridTargets = (
+  grid: Element,
+  items: Element[],
+  current: Element,
+  key: ArrowKey
+): Element[] => {
+  const rows = Array.from(grid.querySelectorAll('[role="row"]'))
+    .filter(row => row.closest(COMPOSITE_SELECTOR) === grid)
+    .map(row => items.filter(item => item.closest('[role="row"]') === row))
+  const rowIndex = rows.findIndex(cells => cells.includes(current))
+  if (rowIndex === -1) {
+    return []
+  }
+
+  const row = rows[rowIndex]!
+  const columnIndex = row.indexOf(current)
+
+  switch (key) {
+    case "ArrowRight":
+      return row.slice(columnIndex + 1)
+    case "ArrowLeft":
+      return row.slice(0, columnIndex).reverse()
+    case "ArrowDown":
+      return rows
+        .slice(rowIndex + 1)
+        .flatMap(cells => (cells[columnIndex] ? [cells[columnIndex]] : []))
+    case "ArrowUp":
+      return rows
+        .slice(0, rowIndex)
+        .reverse()
+        .flatMap(cells => (cells[columnIndex] ? [cells[columnIndex]] : []))
+  }
+}
+
+/**
+ * Finds the items focus moves through when `key` keeps being pressed inside an
+ * ARIA composite widget (menu, menubar, grid, tablist, listbox or toolbar).
+ * Works with roving tabindex, where `focused` is the current item, and with
+ * `aria-activedescendant`, where `focused` only points at it (e.g. a combobox
+ * input controlling a listbox).
+ *
+ * @param focused - The element that has focus when the key is pressed.
+ * @param key - The arrow key that was pressed.
+ * @returns The items in the arrow direction, nearest first. Empty when `focused`
+ *          is not inside a composite widget or the key doesn't move along its orientation.
+ */
+export const getArrowKeyTargets = (focused: Element, key: ArrowKey): Element[] => {
+  const activeDescendantId = focused.getAttribute("aria-activedescendant")
+  const current = activeDescendantId
+    ? (focused.getRootNode() as Document | DocumentFragment).getElementById(activeDescendantId)
+    : focused
+  const widget = current?.closest(COMPOSITE_SELECTOR)
+  if (!current || !widget) {
+    return []
+  }
+
+  const role = widget.getAttribute("role") as CompositeRole
+  const items = getOwnItems(widget, ITEM_SELECTORS[role])
+  // Focus may sit on a control inside the item, e.g. a button in a grid cell
+  const currentItem = items.find(item => item.contains(current))
+  if (!currentItem) {
+    return []
+  }
+
+  if (role === "grid") {
+    return getGridTargets(widget, items, currentItem, key)
+  }
+
+  const orientation = widget.getAttribute("aria-orientation") ?? DEFAULT_ORIENTATIONS[role]
+  const nextKey = orientation === "vertical" ? "ArrowDown" : "ArrowRight"
+  const previousKey = orientation === "vertical" ? "ArrowUp" : "ArrowLeft"
+  const index = items.indexOf(currentItem)
+
+  if (key === nextKey) {
+    return items.slice(index + 1)
+  }
+
+  if (key === previousKey) {
+    return items.slice(0, index).reverse()
+  }
+
+  return []
+}
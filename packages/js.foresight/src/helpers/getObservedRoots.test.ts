@@ -0,0 +1,71 @@
+import { describe, it, expect } from "vitest"
+import { getComposedTarget, getObservedRoots } from "./getObservedRoots"
+
+const attachShadowHost = (parent: Node): { host: HTMLElement; shadowRoot: ShadowRoot } => {
+  const host = document.createElement("div")
+  parent.appendChild(host)
+
+  return { host, shadowRoot: host.attachShadow({ mode: "open" }) }
+}
+
+describe("getObservedRoots", () => {
+  it("returns an empty array for light DOM elements", () => {
+    const element = document.createElement("button")
+    document.body.appendChild(element)
+
+    expect(getObservedRoots(element)).toEqual([])
+  })
+
+  it("returns nested shadow roots innermost first", () => {
+    const outer = attachShadowHost(document.body)
+    const inner = attachShadowHost(outer.shadowRoot)
+    const element = document.createElement("button")
+    inner.shadowRoot.appendChild(element)
+
+    expect(getObservedRoots(element)).toEqual([inner.shadowRoot, outer.shadowRoot])
+  })
+
+  it("includes closed shadow roots", () => {
+    const host = document.createElement("div")
+    document.body.appendChild(host)
+    const shadowRoot = host.attachShadow({ mode: "closed" })
+    const element = document.createElement("button")
+    shadowRoot.appendChild(element)
+
+    expect(getObservedRoots(element)).toEqual([shadowRoot])
+  })
+
+  it("includes the documents of same-origin frames", () => {
+    const frame = document.createElement("iframe")
+    document.body.appendChild(frame)
+    const frameDocument = frame.contentDocument!
+    const { shadowRoot } = attachShadowHost(frameDocument.body)
+    const element = frameDocument.createElement("button")
+    shadowRoot.appendChild(element)
+
+    expect(getObservedRoots(element)).toEqual([shadowRoot, frameDocument])
+  })
+})
+
+describe("getComposedTarget", () => {
+  it("returns the element inside the shadow tree instead of the host", () => {
+    const { host, shadowRoot } = attachShadowHost(document.body)
+    const element = document.createElement("button")
+    shadowRoot.appendChild(element)
+    let target: EventTarget | null = null
+    let retargeted: EventTarget | null = null
+
+    document.addEventListener(
+      "focusin",
+      e => {
+        target = getComposedTarget(e)
+        retargeted = e.target
+      },
+      { once: true }
+    )
+    element.dispatchEvent(new FocusEvent("focusin", { bubbles: true, composed: true }))
+
+    expect(retargeted).toBe(host)
+    expect(target).toBe(element)
+  })
+})
@@ -0,0 +1,50 @@
+import { getFrameElement } from "./frames"
+
+export type ObservedRoot = ShadowRoot | Document
+
+const isShadowRoot = (node: Node): node is ShadowRoot =>
+  node.nodeType === Node.DOCUMENT_FRAGMENT_NODE && "host" in node
+
+export const isDocument = (node: Node): node is Document => node.nodeType === Node.DOCUMENT_NODE
+
+/**
+ * Collects the roots an element is nested in besides the top-level document,
+ * innermost first: shadow roots (open or closed) and the documents of the
+ * same-origin frames hosting it. Returns an empty array for elements in the
+ * light DOM of the top-level document.
+ *
+ * The document-level MutationObserver doesn't see mutations inside shadow trees
+ * or frames, so each of these roots has to be observed separately to notice the
+ * element being detached from (or re-attached to) them. Node type checks are
+ * used instead of `instanceof` since frames have their own globals.
+ */
+export const getObservedRoots = (element: Element): ObservedRoot[] => {
+  const roots: ObservedRoot[] = []
+  let root = element.getRootNode()
+
+  while (root !== document) {
+    if (isShadowRoot(root)) {
+      roots.push(root)
+      root = root.host.getRootNode()
+    } else if (isDocument(root)) {
+      const frame = getFrameElement(root)
+      if (!frame) {
+        break
+      }
+
+      roots.push(root)
+      root = frame.getRootNode()
+    } else {
+      break
+    }
+  }
+
+  return roots
+}
+
+/**
+ * The deepest target of an event, looking through open shadow roots. Events are
+ * retargeted to the shadow host once they leave a shadow tree, so `e.target` on
+ * a document listener is the host rather than the element inside it.
+ */
+export const getComposedTarget = (e: Event): EventTarget | null => e.composedPath()[0] ?? e.target
@@ -0,0 +1,60 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { getTabScope } from "./getTabScope"
+
+describe("getTabScope", () => {
+  beforeEach(() => {
+    document.body.innerHTML = ""
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  const append = <K extends keyof HTMLElementTagNameMap>(tagName: K) =>
+    document.body.appendChild(document.createElement(tagName))
+
+  // jsdom has no showModal, so fake the :modal match for an open dialog
+  const openModal = () => {
+    const dialog = append("dialog")
+    dialog.setAttribute("open", "")
+    const matches = dialog.matches.bind(dialog)
+    vi.spyOn(dialog, "matches").mockImplementation(selector =>
+      selector === ":modal" ? true : matches(selector)
+    )
+
+    return dialog
+  }
+
+  it("falls back to the document element", () => {
+    expect(getTabScope([])).toBe(document.documentElement)
+  })
+
+  it("uses the most recently registered scope that is still connected", () => {
+    const outer = append("div")
+    const inner = append("div")
+    const removed = document.createElement("div")
+
+    expect(getTabScope([outer, inner, removed])).toBe(inner)
+    expect(getTabScope([outer])).toBe(outer)
+  })
+
+  it("uses the last open modal dialog", () => {
+    openModal()
+    const top = openModal()
+
+    expect(getTabScope([])).toBe(top)
+  })
+
+  it("ignores dialogs opened without showModal", () => {
+    append("dialog").setAttribute("open", "")
+
+    expect(getTabScope([])).toBe(document.documentElement)
+  })
+
+  it("prefers a registered scope over a modal dialog", () => {
+    openModal()
+    const scope = append("div")
+
+    expect(getTabScope([scope])).toBe(scope)
+  })
+})
@@ -0,0 +1,36 @@
+const isModalDialog = (dialog: Element): boolean => {
+  try {
+    return dialog.matches(":modal")
+  } catch {
+    // Browsers without :modal support throw on the selector
+    return false
+  }
+}
+
+/**
+ * Finds the subtree Tab navigation is confined to. Elements marked `inert` are
+ * left out by `tabbable` itself, so only traps that hide the rest of the page
+ * by other means need a scope.
+ *
+ * @param focusScopes - Scopes registered with `ForesightManager.registerFocusScope`, oldest first.
+ * @returns The most recently registered focus scope that is still in the document,
+ *          otherwise the last open modal `<dialog>`, otherwise the document element.
+ */
+export const getTabScope = (focusScopes: readonly Element[]): Element => {
+  for (let i = focusScopes.length - 1; i >= 0; i--) {
+    const scope = focusScopes[i]!
+    if (scope.isConnected) {
+      return scope
+    }
+  }
+
+  const dialogs = document.querySelectorAll("dialog[open]")
+  for (let i = dialogs.length - 1; i >= 0; i--) {
+    const dialog = dialogs[i]!
+    if (isModalDialog(dialog)) {
+      return dialog
+    }
+  }
+
+  return document.documentElement
+}
@@ -1,5 +1,5 @@
 import { describe, it, expect } from "vitest"
-import { lineSegmentIntersectsRect } from "./lineSegmentIntersectsRect"
+import { getSegmentRectEntry, lineSegmentIntersectsRect } from "./lineSegmentIntersectsRect"
 import type { Point, Rect } from "../types/types"
 
 describe("lineSegmentIntersectsRect", () => {
@@ -176,3 +176,25 @@ describe("lineSegmentIntersectsRect", () => {
     expect(lineSegmentIntersectsRect(start, end, testRect)).toBe(true)
   })
 })
+
+describe("getSegmentRectEntry", () => {
+  const testRect: Rect = {
+    top: 100,
+    left: 100,
+    right: 200,
+    bottom: 200,
+  }
+
+  it("should return where the segment enters the rectangle", () => {
+    expect(getSegmentRectEntry({ x: 0, y: 150 }, { x: 200, y: 150 }, testRect)).toBe(0.5)
+    expect(getSegmentRectEntry({ x: 50, y: 150 }, { x: 250, y: 150 }, testRect)).toBe(0.25)
+  })
+
+  it("should return 0 when the segment starts inside the rectangle", () => {
+    expect(getSegmentRectEntry({ x: 150, y: 150 }, { x: 300, y: 300 }, testRect)).toBe(0)
+  })
+
+  it("should return null when the segment misses the rectangle", () => {
+    expect(getSegmentRectEntry({ x: 50, y: 50 }, { x: 80, y: 80 }, testRect)).toBeNull()
+  })
+})
@@ -1,15 +1,17 @@
 import type { Point, Rect } from "../types/types"
 
 /**
- * Determines if a line segment intersects with a given rectangle.
+ * Finds where a line segment enters a given rectangle.
  * This function implements the Liang-Barsky line clipping algorithm.
  *
  * @param p1 - The starting {@link Point} of the line segment.
  * @param p2 - The ending {@link Point} of the line segment.
  * @param rect - The {@link Rect} to check for intersection.
- * @returns `true` if the line segment intersects the rectangle, `false` otherwise.
+ * @returns The entry position along the segment, from `0` (at `p1`, also when
+ *          `p1` is inside the rectangle) to `1` (at `p2`), or `null` if the
+ *          segment misses the rectangle.
  */
-export const lineSegmentIntersectsRect = (p1: Point, p2: Point, rect: Rect): boolean => {
+export const getSegmentRectEntry = (p1: Point, p2: Point, rect: Rect): number | null => {
   let t0 = 0.0
   let t1 = 1.0
   const dx = p2.x - p1.x
@@ -51,21 +53,32 @@ export const lineSegmentIntersectsRect = (p1: Point, p2: Point, rect: Rect): boo
 
   // Clip against all four edges of the rectangle
   if (!clipTest(-dx, p1.x - rect.left)) {
-    return false
+    return null
   } // Left edge
 
   if (!clipTest(dx, rect.right - p1.x)) {
-    return false
+    return null
   } // Right edge
 
   if (!clipTest(-dy, p1.y - rect.top)) {
-    return false
+    return null
   } // Top edge
 
   if (!clipTest(dy, rect.bottom - p1.y)) {
-    return false
+    return null
   } // Bottom edge
 
   // If t0 <= t1, the line segment intersects the rectangle (or lies within it)
-  return t0 <= t1
+  return t0 <= t1 ? t0 : null
 }
+
+/**
+ * Determines if a line segment intersects with a given rectangle.
+ *
+ * @param p1 - The starting {@link Point} of the line segment.
+ * @param p2 - The ending {@link Point} of the line segment.
+ * @param rect - The {@link Rect} to check for intersection.
+ * @returns `true` if the line segment intersects the rectangle, `false` otherwise.
+ */
+export const lineSegmentIntersectsRect = (p1: Point, p2: Point, rect: Rect): boolean =>
+  getSegmentRectEntry(p1, p2, rect) !== null
@@ -0,0 +1,124 @@
+import { describe, expect, it } from "vitest"
+import { CircularBuffer } from "./CircularBuffer"
+import {
+  CURVED_PATH_SEGMENTS,
+  getPathRectEntry,
+  measureTurnRate,
+  predictCurvedPath,
+} from "./predictCurvedPath"
+import type { MousePosition, Point } from "../types/types"
+
+const createBuffer = (points: [number, number][]) => {
+  const buffer = new CircularBuffer<MousePosition>(points.length)
+  points.forEach(([x, y], i) => buffer.add({ point: { x, y }, time: i * 10 }))
+
+  return buffer
+}
+
+const createPath = (): Point[] =>
+  Array.from({ length: CURVED_PATH_SEGMENTS + 1 }, () => ({ x: 0, y: 0 }))
+
+describe("measureTurnRate", () => {
+  it("is 0 for a straight path", () => {
+    expect(
+      measureTurnRate(
+        createBuffer([
+          [0, 0],
+          [10, 10],
+          [20, 20],
+          [30, 30],
+          [40, 40],
+        ])
+      )
+    ).toBe(0)
+  })
+
+  it("is positive when turning clockwise on screen", () => {
+    // Heading right, then down (y grows downwards)
+    const turnRate = measureTurnRate(
+      createBuffer([
+        [0, 0],
+        [10, 0],
+        [20, 0],
+        [20, 10],
+        [20, 20],
+      ])
+    )
+
+    expect(turnRate).toBeCloseTo(Math.PI / 2 / 20)
+  })
+
+  it("is 0 without enough movement", () => {
+    expect(
+      measureTurnRate(
+        createBuffer([
+          [0, 0],
+          [10, 0],
+        ])
+      )
+    ).toBe(0)
+    expect(
+      measureTurnRate(
+        createBuffer([
+          [5, 5],
+          [5, 5],
+          [5, 5],
+        ])
+      )
+    ).toBe(0)
+  })
+})
+
+describe("predictCurvedPath", () => {
+  it("follows the straight prediction without turning", () => {
+    const path = createPath()
+
+    predictCurvedPath({ x: 0, y: 0 }, { x: 120, y: 0 }, 0, 100, path)
+
+    expect(path[0]).toEqual({ x: 0, y: 0 })
+    expect(path[CURVED_PATH_SEGMENTS]!.x).toBeCloseTo(120)
+    expect(path[CURVED_PATH_SEGMENTS]!.y).toBeCloseTo(0)
+  })
+
+  it("bends with the turn rate while keeping the path length", () => {
+    const path = createPath()
+
+    predictCurvedPath({ x: 0, y: 0 }, { x: 120, y: 0 }, 0.005, 100, path)
+
+    let length = 0
+    for (let i = 1; i < path.length; i++) {
+      length += Math.hypot(path[i]!.x - path[i - 1]!.x, path[i]!.y - path[i - 1]!.y)
+    }
+
+    expect(path[CURVED_PATH_SEGMENTS]!.y).toBeGreaterThan(0)
+    expect(length).toBeCloseTo(120)
+  })
+
+  it("caps the bend at a quarter turn", () => {
+    const path = createPath()
+
+    predictCurvedPath({ x: 0, y: 0 }, { x: 120, y: 0 }, 1, 100, path)
+
+    const last = path[CURVED_PATH_SEGMENTS]!
+    const beforeLast = path[CURVED_PATH_SEGMENTS - 1]!
+    const finalHeading = Math.atan2(last.y - beforeLast.y, last.x - beforeLast.x)
+
+    expect(finalHeading).toBeLessThan(Math.PI / 2)
+  })
+})
+
+describe("getPathRectEntry", () => {
+  const path: Point[] = [
+    { x: 0, y: 0 },
+    { x: 100, y: 0 },
+    { x: 100, y: 100 },
+  ]
+
+  it("returns the entry position along the whole path", () => {
+    expect(getPathRectEntry(path, { top: 40, left: 90, right: 110, bottom: 60 })).toBeCloseTo(0.7)
+  })
+
+  it("returns null when the path misses the rect", () => {
+    expect(getPathRectEntry(path, { top: 40, left: 0, right: 50, bottom: 60 })).toBeNull()
+  })
+})
@@ -0,0 +1,95 @@
+import type { MousePosition, Point, Rect } from "../types/types"
+import type { CircularBuffer } from "./CircularBuffer"
+import { getSegmentRectEntry } from "./lineSegmentIntersectsRect"
+
+/** Segments of the predicted polyline, enough to follow a quarter turn smoothly. */
+export const CURVED_PATH_SEGMENTS = 6
+// Caps the bend of the whole path, so a jittery history can't curl it into a loop
+const MAX_CURVE_TURN = Math.PI / 2
+
+/**
+ * Measures how fast the cursor is turning, from the change in heading between
+ * the first and second half of the position history.
+ *
+ * @param buffer - The recorded mouse positions, oldest first.
+ * @returns The turn rate in radians per millisecond, positive when turning
+ *          clockwise on screen. `0` without enough movement to measure.
+ */
+export const measureTurnRate = (buffer: CircularBuffer<MousePosition>): number => {
+  if (buffer.length < 3) {
+    return 0
+  }
+
+  const first = buffer.getFirst()!
+  const middle = buffer.get(Math.floor((buffer.length - 1) / 2))!
+  const last = buffer.getLast()!
+  const ax = middle.point.x - first.point.x
+  const ay = middle.point.y - first.point.y
+  const bx = last.point.x - middle.point.x
+  const by = last.point.y - middle.point.y
+  // Both half headings belong to the middle of their half
+  const dt = (last.time - first.time) / 2
+  if ((ax === 0 && ay === 0) || (bx === 0 && by === 0) || dt <= 0) {
+    return 0
+  }
+
+  return Math.atan2(ax * by - ay * bx, ax * bx + ay * by) / dt
+}
+
+/**
+ * Predicts a curved path that starts heading for `predictedPoint` and keeps
+ * turning at `turnRate` for the whole prediction. The path is as long as the
+ * straight one, so the trajectory model still decides how far it reaches.
+ *
+ * @param currentPoint - Where the path starts.
+ * @param predictedPoint - Where the straight prediction ends.
+ * @param turnRate - Radians per millisecond, see {@link measureTurnRate}.
+ * @param predictionTime - Milliseconds the prediction spans.
+ * @param out - {@link CURVED_PATH_SEGMENTS} + 1 points to mutate, starting at `currentPoint`.
+ */
+export const predictCurvedPath = (
+  currentPoint: Point,
+  predictedPoint: Point,
+  turnRate: number,
+  predictionTime: number,
+  out: Point[]
+): void => {
+  const totalTurn = Math.max(-MAX_CURVE_TURN, Math.min(MAX_CURVE_TURN, turnRate * predictionTime))
+  const stepX = (predictedPoint.x - currentPoint.x) / CURVED_PATH_SEGMENTS
+  const stepY = (predictedPoint.y - currentPoint.y) / CURVED_PATH_SEGMENTS
+  let x = currentPoint.x
+  let y = currentPoint.y
+  out[0]!.x = x
+  out[0]!.y = y
+
+  for (let i = 1; i <= CURVED_PATH_SEGMENTS; i++) {
+    // Rotate each step by the heading at its midpoint
+    const angle = (totalTurn * (i - 0.5)) / CURVED_PATH_SEGMENTS
+    const cos = Math.cos(angle)
+    const sin = Math.sin(angle)
+    x += stepX * cos - stepY * sin
+    y += stepX * sin + stepY * cos
+    out[i]!.x = x
+    out[i]!.y = y
+  }
+}
+
+/**
+ * Finds where a polyline first enters a rectangle.
+ *
+ * @param path - The points of the polyline, at least two.
+ * @param rect - The {@link Rect} to check for intersection.
+ * @returns The entry position along the whole path, from `0` (at its first
+ *          point) to `1` (at its last), or `null` if the path misses the rectangle.
+ */
+export const getPathRectEntry = (path: readonly Point[], rect: Rect): number | null => {
+  const segments = path.length - 1
+  for (let i = 0; i < segments; i++) {
+    const entry = getSegmentRectEntry(path[i]!, path[i + 1]!, rect)
+    if (entry !== null) {
+      return (i + entry) / segments
+    }
+  }
+
+  return null
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest"
+import { CircularBuffer } from "./CircularBuffer"
+import { predictScrollLanding } from "./predictScrollLanding"
+import type { MousePosition, Point } from "../types/types"
+
+const createBuffer = (offsets: number[], interval: number = 16) => {
+  const buffer = new CircularBuffer<MousePosition>(offsets.length)
+  offsets.forEach((y, i) => buffer.add({ point: { x: 0, y }, time: i * interval }))
+
+  return buffer
+}
+
+describe("predictScrollLanding", () => {
+  it("is 0 without enough samples", () => {
+    const out: Point = { x: 1, y: 1 }
+
+    predictScrollLanding(createBuffer([0, 20]), out)
+
+    expect(out).toEqual({ x: 0, y: 0 })
+  })
+
+  it("uses the native time constant for a steady fling", () => {
+    const out: Point = { x: 0, y: 0 }
+
+    // 2px/ms
+    predictScrollLanding(createBuffer([0, 32, 64, 96, 128]), out)
+
+    expect(out.x).toBe(0)
+    expect(out.y).toBeCloseTo(2 * 325 * Math.exp(-16 / 325))
+  })
+
+  it("measures the deceleration of a slowing fling", () => {
+    // Velocity halves every 100ms: 4px/ms, then 2px/ms, sampled every 100ms
+    const slowing = { x: 0, y: 0 }
+    predictScrollLanding(createBuffer([0, 400, 600], 100), slowing)
+
+    const timeConstant = 100 / Math.log(2)
+    expect(slowing.y).toBeCloseTo(2 * Math.exp(-50 / timeConstant) * timeConstant)
+  })
+
+  it("predicts scrolling up as a negative distance", () => {
+    const out: Point = { x: 0, y: 0 }
+
+    predictScrollLanding(createBuffer([500, 468, 436, 404, 372]), out)
+
+    expect(out.y).toBeLessThan(0)
+  })
+})
@@ -0,0 +1,57 @@
+import type { MousePosition, Point } from "../types/types"
+import type { CircularBuffer } from "./CircularBuffer"
+
+// Time constant in ms of a native momentum scroll's exponential slowdown, used
+// until the samples show their own deceleration
+const DEFAULT_FLING_TIME_CONSTANT = 325
+const MIN_FLING_TIME_CONSTANT = 100
+const MAX_FLING_TIME_CONSTANT = 2000
+
+/**
+ * Predicts how much further a momentum scroll travels before it stops. Touch
+ * browsers slow a fling down exponentially, so the remaining distance is its
+ * current velocity times the decay's time constant. The time constant is
+ * measured from the velocities of the first and second half of the samples
+ * when they slow down, and falls back to the usual native one otherwise.
+ *
+ * @param buffer - Recent scroll offsets (as points), oldest first.
+ * @param out - Mutated with the remaining scroll distance per axis in px,
+ *              `0` without enough samples to measure a velocity.
+ */
+export const predictScrollLanding = (buffer: CircularBuffer<MousePosition>, out: Point): void => {
+  out.x = 0
+  out.y = 0
+  if (buffer.length < 3) {
+    return
+  }
+
+  const first = buffer.getFirst()!
+  const middle = buffer.get(Math.floor((buffer.length - 1) / 2))!
+  const last = buffer.getLast()!
+  const firstHalf = middle.time - first.time
+  const secondHalf = last.time - middle.time
+  if (firstHalf <= 0 || secondHalf <= 0) {
+    return
+  }
+
+  const vx = (last.point.x - middle.point.x) / secondHalf
+  const vy = (last.point.y - middle.point.y) / secondHalf
+  const earlierSpeed =
+    Math.hypot(middle.point.x - first.point.x, middle.point.y - first.point.y) / firstHalf
+  const speed = Math.hypot(vx, vy)
+
+  let timeConstant = DEFAULT_FLING_TIME_CONSTANT
+  if (speed > 0 && speed < earlierSpeed) {
+    // Both half velocities belong to the middle of their half
+    const elapsed = (firstHalf + secondHalf) / 2
+    timeConstant = Math.max(
+      MIN_FLING_TIME_CONSTANT,
+      Math.min(MAX_FLING_TIME_CONSTANT, elapsed / Math.log(earlierSpeed / speed))
+    )
+  }
+
+  // The second half's velocity is half a half behind the latest sample
+  const decay = Math.exp(-secondHalf / 2 / timeConstant)
+  out.x = vx * decay * timeConstant
+  out.y = vy * decay * timeConstant
+}
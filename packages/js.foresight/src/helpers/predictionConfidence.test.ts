@@ -0,0 +1,93 @@
+import { describe, it, expect, vi } from "vitest"
+import { CircularBuffer } from "./CircularBuffer"
+import {
+  computePredictionConfidence,
+  measureMotionSteadiness,
+  normalizeMinConfidence,
+} from "./predictionConfidence"
+import type { MousePosition } from "../types/types"
+
+const makeBuffer = (...steps: [x: number, y: number, time: number][]) => {
+  const buffer = new CircularBuffer<MousePosition>(steps.length)
+
+  for (const [x, y, time] of steps) {
+    buffer.add({ point: { x, y }, time })
+  }
+
+  return buffer
+}
+
+describe("measureMotionSteadiness", () => {
+  it("should score a straight, even movement as fully steady", () => {
+    const motion = measureMotionSteadiness(
+      makeBuffer([0, 0, 0], [10, 0, 16], [20, 0, 32], [30, 0, 48])
+    )
+
+    expect(motion.heading).toBeCloseTo(1)
+    expect(motion.speed).toBeCloseTo(1)
+  })
+
+  it("should lower the heading score when the cursor turns", () => {
+    const motion = measureMotionSteadiness(
+      makeBuffer([0, 0, 0], [10, 0, 16], [10, 10, 32], [0, 10, 48])
+    )
+
+    expect(motion.heading).toBeCloseTo(1 / 3)
+    expect(motion.speed).toBeCloseTo(1)
+  })
+
+  it("should lower the speed score when the speed varies", () => {
+    const motion = measureMotionSteadiness(
+      makeBuffer([0, 0, 0], [2, 0, 16], [30, 0, 32], [32, 0, 48])
+    )
+
+    expect(motion.heading).toBeCloseTo(1)
+    expect(motion.speed).toBeLessThan(0.6)
+  })
+
+  it("should return zeros when there is no movement", () => {
+    expect(measureMotionSteadiness(makeBuffer([5, 5, 0], [5, 5, 16]))).toEqual({
+      heading: 0,
+      speed: 0,
+    })
+    expect(measureMotionSteadiness(makeBuffer([5, 5, 0]))).toEqual({ heading: 0, speed: 0 })
+  })
+})
+
+describe("computePredictionConfidence", () => {
+  const steady = { heading: 1, speed: 1 }
+
+  it("should score closer elements higher", () => {
+    expect(computePredictionConfidence(0.2, steady)).toBeGreaterThan(
+      computePredictionConfidence(0.8, steady)
+    )
+  })
+
+  it("should score unsteady movement lower", () => {
+    expect(computePredictionConfidence(0.5, steady)).toBeGreaterThan(
+      computePredictionConfidence(0.5, { heading: 0.3, speed: 0.5 })
+    )
+  })
+
+  it("should stay between 0 and 1", () => {
+    expect(computePredictionConfidence(1, { heading: 0, speed: 0 })).toBe(0)
+    expect(computePredictionConfidence(0.01, steady)).toBeLessThanOrEqual(1)
+  })
+
+  it("should return 1 when the cursor is already inside the element", () => {
+    expect(computePredictionConfidence(0, { heading: 0, speed: 0 })).toBe(1)
+  })
+})
+
+describe("normalizeMinConfidence", () => {
+  it("should clamp values outside 0-1 with a warning", () => {
+    const warnSpy = vi.spyOn(console, "warn").mockImplementation(() => {})
+
+    expect(normalizeMinConfidence(0.7)).toBe(0.7)
+    expect(normalizeMinConfidence(2)).toBe(1)
+    expect(normalizeMinConfidence(-1)).toBe(0)
+    expect(warnSpy).toHaveBeenCalledTimes(2)
+
+    warnSpy.mockRestore()
+  })
+})
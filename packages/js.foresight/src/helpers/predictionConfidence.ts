@@ -0,0 +1,98 @@
+import { MAX_CONFIDENCE, MIN_CONFIDENCE } from "../constants"
+import type { MousePosition } from "../types/types"
+import type { CircularBuffer } from "./CircularBuffer"
+import { clampNumber } from "./clampNumber"
+
+// Weights of the confidence components, summing to 1
+const DISTANCE_WEIGHT = 0.4
+const HEADING_WEIGHT = 0.35
+const SPEED_WEIGHT = 0.25
+
+/**
+ * How steadily the cursor has been moving over its recorded history.
+ */
+export type MotionSteadiness = {
+  /** 0-1, how consistently the cursor keeps its heading. 1 is a perfectly straight path. */
+  heading: number
+  /** 0-1, how constant the cursor speed is. 1 is a perfectly even speed. */
+  speed: number
+}
+
+/**
+ * Measures heading consistency and speed steadiness from the position history.
+ *
+ * Heading is the length of the mean unit direction vector across all steps, so
+ * a straight path scores 1 and a path that doubles back scores close to 0.
+ * Speed is `1 / (1 + cv)`, where `cv` is the coefficient of variation of the
+ * step speeds.
+ *
+ * @param buffer - The recorded mouse positions, oldest first.
+ * @returns Both scores, or zeros when there is no movement to measure.
+ */
+export const measureMotionSteadiness = (
+  buffer: CircularBuffer<MousePosition>
+): MotionSteadiness => {
+  let directionX = 0
+  let directionY = 0
+  let speedSum = 0
+  let speedSquaredSum = 0
+  let steps = 0
+
+  for (let i = 1; i < buffer.length; i++) {
+    const previous = buffer.get(i - 1)!
+    const current = buffer.get(i)!
+    const dx = current.point.x - previous.point.x
+    const dy = current.point.y - previous.point.y
+    const dt = current.time - previous.time
+    const distance = Math.hypot(dx, dy)
+    if (distance === 0 || dt <= 0) {
+      continue
+    }
+
+    directionX += dx / distance
+    directionY += dy / distance
+
+    const speed = distance / dt
+    speedSum += speed
+    speedSquaredSum += speed * speed
+    steps++
+  }
+
+  if (steps === 0) {
+    return { heading: 0, speed: 0 }
+  }
+
+  const meanSpeed = speedSum / steps
+  const variance = Math.max(0, speedSquaredSum / steps - meanSpeed * meanSpeed)
+
+  return {
+    heading: Math.hypot(directionX, directionY) / steps,
+    speed: 1 / (1 + Math.sqrt(variance) / meanSpeed),
+  }
+}
+
+/**
+ * Scores how likely a trajectory hit reflects real intent, from 0 to 1.
+ *
+ * @param entry - Where the predicted segment enters the element, from 0 (at the
+ *                cursor) to 1 (at the predicted point). Closer elements score higher.
+ * @param motion - The steadiness of the recent cursor movement.
+ * @returns The weighted confidence, clamped between 0 and 1. A cursor already
+ *          inside the element (`entry` of 0) always scores 1.
+ */
+export const computePredictionConfidence = (entry: number, motion: MotionSteadiness): number => {
+  if (entry === 0) {
+    return 1
+  }
+
+  const confidence =
+    DISTANCE_WEIGHT * (1 - entry) + HEADING_WEIGHT * motion.heading + SPEED_WEIGHT * motion.speed
+
+  return Math.min(Math.max(confidence, 0), 1)
+}
+
+/**
+ * Clamps a `minConfidence` registration option between 0 and 1.
+ */
+export const normalizeMinConfidence = (minConfidence: number): number =>
+  clampNumber(minConfidence, MIN_CONFIDENCE, MAX_CONFIDENCE, "minConfidence")
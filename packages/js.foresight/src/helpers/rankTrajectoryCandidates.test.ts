@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest"
+import { rankTrajectoryCandidates } from "./rankTrajectoryCandidates"
+import type { ForesightElement, TrajectoryCandidate } from "../types/types"
+
+const createCandidate = (
+  id: string,
+  entry: number,
+  centerDistance: number = 0,
+  priority: number = 0
+): TrajectoryCandidate => ({
+  element: { id } as unknown as ForesightElement,
+  name: id,
+  entry,
+  centerDistance,
+  priority,
+  confidence: 1,
+})
+
+const names = (candidates: TrajectoryCandidate[]) => candidates.map(candidate => candidate.name)
+
+describe("rankTrajectoryCandidates", () => {
+  it("ranks the element entered first highest", () => {
+    const ranked = rankTrajectoryCandidates([
+      createCandidate("far", 0.8),
+      createCandidate("near", 0.2),
+      createCandidate("middle", 0.5),
+    ])
+
+    expect(names(ranked)).toEqual(["near", "middle", "far"])
+  })
+
+  it("prefers the element entered closest to its center at the same entry", () => {
+    const ranked = rankTrajectoryCandidates([
+      createCandidate("edge", 0, 40),
+      createCandidate("center", 0, 5),
+    ])
+
+    expect(names(ranked)).toEqual(["center", "edge"])
+  })
+
+  it("falls back to priority, then to hit order", () => {
+    const ranked = rankTrajectoryCandidates([
+      createCandidate("first", 0.5, 10, 0),
+      createCandidate("low", 0.5, 10, -1),
+      createCandidate("high", 0.5, 10, 2),
+      createCandidate("second", 0.5, 10, 0),
+    ])
+
+    expect(names(ranked)).toEqual(["high", "first", "second", "low"])
+  })
+})
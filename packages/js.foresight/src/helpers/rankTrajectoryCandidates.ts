@@ -0,0 +1,14 @@
+import type { TrajectoryCandidate } from "../types/types"
+
+/**
+ * Sorts the elements a predicted mouse path crossed from most to least likely
+ * target: the one the path enters first, then the one it enters closest to its
+ * center, then the one with the highest `priority`. Ties keep their hit order.
+ *
+ * @param candidates - The candidates to sort in place.
+ * @returns The same array, sorted.
+ */
+export const rankTrajectoryCandidates = <T extends TrajectoryCandidate>(candidates: T[]): T[] =>
+  candidates.sort(
+    (a, b) => a.entry - b.entry || a.centerDistance - b.centerDistance || b.priority - a.priority
+  )
@@ -76,3 +76,25 @@ export const isPointInRectangle = (point: Point, rect: Rect): boolean => {
     point.x >= rect.left && point.x <= rect.right && point.y >= rect.top && point.y <= rect.bottom
   )
 }
+
+/**
+ * Writes the smallest rectangle containing all `points` into `out`.
+ *
+ * @param points - At least one point.
+ * @param out - The {@link Rect} to mutate.
+ * @returns `out`, for chaining.
+ */
+export const getPointsBoundingRect = (points: readonly Point[], out: Rect): Rect => {
+  out.left = Infinity
+  out.top = Infinity
+  out.right = -Infinity
+  out.bottom = -Infinity
+  for (const point of points) {
+    out.left = Math.min(out.left, point.x)
+    out.top = Math.min(out.top, point.y)
+    out.right = Math.max(out.right, point.x)
+    out.bottom = Math.max(out.bottom, point.y)
+  }
+
+  return out
+}
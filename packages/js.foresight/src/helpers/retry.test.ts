@@ -0,0 +1,70 @@
+import { afterEach, describe, expect, it, vi } from "vitest"
+import { areRetryOptionsEqual, getRetryDelay, normalizeRetryOptions } from "./retry"
+
+afterEach(() => {
+  vi.restoreAllMocks()
+})
+
+describe("normalizeRetryOptions", () => {
+  it("treats a number as maxAttempts with default delays", () => {
+    expect(normalizeRetryOptions(3)).toEqual({
+      maxAttempts: 3,
+      baseDelay: 1000,
+      maxDelay: 30000,
+      jitter: true,
+    })
+  })
+
+  it("keeps the given fields of a policy object", () => {
+    expect(
+      normalizeRetryOptions({ maxAttempts: 4, baseDelay: 200, maxDelay: 1000, jitter: false })
+    ).toEqual({ maxAttempts: 4, baseDelay: 200, maxDelay: 1000, jitter: false })
+  })
+
+  it("clamps maxAttempts between 1 and 10", () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {})
+
+    expect(normalizeRetryOptions(0).maxAttempts).toBe(1)
+    expect(normalizeRetryOptions(50).maxAttempts).toBe(10)
+    expect(normalizeRetryOptions(2.7).maxAttempts).toBe(2)
+  })
+
+  it("does not allow negative delays", () => {
+    const retry = normalizeRetryOptions({ maxAttempts: 2, baseDelay: -5, maxDelay: -1 })
+
+    expect(retry.baseDelay).toBe(0)
+    expect(retry.maxDelay).toBe(0)
+  })
+})
+
+describe("areRetryOptionsEqual", () => {
+  it("compares policies by content", () => {
+    expect(areRetryOptionsEqual(normalizeRetryOptions(3), normalizeRetryOptions(3))).toBe(true)
+    expect(areRetryOptionsEqual(normalizeRetryOptions(3), normalizeRetryOptions(2))).toBe(false)
+  })
+})
+
+describe("getRetryDelay", () => {
+  const retry = normalizeRetryOptions({
+    maxAttempts: 10,
+    baseDelay: 100,
+    maxDelay: 1000,
+    jitter: false,
+  })
+
+  it("doubles the delay with every failed attempt", () => {
+    expect(getRetryDelay(retry, 1)).toBe(100)
+    expect(getRetryDelay(retry, 2)).toBe(200)
+    expect(getRetryDelay(retry, 3)).toBe(400)
+  })
+
+  it("caps the delay at maxDelay", () => {
+    expect(getRetryDelay(retry, 6)).toBe(1000)
+  })
+
+  it("picks a random delay up to the exponential value with jitter", () => {
+    vi.spyOn(Math, "random").mockReturnValue(0.5)
+
+    expect(getRetryDelay({ ...retry, jitter: true }, 3)).toBe(200)
+  })
+})
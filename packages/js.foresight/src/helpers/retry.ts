@@ -0,0 +1,58 @@
+import type { CallbackRetryOptions } from "../types/types"
+import {
+  DEFAULT_RETRY_BASE_DELAY,
+  DEFAULT_RETRY_JITTER,
+  DEFAULT_RETRY_MAX_DELAY,
+  MAX_RETRY_ATTEMPTS,
+  MIN_RETRY_ATTEMPTS,
+} from "../constants"
+import { clampNumber } from "./clampNumber"
+
+/**
+ * Normalizes a `retry` option into a full {@link CallbackRetryOptions} object.
+ * A number is shorthand for `{ maxAttempts }`; omitted fields use their defaults.
+ *
+ * @param retry - Total attempts, or a retry policy object.
+ * @returns The retry policy with every field set and `maxAttempts` clamped.
+ */
+export const normalizeRetryOptions = (
+  retry: number | CallbackRetryOptions
+): Required<CallbackRetryOptions> => {
+  const options = typeof retry === "number" ? { maxAttempts: retry } : retry
+
+  return {
+    maxAttempts: Math.floor(
+      clampNumber(options.maxAttempts, MIN_RETRY_ATTEMPTS, MAX_RETRY_ATTEMPTS, "retry.maxAttempts")
+    ),
+    baseDelay: Math.max(0, options.baseDelay ?? DEFAULT_RETRY_BASE_DELAY),
+    maxDelay: Math.max(0, options.maxDelay ?? DEFAULT_RETRY_MAX_DELAY),
+    jitter: options.jitter ?? DEFAULT_RETRY_JITTER,
+  }
+}
+
+/**
+ * Checks if two normalized retry policies hold the same values.
+ */
+export const areRetryOptionsEqual = (
+  a: Required<CallbackRetryOptions>,
+  b: Required<CallbackRetryOptions>
+): boolean =>
+  a.maxAttempts === b.maxAttempts &&
+  a.baseDelay === b.baseDelay &&
+  a.maxDelay === b.maxDelay &&
+  a.jitter === b.jitter
+
+/**
+ * Computes the backoff before the attempt following `attempt`. The delay
+ * doubles with every failed attempt up to `maxDelay`; with jitter enabled a
+ * random delay between 0 and that value is picked ("full jitter").
+ *
+ * @param retry - The normalized retry policy.
+ * @param attempt - The attempt that just failed, starting at 1.
+ * @returns The delay in milliseconds.
+ */
+export const getRetryDelay = (retry: Required<CallbackRetryOptions>, attempt: number): number => {
+  const delay = Math.min(retry.maxDelay, retry.baseDelay * 2 ** (attempt - 1))
+
+  return retry.jitter ? Math.random() * delay : delay
+}
@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest"
+import { areTouchStrategiesEqual, getTouchStrategies } from "./touchDeviceStrategies"
+
+describe("getTouchStrategies", () => {
+  it("wraps a single strategy", () => {
+    expect(getTouchStrategies("viewport")).toEqual(["viewport"])
+  })
+
+  it("drops duplicates and none", () => {
+    expect(getTouchStrategies(["viewport", "none", "onTouchStart", "viewport"])).toEqual([
+      "viewport",
+      "onTouchStart",
+    ])
+    expect(getTouchStrategies("none")).toEqual([])
+  })
+})
+
+describe("areTouchStrategiesEqual", () => {
+  it("ignores order and array wrapping", () => {
+    expect(areTouchStrategiesEqual("viewport", ["viewport"])).toBe(true)
+    expect(
+      areTouchStrategiesEqual(["viewport", "onTouchStart"], ["onTouchStart", "viewport"])
+    ).toBe(true)
+    expect(areTouchStrategiesEqual("none", [])).toBe(true)
+  })
+
+  it("detects a different combination", () => {
+    expect(areTouchStrategiesEqual("viewport", ["viewport", "onTouchStart"])).toBe(false)
+    expect(areTouchStrategiesEqual("viewport", "onTouchStart")).toBe(false)
+  })
+})
@@ -0,0 +1,34 @@
+import type { ForesightManagerSettings, TouchDeviceStrategy } from "../types/types"
+
+/** A strategy that connects a touch predictor, everything but `"none"`. */
+export type TouchPredictionStrategy = Exclude<TouchDeviceStrategy, "none">
+
+/**
+ * Lists the strategies in a `touchDeviceStrategy` value, a single strategy or an
+ * array of them. Duplicates and `"none"` are dropped.
+ */
+export const getTouchStrategies = (
+  value: ForesightManagerSettings["touchDeviceStrategy"]
+): TouchPredictionStrategy[] => {
+  const strategies = new Set(Array.isArray(value) ? value : [value])
+  strategies.delete("none")
+
+  return [...strategies] as TouchPredictionStrategy[]
+}
+
+/**
+ * Checks if two `touchDeviceStrategy` values combine the same strategies,
+ * regardless of their order or whether they are wrapped in an array.
+ */
+export const areTouchStrategiesEqual = (
+  a: ForesightManagerSettings["touchDeviceStrategy"],
+  b: ForesightManagerSettings["touchDeviceStrategy"]
+): boolean => {
+  const strategiesA = getTouchStrategies(a)
+  const strategiesB = getTouchStrategies(b)
+
+  return (
+    strategiesA.length === strategiesB.length &&
+    strategiesA.every(strategy => strategiesB.includes(strategy))
+  )
+}
@@ -0,0 +1,133 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { CircularBuffer } from "./CircularBuffer"
+import { predictNextMousePosition } from "./predictNextMousePosition"
+import {
+  createKalmanModel,
+  createTrajectoryModel,
+  predictConstantAcceleration,
+  predictWeightedLeastSquares,
+} from "./trajectoryModels"
+import type { MousePosition, Point, TrajectoryModelFunction } from "../types/types"
+
+describe("trajectory models", () => {
+  let buffer: CircularBuffer<MousePosition>
+  let out: Point
+  let now: number
+
+  beforeEach(() => {
+    buffer = new CircularBuffer<MousePosition>(8)
+    out = { x: 0, y: 0 }
+    now = 0
+    vi.spyOn(performance, "now").mockImplementation(() => now)
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  /** Feeds one point per 10ms frame and returns the last prediction. */
+  const feed = (model: TrajectoryModelFunction, points: Point[], predictionTime = 100): Point => {
+    for (const point of points) {
+      now += 10
+      model(point, buffer, predictionTime, out)
+    }
+
+    return out
+  }
+
+  // 1px/ms to the right
+  const steadyPath = Array.from({ length: 8 }, (_, i) => ({ x: i * 10, y: 50 }))
+
+  it.each([
+    ["weightedLeastSquares", predictWeightedLeastSquares],
+    ["constantAcceleration", predictConstantAcceleration],
+  ])("%s matches the linear model on a steady path", (_, model) => {
+    const linear = { ...feed(predictNextMousePosition, steadyPath) }
+    buffer.clear()
+
+    const prediction = feed(model, steadyPath)
+
+    expect(prediction.x).toBeCloseTo(linear.x)
+    expect(prediction.y).toBeCloseTo(linear.y)
+  })
+
+  it("records the current point in the buffer", () => {
+    for (const model of [
+      predictWeightedLeastSquares,
+      predictConstantAcceleration,
+      createKalmanModel(),
+    ]) {
+      buffer.clear()
+      feed(model, [{ x: 5, y: 5 }])
+
+      expect(buffer.getLast()?.point).toEqual({ x: 5, y: 5 })
+    }
+  })
+
+  it("weightedLeastSquares follows recent samples more than old ones", () => {
+    // Slow at first, then 2px/ms
+    const path = [0, 2, 4, 6, 26, 46, 66, 86].map(x => ({ x, y: 0 }))
+    const linear = { ...feed(predictNextMousePosition, path) }
+    buffer.clear()
+
+    const prediction = feed(predictWeightedLeastSquares, path)
+
+    expect(prediction.x).toBeGreaterThan(linear.x)
+  })
+
+  it("constantAcceleration stops a braking cursor where it comes to rest", () => {
+    // Braking by 0.01px/ms² from 1px/ms, about 3px short of standing still
+    const path: Point[] = []
+    let x = 0
+    for (let velocity = 1; path.length < 8; velocity -= 0.1) {
+      x += velocity * 10
+      path.push({ x, y: 0 })
+    }
+    const linear = { ...feed(predictNextMousePosition, path, 200) }
+    buffer.clear()
+
+    const prediction = feed(predictConstantAcceleration, path, 200)
+
+    expect(prediction.x).toBeGreaterThan(x)
+    expect(prediction.x).toBeLessThan(x + 5)
+    expect(prediction.x).toBeLessThan(linear.x)
+  })
+
+  it("kalman converges to the velocity of a steady path", () => {
+    const model = createKalmanModel()
+    const path = Array.from({ length: 30 }, (_, i) => ({ x: i * 10, y: 0 }))
+
+    const prediction = feed(model, path)
+
+    expect(prediction.x).toBeCloseTo(290 + 100, -1)
+    expect(prediction.y).toBeCloseTo(0)
+  })
+
+  it("kalman starts over after a pause", () => {
+    const model = createKalmanModel()
+    feed(model, steadyPath)
+
+    now += 500
+    model({ x: 300, y: 300 }, buffer, 100, out)
+
+    expect(out).toEqual({ x: 300, y: 300 })
+  })
+
+  describe("createTrajectoryModel", () => {
+    it("returns a custom function as is", () => {
+      const custom: TrajectoryModelFunction = vi.fn()
+
+      expect(createTrajectoryModel(custom)).toBe(custom)
+    })
+
+    it("resolves built-in names", () => {
+      expect(createTrajectoryModel("linear")).toBe(predictNextMousePosition)
+      expect(createTrajectoryModel("weightedLeastSquares")).toBe(predictWeightedLeastSquares)
+      expect(createTrajectoryModel("constantAcceleration")).toBe(predictConstantAcceleration)
+    })
+
+    it("creates a fresh kalman filter every time", () => {
+      expect(createTrajectoryModel("kalman")).not.toBe(createTrajectoryModel("kalman"))
+    })
+  })
+})
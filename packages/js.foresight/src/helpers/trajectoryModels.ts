@@ -0,0 +1,214 @@
+import type { MousePosition, Point, TrajectoryModel, TrajectoryModelFunction } from "../types/types"
+import type { CircularBuffer } from "./CircularBuffer"
+import { predictNextMousePosition } from "./predictNextMousePosition"
+
+// Kalman filter tuning, in px and seconds
+const KALMAN_ACCELERATION_VARIANCE = 1e6 // (1000px/s²)², how hard the cursor may change speed
+const KALMAN_MEASUREMENT_VARIANCE = 4 // (2px)², jitter of reported pointer positions
+const KALMAN_INITIAL_VELOCITY_VARIANCE = 1e6
+// A pause this long (ms) means a new movement, so the filter starts over
+const KALMAN_RESET_GAP = 100
+
+const recordPosition = (currentPoint: Point, buffer: CircularBuffer<MousePosition>): void => {
+  buffer.add({ point: { x: currentPoint.x, y: currentPoint.y }, time: performance.now() })
+}
+
+const holdPosition = (currentPoint: Point, out: Point): void => {
+  out.x = currentPoint.x
+  out.y = currentPoint.y
+}
+
+/**
+ * Fits a straight line through the position history with weighted least
+ * squares and extrapolates along its slope. Newer samples weigh more, so the
+ * prediction follows turns quicker than the linear model while a single noisy
+ * sample barely moves it.
+ */
+export const predictWeightedLeastSquares: TrajectoryModelFunction = (
+  currentPoint,
+  buffer,
+  trajectoryPredictionTimeInMs,
+  out
+) => {
+  recordPosition(currentPoint, buffer)
+  if (buffer.length < 2) {
+    holdPosition(currentPoint, out)
+
+    return
+  }
+
+  const latestTime = buffer.getLast()!.time
+  let sumW = 0
+  let sumT = 0
+  let sumTT = 0
+  let sumX = 0
+  let sumY = 0
+  let sumTX = 0
+  let sumTY = 0
+
+  for (let i = 0; i < buffer.length; i++) {
+    const { point, time } = buffer.get(i)!
+    const weight = i + 1
+    const t = (time - latestTime) * 0.001
+    sumW += weight
+    sumT += weight * t
+    sumTT += weight * t * t
+    sumX += weight * point.x
+    sumY += weight * point.y
+    sumTX += weight * t * point.x
+    sumTY += weight * t * point.y
+  }
+
+  const denominator = sumW * sumTT - sumT * sumT
+  if (denominator === 0) {
+    holdPosition(currentPoint, out)
+
+    return
+  }
+
+  const vx = (sumW * sumTX - sumT * sumX) / denominator
+  const vy = (sumW * sumTY - sumT * sumY) / denominator
+  const predictionTime = trajectoryPredictionTimeInMs * 0.001
+  out.x = currentPoint.x + vx * predictionTime
+  out.y = currentPoint.y + vy * predictionTime
+}
+
+/**
+ * Extrapolates with the velocity and acceleration measured over the two halves
+ * of the position history. When the cursor is braking, the prediction stops
+ * where it would come to rest instead of reversing past it.
+ */
+export const predictConstantAcceleration: TrajectoryModelFunction = (
+  currentPoint,
+  buffer,
+  trajectoryPredictionTimeInMs,
+  out
+) => {
+  // Two samples hold no acceleration yet
+  if (buffer.length < 2) {
+    predictNextMousePosition(currentPoint, buffer, trajectoryPredictionTimeInMs, out)
+
+    return
+  }
+
+  recordPosition(currentPoint, buffer)
+  const first = buffer.getFirst()!
+  const middle = buffer.get(Math.floor((buffer.length - 1) / 2))!
+  const last = buffer.getLast()!
+  const firstHalf = (middle.time - first.time) * 0.001
+  const secondHalf = (last.time - middle.time) * 0.001
+  if (firstHalf === 0 || secondHalf === 0) {
+    holdPosition(currentPoint, out)
+
+    return
+  }
+
+  const v1x = (middle.point.x - first.point.x) / firstHalf
+  const v1y = (middle.point.y - first.point.y) / firstHalf
+  const v2x = (last.point.x - middle.point.x) / secondHalf
+  const v2y = (last.point.y - middle.point.y) / secondHalf
+  // Average velocities belong to the middle of each half
+  const ax = (v2x - v1x) / ((firstHalf + secondHalf) / 2)
+  const ay = (v2y - v1y) / ((firstHalf + secondHalf) / 2)
+  const vx = v2x + (ax * secondHalf) / 2
+  const vy = v2y + (ay * secondHalf) / 2
+
+  let predictionTime = trajectoryPredictionTimeInMs * 0.001
+  const speed = Math.hypot(vx, vy)
+  const alongAcceleration = speed === 0 ? 0 : (ax * vx + ay * vy) / speed
+  if (alongAcceleration < 0) {
+    predictionTime = Math.min(predictionTime, speed / -alongAcceleration)
+  }
+
+  out.x = currentPoint.x + vx * predictionTime + 0.5 * ax * predictionTime ** 2
+  out.y = currentPoint.y + vy * predictionTime + 0.5 * ay * predictionTime ** 2
+}
+
+type KalmanAxis = {
+  position: number
+  velocity: number
+  // Covariance matrix [[p00, p01], [p01, p11]]
+  p00: number
+  p01: number
+  p11: number
+}
+
+const createKalmanAxis = (position: number): KalmanAxis => ({
+  position,
+  velocity: 0,
+  p00: KALMAN_MEASUREMENT_VARIANCE,
+  p01: 0,
+  p11: KALMAN_INITIAL_VELOCITY_VARIANCE,
+})
+
+/** One predict + update step of a constant-velocity Kalman filter for a single axis. */
+const stepKalmanAxis = (axis: KalmanAxis, measurement: number, dt: number): void => {
+  const q = KALMAN_ACCELERATION_VARIANCE
+  axis.position += axis.velocity * dt
+  const p00 = axis.p00 + dt * (2 * axis.p01 + dt * axis.p11) + (q * dt ** 4) / 4
+  const p01 = axis.p01 + dt * axis.p11 + (q * dt ** 3) / 2
+  const p11 = axis.p11 + q * dt ** 2
+
+  const innovation = measurement - axis.position
+  const s = p00 + KALMAN_MEASUREMENT_VARIANCE
+  const k0 = p00 / s
+  const k1 = p01 / s
+  axis.position += k0 * innovation
+  axis.velocity += k1 * innovation
+  axis.p00 = (1 - k0) * p00
+  axis.p01 = (1 - k0) * p01
+  axis.p11 = p11 - k1 * p01
+}
+
+/**
+ * Creates a Kalman filter model that tracks position and velocity per axis,
+ * smoothing out pointer jitter. It keeps its own state, so every
+ * predictor needs a fresh instance.
+ */
+export const createKalmanModel = (): TrajectoryModelFunction => {
+  let x: KalmanAxis | null = null
+  let y: KalmanAxis | null = null
+  let lastTime = 0
+
+  return (currentPoint, buffer, trajectoryPredictionTimeInMs, out) => {
+    recordPosition(currentPoint, buffer)
+    const time = buffer.getLast()!.time
+    const dt = (time - lastTime) * 0.001
+
+    if (!x || !y || buffer.length === 1 || time - lastTime > KALMAN_RESET_GAP) {
+      x = createKalmanAxis(currentPoint.x)
+      y = createKalmanAxis(currentPoint.y)
+    } else if (dt > 0) {
+      stepKalmanAxis(x, currentPoint.x, dt)
+      stepKalmanAxis(y, currentPoint.y, dt)
+    }
+
+    lastTime = time
+    const predictionTime = trajectoryPredictionTimeInMs * 0.001
+    out.x = x.position + x.velocity * predictionTime
+    out.y = y.position + y.velocity * predictionTime
+  }
+}
+
+/**
+ * Resolves the `trajectoryModel` setting into the function that predicts the
+ * mouse position. Built-in models that keep state get a fresh instance on every
+ * call; custom functions are returned as is.
+ */
+export const createTrajectoryModel = (model: TrajectoryModel): TrajectoryModelFunction => {
+  if (typeof model === "function") {
+    return model
+  }
+
+  switch (model) {
+    case "weightedLeastSquares":
+      return predictWeightedLeastSquares
+    case "constantAcceleration":
+      return predictConstantAcceleration
+    case "kalman":
+      return createKalmanModel()
+    case "linear":
+    default:
+      return predictNextMousePosition
+  }
+}
@@ -4,6 +4,7 @@ export type {
   Rect as ForesightRect,
   ForesightElement,
   ForesightElementState,
+  ForesightElementSettings,
   ElementBounds,
   ForesightRegisterResult,
   UpdateForsightManagerSettings,
@@ -17,16 +18,30 @@ export type {
   ElementRegisteredEvent,
   DeviceStrategyChangedEvent,
   ElementUnregisteredEvent,
+  ElementReactivatedEvent,
   CallbackInvokedEvent,
   CallbackCompletedEvent,
+  CallbackRetryScheduledEvent,
+  BudgetExceededEvent,
+  CallbackBudgetStrategy,
   MouseTrajectoryUpdateEvent,
+  TrajectoryDwellChangedEvent,
+  TrajectoryDwellPhase,
+  TrajectoryCandidate,
   ScrollTrajectoryUpdateEvent,
   ManagerSettingsChangedEvent,
   UpdatedManagerSetting,
   HitSlop,
   CallbackHitType,
   CallbackHits,
+  CallbackAbortReason,
+  CallbackRetryOptions,
   TouchDeviceStrategy,
+  TrajectoryModel,
+  TrajectoryModelFunction,
+  TrajectoryModelName,
+  TrajectoryShape,
+  TrajectoryCone,
   MinimumConnectionType,
   Point as ForesightPoint,
   ScrollDirection,
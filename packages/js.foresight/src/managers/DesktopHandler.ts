@@ -3,6 +3,7 @@ import { ElementObservingModule } from "../core/ElementObservingModule"
 import { MousePredictor } from "../predictors/MousePredictor"
 import type { ScrollPredictor } from "../predictors/ScrollPredictor"
 import type { TabPredictor } from "../predictors/TabPredictor"
+import type { ArrowKeyPredictor } from "../predictors/ArrowKeyPredictor"
 import { PositionObserver, PositionObserverEntry } from "position-observer"
 import type {
   ForesightElement,
@@ -10,6 +11,7 @@ import type {
   TrajectoryPositions,
 } from "../types/types"
 import { CircularBuffer } from "../helpers/CircularBuffer"
+import { getFrameElement, getTopLevelRect, toTopLevelRect } from "../helpers/frames"
 import { areRectsEqual, getExpandedRect, isPointInRectangle } from "../helpers/rectAndHitSlop"
 
 export class DesktopHandler extends ElementObservingModule {
@@ -17,14 +19,21 @@ export class DesktopHandler extends ElementObservingModule {
 
   private mousePredictor: MousePredictor
   private tabPredictor: TabPredictor | null = null
+  private arrowKeyPredictor: ArrowKeyPredictor | null = null
   private scrollPredictor: ScrollPredictor | null = null
-  private positionObserver: PositionObserver | null = null
+  // One PositionObserver per document, so an element inside a frame is
+  // measured against its frame's viewport rather than the top-level one
+  private positionObservers: Map<Document, PositionObserver> | null = null
+  // Frames hosting observed elements, to remeasure those elements when a frame moves
+  private observedFrames: Map<Element, Set<ForesightElement>> = new Map()
   private storedDependencies: ForesightModuleDependencies
 
   public trajectoryPositions: TrajectoryPositions = {
     positions: new CircularBuffer(this.settings.positionHistorySize),
     currentPoint: { x: 0, y: 0 },
     predictedPoint: { x: 0, y: 0 },
+    predictedPath: [],
+    predictedCone: null,
   }
 
   constructor(dependencies: ForesightModuleDependencies) {
@@ -39,24 +48,18 @@ export class DesktopHandler extends ElementObservingModule {
   }
 
   protected onConnect(): void {
-    if (this.settings.enableTabPrediction) {
-      this.connectTabPredictor()
-    }
-
-    if (this.settings.enableScrollPrediction) {
-      this.connectScrollPredictor()
-    }
+    const { tab, scroll } = this.updatePredictorConnections()
 
     this.connectMousePredictor() // We always connect the mouse predictor
-    this.positionObserver = new PositionObserver(this.handlePositionChange)
+    this.positionObservers = new Map()
 
     const enabledPredictors = ["mouse"]
 
-    if (this.settings.enableTabPrediction) {
-      enabledPredictors.push("tab (loading...)")
+    if (tab) {
+      enabledPredictors.push("tab (loading...)", "arrowKey (loading...)")
     }
 
-    if (this.settings.enableScrollPrediction) {
+    if (scroll) {
       enabledPredictors.push("scroll (loading...)")
     }
 
@@ -64,23 +67,74 @@ export class DesktopHandler extends ElementObservingModule {
 
     for (const [element, entry] of this.elements) {
       if (entry.state.isActive) {
-        this.positionObserver.observe(element)
+        this.observeElement(element)
       }
     }
   }
 
-  private handlePositionChange = (entries: PositionObserverEntry[]) => {
-    const enableScrollPosition = this.settings.enableScrollPrediction
+  /**
+   * Connect the tab and scroll predictors when the global setting or any
+   * element's `settings` override enables them, disconnect them otherwise.
+   */
+  public syncPredictorConnections = () => {
+    if (this.isConnected) {
+      this.updatePredictorConnections()
+    }
+  }
 
+  private updatePredictorConnections(): { tab: boolean; scroll: boolean } {
+    const tab = this.isEnabledForAnyElement("enableTabPrediction")
+    const scroll = this.isEnabledForAnyElement("enableScrollPrediction")
+
+    // Arrow key navigation is keyboard prediction too, so it follows the tab setting
+    if (tab) {
+      this.connectTabPredictor()
+      this.connectArrowKeyPredictor()
+    } else {
+      this.disconnectTabPredictor()
+      this.disconnectArrowKeyPredictor()
+    }
+
+    if (scroll) {
+      this.connectScrollPredictor()
+    } else {
+      this.disconnectScrollPredictor()
+    }
+
+    return { tab, scroll }
+  }
+
+  private isEnabledForAnyElement(key: "enableTabPrediction" | "enableScrollPrediction"): boolean {
+    if (this.settings[key]) {
+      return true
+    }
+
+    for (const entry of this.elements.values()) {
+      if (entry.state.settings[key]) {
+        return true
+      }
+    }
+
+    return false
+  }
+
+  private handlePositionChange = (entries: PositionObserverEntry[]) => {
     for (const positionEntry of entries) {
+      const framedElements = this.observedFrames.get(positionEntry.target)
+      if (framedElements) {
+        this.remeasureFramedElements(framedElements)
+      }
+
       const entry = this.elements.get(positionEntry.target)
 
       if (!entry) {
         continue
       }
 
-      if (enableScrollPosition) {
-        this.scrollPredictor?.handleScrollPrefetch(entry, positionEntry.boundingClientRect)
+      const rect = toTopLevelRect(positionEntry.boundingClientRect, positionEntry.target)
+
+      if (this.getElementSetting(entry, "enableScrollPrediction")) {
+        this.scrollPredictor?.handleScrollPrefetch(entry, rect)
       } else {
         // If we dont check for scroll prediction, check if the user is hovering over the element during a scroll instead
         this.checkForMouseHover(entry)
@@ -89,13 +143,12 @@ export class DesktopHandler extends ElementObservingModule {
       // Must run AFTER handleScrollPrefetch/checkForMouseHover - scroll
       // direction is derived from the difference between the old and new
       // originalRect, so entry.bounds must not be updated before they read it.
-      this.handlePositionChangeDataUpdates(entry, positionEntry)
+      this.handlePositionChangeDataUpdates(entry, rect, positionEntry.isIntersecting)
     }
 
-    if (enableScrollPosition) {
-      this.scrollPredictor?.emitTrajectoryUpdate()
-      this.scrollPredictor?.resetScrollProps()
-    }
+    // No-ops unless a scroll prediction ran in this batch
+    this.scrollPredictor?.emitTrajectoryUpdate()
+    this.scrollPredictor?.resetScrollProps()
   }
 
   private checkForMouseHover = (entry: ForesightElementInternal) => {
@@ -107,22 +160,38 @@ export class DesktopHandler extends ElementObservingModule {
     }
   }
 
+  /**
+   * A frame moved in its parent document (e.g. the top-level page scrolled), which
+   * shifts the top-level rects of everything inside it without the elements'
+   * own PositionObserver noticing.
+   */
+  private remeasureFramedElements = (elements: Set<ForesightElement>) => {
+    for (const element of elements) {
+      const entry = this.elements.get(element)
+      if (entry?.state.isIntersectingWithViewport) {
+        this.updateBoundsIfChanged(entry, getTopLevelRect(element))
+      }
+    }
+  }
+
+  private updateBoundsIfChanged = (entry: ForesightElementInternal, rect: DOMRectReadOnly) => {
+    if (!areRectsEqual(rect, entry.bounds.originalRect)) {
+      this.updateElementBounds(entry, {
+        originalRect: rect,
+        expandedRect: getExpandedRect(rect, entry.state.hitSlop),
+      })
+    }
+  }
+
   private handlePositionChangeDataUpdates = (
     entry: ForesightElementInternal,
-    positionEntry: PositionObserverEntry
+    rect: DOMRectReadOnly,
+    isNowIntersecting: boolean
   ) => {
-    const isNowIntersecting = positionEntry.isIntersecting
-
     // Bounds are updated BEFORE the state patch so state subscribers always
     // read fresh geometry.
-    if (
-      isNowIntersecting &&
-      !areRectsEqual(positionEntry.boundingClientRect, entry.bounds.originalRect)
-    ) {
-      this.updateElementBounds(entry, {
-        originalRect: positionEntry.boundingClientRect,
-        expandedRect: getExpandedRect(positionEntry.boundingClientRect, entry.state.hitSlop),
-      })
+    if (isNowIntersecting) {
+      this.updateBoundsIfChanged(entry, rect)
     }
 
     if (entry.state.isIntersectingWithViewport !== isNowIntersecting) {
@@ -133,38 +202,98 @@ export class DesktopHandler extends ElementObservingModule {
   protected onDisconnect(): void {
     this.disconnectMousePredictor()
     this.disconnectTabPredictor()
+    this.disconnectArrowKeyPredictor()
     this.disconnectScrollPredictor()
-    this.positionObserver?.disconnect()
-    this.positionObserver = null
+    for (const positionObserver of this.positionObservers?.values() ?? []) {
+      positionObserver.disconnect()
+    }
+
+    this.positionObservers = null
+    this.observedFrames.clear()
   }
 
   public processMouseMovement = (event: PointerEvent) =>
     this.mousePredictor.processMouseMovement(event)
 
+  public resetTrajectoryModel = () => this.mousePredictor.resetTrajectoryModel()
+
   public invalidateTabCache = () => this.tabPredictor?.invalidateCache()
 
   public observeElement(element: ForesightElement): void {
-    this.positionObserver?.observe(element)
+    if (!this.positionObservers) {
+      return
+    }
+
+    this.getPositionObserver(element.ownerDocument).observe(element)
+
+    // Also observe every frame hosting the element, see remeasureFramedElements
+    let frame = getFrameElement(element.ownerDocument)
+    while (frame) {
+      let framedElements = this.observedFrames.get(frame)
+      if (!framedElements) {
+        framedElements = new Set()
+        this.observedFrames.set(frame, framedElements)
+        this.getPositionObserver(frame.ownerDocument).observe(frame)
+      }
+
+      framedElements.add(element)
+      frame = getFrameElement(frame.ownerDocument)
+    }
   }
 
   public unobserveElement(element: ForesightElement): void {
-    this.positionObserver?.unobserve(element)
+    this.positionObservers?.get(element.ownerDocument)?.unobserve(element)
+    const entry = this.elements.get(element)
+    if (entry) {
+      this.mousePredictor.cancelDwell(entry)
+    }
+
+    for (const [frame, framedElements] of this.observedFrames) {
+      if (framedElements.delete(element) && framedElements.size === 0) {
+        this.observedFrames.delete(frame)
+        this.positionObservers?.get(frame.ownerDocument)?.unobserve(frame)
+      }
+    }
+  }
+
+  private getPositionObserver(doc: Document): PositionObserver {
+    let positionObserver = this.positionObservers?.get(doc)
+    if (!positionObserver) {
+      positionObserver =
+        doc === document
+          ? new PositionObserver(this.handlePositionChange)
+          : new PositionObserver(this.handlePositionChange, { root: doc })
+      this.positionObservers?.set(doc, positionObserver)
+    }
+
+    return positionObserver
   }
 
   public connectTabPredictor = async () => {
     if (!this.tabPredictor) {
       const { TabPredictor } = await import("../predictors/TabPredictor")
-      this.tabPredictor = new TabPredictor(this.storedDependencies)
+      // A concurrent call may have created it while this one awaited the import
+      this.tabPredictor ??= new TabPredictor(this.storedDependencies)
       this.devLog("TabPredictor lazy loaded")
     }
 
     this.tabPredictor.connect()
   }
 
+  public connectArrowKeyPredictor = async () => {
+    if (!this.arrowKeyPredictor) {
+      const { ArrowKeyPredictor } = await import("../predictors/ArrowKeyPredictor")
+      this.arrowKeyPredictor ??= new ArrowKeyPredictor(this.storedDependencies)
+      this.devLog("ArrowKeyPredictor lazy loaded")
+    }
+
+    this.arrowKeyPredictor.connect()
+  }
+
   public connectScrollPredictor = async () => {
     if (!this.scrollPredictor) {
       const { ScrollPredictor } = await import("../predictors/ScrollPredictor")
-      this.scrollPredictor = new ScrollPredictor({
+      this.scrollPredictor ??= new ScrollPredictor({
         dependencies: this.storedDependencies,
         trajectoryPositions: this.trajectoryPositions,
       })
@@ -178,6 +307,7 @@ export class DesktopHandler extends ElementObservingModule {
   public connectMousePredictor = () => this.mousePredictor.connect()
 
   public disconnectTabPredictor = () => this.tabPredictor?.disconnect()
+  public disconnectArrowKeyPredictor = () => this.arrowKeyPredictor?.disconnect()
   public disconnectScrollPredictor = () => this.scrollPredictor?.disconnect()
   public disconnectMousePredictor = () => this.mousePredictor.disconnect()
 
@@ -186,6 +316,7 @@ export class DesktopHandler extends ElementObservingModule {
     return {
       mouse: this.mousePredictor !== null,
       tab: this.tabPredictor !== null,
+      arrowKey: this.arrowKeyPredictor !== null,
       scroll: this.scrollPredictor !== null,
     }
   }
@@ -54,6 +54,21 @@ const fire = (
   manager.callCallback(entry, hitType)
 }
 
+const triggerDomCheck = (
+  manager: ForesightManager,
+  added: Element[] = [],
+  removed: Element[] = []
+) => {
+  // @ts-expect-error - private method invoked directly for tests
+  manager.handleDomMutations([
+    {
+      type: "childList",
+      addedNodes: added,
+      removedNodes: removed,
+    } as unknown as MutationRecord,
+  ])
+}
+
 const createMockElement = (id = "test-element"): ForesightElement => {
   const element = document.createElement("div")
   element.id = id
@@ -126,20 +141,30 @@ const setupReactivationAfterFire = async (reactivateAfter: number) => {
   return result
 }
 
-const setupDeferredCallbackTest = (reactivateAfter: number = Infinity) => {
-  const manager = ForesightManager.initialize()
-  const element = createMockElement()
+// Registers an element whose callback keeps running until `resolve` is called.
+// The global manager is only initialized with `settings` by the first call.
+const setupDeferredCallbackTest = ({
+  id,
+  registerOpts = {},
+  settings,
+}: {
+  id?: string
+  registerOpts?: Partial<Omit<ForesightRegisterOptions, "element" | "callback">>
+  settings?: Parameters<typeof ForesightManager.initialize>[0]
+} = {}) => {
+  const manager = ForesightManager.initialize(settings)
+  const element = createMockElement(id)
   let resolveCallback!: () => void
   const callback = vi.fn(() => new Promise<void>(resolve => (resolveCallback = resolve)))
 
-  manager.register({ element, callback, reactivateAfter })
+  manager.register({ element, callback, reactivateAfter: Infinity, ...registerOpts })
   const entry = getEntry(manager, element)
 
   return { manager, element, entry, callback, resolve: () => resolveCallback() }
 }
 
 const expectPredictorNotLoaded = async (
-  predictor: "tab" | "scroll",
+  predictor: "tab" | "arrowKey" | "scroll",
   initSettings: Parameters<typeof ForesightManager.initialize>[0]
 ) => {
   vi.useRealTimers()
@@ -738,6 +763,22 @@ describe("ForesightManager", () => {
       expect(entry.state.isActive).toBe(true)
     })
 
+    it("should emit elementReactivated when an element is reactivated", async () => {
+      const { manager, element, entry } = setupBasicTest({ reactivateAfter: Infinity })
+      const onReactivated = vi.fn()
+      manager.addEventListener("elementReactivated", onReactivated)
+
+      fire(manager, entry)
+      await vi.runAllTimersAsync()
+      manager.reactivate(element)
+      manager.reactivate(element)
+
+      expect(onReactivated).toHaveBeenCalledTimes(1)
+      expect(onReactivated).toHaveBeenCalledWith(
+        expect.objectContaining({ element, state: entry.state })
+      )
+    })
+
     it("should not reactivate non-existent element", () => {
       const manager = ForesightManager.initialize()
       const element = createMockElement()
@@ -747,6 +788,29 @@ describe("ForesightManager", () => {
     })
   })
 
+  describe("Focus Scopes", () => {
+    const getFocusScopes = (manager: ForesightManager): Element[] =>
+      // @ts-expect-error - accessing private array for tests
+      manager.focusScopes
+
+    it("should add and remove focus scopes in registration order", () => {
+      const manager = ForesightManager.initialize()
+      const outer = document.createElement("div")
+      const inner = document.createElement("div")
+
+      const removeOuter = manager.registerFocusScope(outer)
+      const removeInner = manager.registerFocusScope(inner)
+      expect(getFocusScopes(manager)).toEqual([outer, inner])
+
+      removeOuter()
+      removeOuter()
+      expect(getFocusScopes(manager)).toEqual([inner])
+
+      removeInner()
+      expect(getFocusScopes(manager)).toEqual([])
+    })
+  })
+
   describe("Element Activity State", () => {
     it("should be active and not predicted on registration", () => {
       const { entry } = setupBasicTest()
@@ -836,6 +900,24 @@ describe("ForesightManager", () => {
       expect(listener).not.toHaveBeenCalled()
     })
 
+    it("should accept a custom trajectory model function", () => {
+      const manager = ForesightManager.initialize()
+      const listener = vi.fn()
+      const trajectoryModel = vi.fn()
+
+      manager.addEventListener("managerSettingsChanged", listener)
+      manager.alterGlobalSettings({ trajectoryModel })
+
+      expect(manager.getManagerData.globalSettings.trajectoryModel).toBe(trajectoryModel)
+      expect(listener).toHaveBeenCalledWith(
+        expect.objectContaining({
+          updatedSettings: [
+            { setting: "trajectoryModel", oldValue: "linear", newValue: trajectoryModel },
+          ],
+        })
+      )
+    })
+
     it("should toggle boolean settings", () => {
       const manager = ForesightManager.initialize({ enableMousePrediction: true })
 
@@ -935,6 +1017,7 @@ describe("ForesightManager", () => {
       expect(data.loadedModules).toHaveProperty("predictors")
       expect(data.loadedModules.predictors).toHaveProperty("mouse")
       expect(data.loadedModules.predictors).toHaveProperty("tab")
+      expect(data.loadedModules.predictors).toHaveProperty("arrowKey")
       expect(data.loadedModules.predictors).toHaveProperty("scroll")
       expect(data.loadedModules.predictors).toHaveProperty("viewport")
       expect(data.loadedModules.predictors).toHaveProperty("touchStart")
@@ -954,13 +1037,27 @@ describe("ForesightManager", () => {
       vi.useFakeTimers()
     })
 
-    it("should lazy load tab predictor when enabled", async () => {
+    it("should lazy load tab and arrow key predictors when enabled", async () => {
       vi.useRealTimers()
       const manager = ForesightManager.initialize({ enableTabPrediction: true })
       const element = createMockElement()
 
       manager.register({ element, callback: vi.fn() })
 
+      await vi.waitFor(() => {
+        expect(manager.getManagerData.loadedModules.predictors.tab).toBe(true)
+        expect(manager.getManagerData.loadedModules.predictors.arrowKey).toBe(true)
+      })
+      vi.useFakeTimers()
+    })
+
+    it("should lazy load tab predictor when an element's settings override enables it", async () => {
+      vi.useRealTimers()
+      const manager = ForesightManager.initialize({ enableTabPrediction: false })
+      const element = createMockElement()
+
+      manager.register({ element, callback: vi.fn(), settings: { enableTabPrediction: true } })
+
       await vi.waitFor(() => {
         expect(manager.getManagerData.loadedModules.predictors.tab).toBe(true)
       })
@@ -971,6 +1068,10 @@ describe("ForesightManager", () => {
       await expectPredictorNotLoaded("tab", { enableTabPrediction: false })
     })
 
+    it("should not load arrow key predictor when tab prediction is disabled", async () => {
+      await expectPredictorNotLoaded("arrowKey", { enableTabPrediction: false })
+    })
+
     it("should lazy load scroll predictor when enabled", async () => {
       vi.useRealTimers()
       const manager = ForesightManager.initialize({ enableScrollPrediction: true })
@@ -1811,7 +1912,9 @@ describe("ForesightManager", () => {
 
   describe("Element State Lifecycle", () => {
     it("full lifecycle: register → predict → complete → reactivate", async () => {
-      const { manager, entry, resolve } = setupDeferredCallbackTest(1000)
+      const { manager, entry, resolve } = setupDeferredCallbackTest({
+        registerOpts: { reactivateAfter: 1000 },
+      })
 
       // 1. Registered: not predicted, not running, active
       expectState(entry.state, { isPredicted: false, isCallbackRunning: false, isActive: true })
@@ -2148,21 +2251,6 @@ describe("ForesightManager", () => {
   describe("DOM disconnect / reconnect (KeepAlive, Teleport, re-parenting)", () => {
     // Invoke the MutationObserver callback directly for deterministic tests; the
     // park/resume decision reads the element's real isConnected state.
-    const triggerDomCheck = (
-      manager: ForesightManager,
-      added: Element[] = [],
-      removed: Element[] = []
-    ) => {
-      // @ts-expect-error - private method invoked directly for tests
-      manager.handleDomMutations([
-        {
-          type: "childList",
-          addedNodes: added,
-          removedNodes: removed,
-        } as unknown as MutationRecord,
-      ])
-    }
-
     it("parks the element (registered but inactive) when detached", () => {
       const { manager, element, entry } = setupBasicTest()
       expect(entry.state.isActive).toBe(true)
@@ -2313,4 +2401,1334 @@ describe("ForesightManager", () => {
       expect(entry.state.isPredicted).toBe(false)
     })
   })
+
+  describe("Callback queue (maxConcurrentCallbacks / priority)", () => {
+    it("queues hits beyond the limit and runs them when a slot frees up", async () => {
+      const manager = ForesightManager.initialize({ maxConcurrentCallbacks: 1 })
+      const first = setupDeferredCallbackTest({ id: "first" })
+      const second = setupDeferredCallbackTest({ id: "second" })
+
+      fire(manager, first.entry)
+      fire(manager, second.entry)
+
+      expect(first.callback).toHaveBeenCalledTimes(1)
+      expect(second.callback).not.toHaveBeenCalled()
+      expect(second.entry.state.isQueued).toBe(true)
+      expect(second.entry.state.isPredicted).toBe(true)
+      expect(second.entry.state.isCallbackRunning).toBe(false)
+
+      first.resolve()
+      await vi.advanceTimersByTimeAsync(0)
+
+      expect(second.callback).toHaveBeenCalledTimes(1)
+      expect(second.entry.state.isQueued).toBe(false)
+      expect(second.entry.state.isCallbackRunning).toBe(true)
+    })
+
+    it("runs the highest priority queued element first", async () => {
+      const manager = ForesightManager.initialize({ maxConcurrentCallbacks: 1 })
+      const running = setupDeferredCallbackTest({ id: "running" })
+      const low = setupDeferredCallbackTest({ id: "low", registerOpts: { priority: 1 } })
+      const high = setupDeferredCallbackTest({ id: "high", registerOpts: { priority: 5 } })
+
+      fire(manager, running.entry)
+      fire(manager, low.entry)
+      fire(manager, high.entry)
+
+      running.resolve()
+      await vi.advanceTimersByTimeAsync(0)
+
+      expect(high.callback).toHaveBeenCalledTimes(1)
+      expect(low.callback).not.toHaveBeenCalled()
+
+      high.resolve()
+      await vi.advanceTimersByTimeAsync(0)
+
+      expect(low.callback).toHaveBeenCalledTimes(1)
+    })
+
+    it("runs equal priorities in hit order", async () => {
+      const manager = ForesightManager.initialize({ maxConcurrentCallbacks: 1 })
+      const running = setupDeferredCallbackTest({ id: "running" })
+      const a = setupDeferredCallbackTest({ id: "a" })
+      const b = setupDeferredCallbackTest({ id: "b" })
+
+      fire(manager, running.entry)
+      fire(manager, a.entry)
+      fire(manager, b.entry)
+
+      running.resolve()
+      await vi.advanceTimersByTimeAsync(0)
+
+      expect(a.callback).toHaveBeenCalledTimes(1)
+      expect(b.callback).not.toHaveBeenCalled()
+    })
+
+    it("reports the queue wait time on callbackCompleted", async () => {
+      const manager = ForesightManager.initialize({ maxConcurrentCallbacks: 1 })
+      const completedListener = vi.fn()
+      manager.addEventListener("callbackCompleted", completedListener)
+      const first = setupDeferredCallbackTest({ id: "first" })
+      const second = setupDeferredCallbackTest({ id: "second" })
+
+      fire(manager, first.entry)
+      fire(manager, second.entry)
+
+      await vi.advanceTimersByTimeAsync(250)
+      first.resolve()
+      await vi.advanceTimersByTimeAsync(0)
+      second.resolve()
+      await vi.advanceTimersByTimeAsync(0)
+
+      const [firstEvent, secondEvent] = completedListener.mock.calls.map(([event]) => event)
+      expect(firstEvent.queueWaitMs).toBe(0)
+      expect(secondEvent.queueWaitMs).toBeGreaterThanOrEqual(250)
+    })
+
+    it("drops a queued element when it is unregistered", async () => {
+      const manager = ForesightManager.initialize({ maxConcurrentCallbacks: 1 })
+      const first = setupDeferredCallbackTest({ id: "first" })
+      const second = setupDeferredCallbackTest({ id: "second" })
+      const third = setupDeferredCallbackTest({ id: "third" })
+
+      fire(manager, first.entry)
+      fire(manager, second.entry)
+      fire(manager, third.entry)
+
+      manager.unregister(second.entry.element)
+      expect(second.entry.state.isQueued).toBe(false)
+
+      first.resolve()
+      await vi.advanceTimersByTimeAsync(0)
+
+      expect(second.callback).not.toHaveBeenCalled()
+      expect(third.callback).toHaveBeenCalledTimes(1)
+    })
+
+    it("resets a queued element when it is disabled so it can fire again later", () => {
+      const manager = ForesightManager.initialize({ maxConcurrentCallbacks: 1 })
+      const first = setupDeferredCallbackTest({ id: "first" })
+      const second = setupDeferredCallbackTest({ id: "second" })
+
+      fire(manager, first.entry)
+      fire(manager, second.entry)
+
+      manager.updateElementOptions(second.entry.element, { enabled: false })
+      expect(second.entry.state.isQueued).toBe(false)
+      expect(second.entry.state.isPredicted).toBe(false)
+
+      manager.updateElementOptions(second.entry.element, { enabled: true })
+      fire(manager, second.entry)
+      expect(second.entry.state.isQueued).toBe(true)
+    })
+
+    it("starts queued callbacks when the limit is raised", () => {
+      const manager = ForesightManager.initialize({ maxConcurrentCallbacks: 1 })
+      const first = setupDeferredCallbackTest({ id: "first" })
+      const second = setupDeferredCallbackTest({ id: "second" })
+
+      fire(manager, first.entry)
+      fire(manager, second.entry)
+      expect(second.callback).not.toHaveBeenCalled()
+
+      manager.alterGlobalSettings({ maxConcurrentCallbacks: 2 })
+
+      expect(second.callback).toHaveBeenCalledTimes(1)
+      expect(second.entry.state.isQueued).toBe(false)
+    })
+
+    it("mirrors the queued state onto data-queued", () => {
+      const manager = ForesightManager.initialize({ maxConcurrentCallbacks: 1 })
+      const first = setupDeferredCallbackTest({ id: "first" })
+      const second = setupDeferredCallbackTest({ id: "second" })
+
+      fire(manager, first.entry)
+      fire(manager, second.entry)
+
+      expect(second.entry.element.hasAttribute("data-queued")).toBe(true)
+      expect(first.entry.element.hasAttribute("data-queued")).toBe(false)
+    })
+  })
+
+  describe("AbortSignal", () => {
+    const getCallbackSignal = (callback: ReturnType<typeof vi.fn>): AbortSignal =>
+      (callback.mock.calls[0] as unknown[])[1] as AbortSignal
+
+    it("passes an AbortSignal as the second callback argument", () => {
+      const { manager, entry, callback } = setupDeferredCallbackTest()
+
+      fire(manager, entry)
+
+      const signal = getCallbackSignal(callback)
+      expect(signal).toBeInstanceOf(AbortSignal)
+      expect(signal.aborted).toBe(false)
+    })
+
+    it("passes the element as the third callback argument", () => {
+      const { manager, entry, callback } = setupDeferredCallbackTest()
+
+      fire(manager, entry)
+
+      expect((callback.mock.calls[0] as unknown[])[2]).toBe(entry.element)
+    })
+
+    it("completes successful runs without an abort reason", async () => {
+      const { manager, entry } = setupBasicTest()
+      const completedListener = vi.fn()
+      manager.addEventListener("callbackCompleted", completedListener)
+
+      fire(manager, entry)
+      await vi.advanceTimersByTimeAsync(0)
+
+      expect(completedListener).toHaveBeenCalledWith(
+        expect.objectContaining({ status: "success", abortReason: null })
+      )
+    })
+
+    it("aborts the running callback on unregister", async () => {
+      const { manager, element, entry, callback, resolve } = setupDeferredCallbackTest()
+      const completedListener = vi.fn()
+      manager.addEventListener("callbackCompleted", completedListener)
+
+      fire(manager, entry)
+      const signal = getCallbackSignal(callback)
+      manager.unregister(element)
+
+      expect(signal.aborted).toBe(true)
+      expect(signal.reason).toBe("unregistered")
+      expect(completedListener).toHaveBeenCalledTimes(1)
+      expect(completedListener).toHaveBeenCalledWith(
+        expect.objectContaining({ status: "aborted", abortReason: "unregistered" })
+      )
+
+      // The late settle of the aborted run is ignored.
+      resolve()
+      await vi.advanceTimersByTimeAsync(0)
+      expect(completedListener).toHaveBeenCalledTimes(1)
+    })
+
+    it("ignores a rejection caused by the abort", async () => {
+      const manager = ForesightManager.initialize()
+      const element = createMockElement()
+      const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => {})
+      const callback = vi.fn(
+        (_state: ForesightElementState, signal: AbortSignal) =>
+          new Promise<void>((_, reject) => {
+            signal.addEventListener("abort", () => reject(new Error("AbortError")))
+          })
+      )
+      manager.register({ element, callback })
+
+      fire(manager, getEntry(manager, element))
+      manager.unregister(element)
+      await vi.advanceTimersByTimeAsync(0)
+
+      expect(consoleSpy).not.toHaveBeenCalled()
+    })
+
+    it("aborts on park and resumes the element fresh on reconnect", () => {
+      const { manager, element, entry, callback } = setupDeferredCallbackTest()
+      const completedListener = vi.fn()
+      manager.addEventListener("callbackCompleted", completedListener)
+
+      fire(manager, entry)
+      const signal = getCallbackSignal(callback)
+
+      element.remove()
+      triggerDomCheck(manager, [], [element])
+
+      expect(signal.reason).toBe("parked")
+      expect(entry.state.status).toBe("aborted")
+      expect(entry.state.isParked).toBe(true)
+      expect(entry.state.isCallbackRunning).toBe(false)
+      expect(manager.getManagerData.parkedElementCount).toBe(1)
+      expect(completedListener).toHaveBeenCalledWith(
+        expect.objectContaining({ status: "aborted", abortReason: "parked" })
+      )
+
+      document.body.appendChild(element)
+      triggerDomCheck(manager, [element], [])
+
+      expect(entry.state.isActive).toBe(true)
+      expect(entry.state.isPredicted).toBe(false)
+    })
+
+    it("keeps an element eligible after its intent was lost", () => {
+      const { manager, entry, callback } = setupDeferredCallbackTest({
+        registerOpts: { reactivateAfter: 5000 },
+      })
+
+      fire(manager, entry)
+      // @ts-expect-error - accessing private method for tests
+      manager.abortCallback(entry, "intentLost")
+
+      expect(entry.state.status).toBe("aborted")
+      expect(entry.state.isActive).toBe(true)
+      expect(entry.state.isPredicted).toBe(false)
+      expect(entry.reactivateTimeoutId).toBeUndefined()
+
+      fire(manager, entry)
+      expect(callback).toHaveBeenCalledTimes(2)
+    })
+
+    it("frees the concurrency slot of an aborted run", () => {
+      const manager = ForesightManager.initialize({ maxConcurrentCallbacks: 1 })
+      const first = createMockElement("first")
+      const second = createMockElement("second")
+      const secondCallback = vi.fn()
+      manager.register({ element: first, callback: () => new Promise<void>(() => {}) })
+      manager.register({ element: second, callback: secondCallback })
+
+      fire(manager, getEntry(manager, first))
+      fire(manager, getEntry(manager, second))
+      expect(secondCallback).not.toHaveBeenCalled()
+
+      manager.unregister(first)
+
+      expect(secondCallback).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  describe("Callback timeout (callbackTimeout)", () => {
+    const setupTimeoutTest = (
+      settings: Parameters<typeof ForesightManager.initialize>[0],
+      registerOpts: Partial<Omit<ForesightRegisterOptions, "element" | "callback">> = {}
+    ) => {
+      const result = setupDeferredCallbackTest({ settings, registerOpts })
+      const completedListener = vi.fn()
+      result.manager.addEventListener("callbackCompleted", completedListener)
+
+      return { ...result, completedListener }
+    }
+
+    it("never times out by default", async () => {
+      const { manager, entry, completedListener } = setupTimeoutTest({})
+
+      fire(manager, entry)
+      await vi.advanceTimersByTimeAsync(60_000)
+
+      expect(entry.state.isCallbackRunning).toBe(true)
+      expect(completedListener).not.toHaveBeenCalled()
+    })
+
+    it("completes a run that exceeds the timeout with the timeout status", async () => {
+      const { manager, entry, callback, completedListener } = setupTimeoutTest({
+        callbackTimeout: 1000,
+      })
+
+      fire(manager, entry)
+      await vi.advanceTimersByTimeAsync(999)
+      expect(completedListener).not.toHaveBeenCalled()
+
+      await vi.advanceTimersByTimeAsync(1)
+      const signal = (callback.mock.calls[0] as unknown[])[1] as AbortSignal
+
+      expect(signal.reason).toBe("timeout")
+      expect(completedListener).toHaveBeenCalledWith(
+        expect.objectContaining({
+          status: "timeout",
+          abortReason: "timeout",
+          errorMessage: "Callback timed out after 1000ms",
+        })
+      )
+      expect(entry.state.status).toBe("timeout")
+      expectState(entry.state, { isPredicted: true, isCallbackRunning: false, isActive: false })
+    })
+
+    it("ignores the late settle of a timed out run", async () => {
+      const { manager, entry, completedListener, resolve } = setupTimeoutTest({
+        callbackTimeout: 1000,
+      })
+
+      fire(manager, entry)
+      await vi.advanceTimersByTimeAsync(1000)
+      resolve()
+      await vi.advanceTimersByTimeAsync(0)
+
+      expect(completedListener).toHaveBeenCalledTimes(1)
+      expect(entry.state.status).toBe("timeout")
+    })
+
+    it("clears the timeout when the callback settles in time", async () => {
+      const { manager, entry, completedListener, resolve } = setupTimeoutTest({
+        callbackTimeout: 1000,
+      })
+
+      fire(manager, entry)
+      resolve()
+      await vi.advanceTimersByTimeAsync(2000)
+
+      expect(completedListener).toHaveBeenCalledTimes(1)
+      expect(entry.state.status).toBe("success")
+    })
+
+    it("reactivates a timed out element after reactivateAfter", async () => {
+      const { manager, entry } = setupTimeoutTest(
+        { callbackTimeout: 1000 },
+        { reactivateAfter: 5000 }
+      )
+
+      fire(manager, entry)
+      await vi.advanceTimersByTimeAsync(1000)
+      expect(entry.state.isActive).toBe(false)
+
+      await vi.advanceTimersByTimeAsync(5000)
+      expect(entry.state.isActive).toBe(true)
+    })
+
+    it("frees the concurrency slot of a timed out run", async () => {
+      const manager = ForesightManager.initialize({
+        maxConcurrentCallbacks: 1,
+        callbackTimeout: 1000,
+      })
+      const first = createMockElement("first")
+      const second = createMockElement("second")
+      const secondCallback = vi.fn()
+      manager.register({ element: first, callback: () => new Promise<void>(() => {}) })
+      manager.register({ element: second, callback: secondCallback })
+
+      fire(manager, getEntry(manager, first))
+      fire(manager, getEntry(manager, second))
+      await vi.advanceTimersByTimeAsync(1000)
+
+      expect(secondCallback).toHaveBeenCalledTimes(1)
+    })
+
+    it("prefers the per-element override over the global setting", async () => {
+      const { manager, entry, completedListener } = setupTimeoutTest(
+        { callbackTimeout: 10_000 },
+        { settings: { callbackTimeout: 500 } }
+      )
+
+      fire(manager, entry)
+      await vi.advanceTimersByTimeAsync(500)
+
+      expect(completedListener).toHaveBeenCalledWith(expect.objectContaining({ status: "timeout" }))
+    })
+
+    it("clamps the timeout to its minimum", () => {
+      vi.spyOn(console, "warn").mockImplementation(() => {})
+      const manager = ForesightManager.initialize({ callbackTimeout: 10 })
+
+      expect(manager.getManagerData.globalSettings.callbackTimeout).toBe(100)
+    })
+  })
+
+  describe("Callback retry (retry)", () => {
+    const setupRetryTest = (retry: ForesightRegisterOptions["retry"], failures: number) => {
+      const manager = ForesightManager.initialize()
+      const element = createMockElement()
+      let calls = 0
+      const callback = vi.fn(async () => {
+        calls++
+        if (calls <= failures) {
+          throw new Error(`failure ${calls}`)
+        }
+      })
+      manager.register({ element, callback, retry })
+      const retryListener = vi.fn()
+      const completedListener = vi.fn()
+      manager.addEventListener("callbackRetryScheduled", retryListener)
+      manager.addEventListener("callbackCompleted", completedListener)
+
+      return {
+        manager,
+        entry: getEntry(manager, element),
+        callback,
+        retryListener,
+        completedListener,
+      }
+    }
+
+    beforeEach(() => {
+      vi.spyOn(console, "error").mockImplementation(() => {})
+    })
+
+    it("does not retry by default", async () => {
+      const { manager, entry, callback, retryListener } = setupRetryTest(undefined, 1)
+
+      fire(manager, entry)
+      await vi.advanceTimersByTimeAsync(60_000)
+
+      expect(callback).toHaveBeenCalledTimes(1)
+      expect(retryListener).not.toHaveBeenCalled()
+      expect(entry.state.status).toBe("error")
+      expect(entry.state.attempt).toBe(1)
+    })
+
+    it("retries with exponential backoff until an attempt succeeds", async () => {
+      const { manager, entry, callback, retryListener, completedListener } = setupRetryTest(
+        { maxAttempts: 3, baseDelay: 100, jitter: false },
+        2
+      )
+
+      fire(manager, entry)
+      await vi.advanceTimersByTimeAsync(0)
+      expect(retryListener).toHaveBeenLastCalledWith(
+        expect.objectContaining({ attempt: 1, delay: 100, errorMessage: "failure 1" })
+      )
+      expect(entry.state.isCallbackRunning).toBe(true)
+
+      await vi.advanceTimersByTimeAsync(100)
+      expect(callback).toHaveBeenCalledTimes(2)
+      expect(entry.state.attempt).toBe(2)
+      expect(retryListener).toHaveBeenLastCalledWith(
+        expect.objectContaining({ attempt: 2, delay: 200 })
+      )
+
+      await vi.advanceTimersByTimeAsync(199)
+      expect(callback).toHaveBeenCalledTimes(2)
+      await vi.advanceTimersByTimeAsync(1)
+
+      expect(callback).toHaveBeenCalledTimes(3)
+      expect(completedListener).toHaveBeenCalledTimes(1)
+      expect(completedListener).toHaveBeenCalledWith(expect.objectContaining({ status: "success" }))
+      expect(entry.state.attempt).toBe(3)
+    })
+
+    it("only completes with error after the last attempt failed", async () => {
+      const { manager, entry, callback, retryListener, completedListener } = setupRetryTest(
+        { maxAttempts: 2, baseDelay: 100, jitter: false },
+        Infinity
+      )
+
+      fire(manager, entry)
+      await vi.advanceTimersByTimeAsync(0)
+      expect(completedListener).not.toHaveBeenCalled()
+
+      await vi.advanceTimersByTimeAsync(100)
+
+      expect(callback).toHaveBeenCalledTimes(2)
+      expect(retryListener).toHaveBeenCalledTimes(1)
+      expect(completedListener).toHaveBeenCalledTimes(1)
+      expect(completedListener).toHaveBeenCalledWith(
+        expect.objectContaining({ status: "error", errorMessage: "failure 2" })
+      )
+      expectState(entry.state, { isPredicted: true, isCallbackRunning: false, isActive: false })
+    })
+
+    it("cancels a pending retry when the element is unregistered", async () => {
+      const { manager, entry, callback, completedListener } = setupRetryTest(
+        { maxAttempts: 3, baseDelay: 100, jitter: false },
+        Infinity
+      )
+
+      fire(manager, entry)
+      await vi.advanceTimersByTimeAsync(0)
+      manager.unregister(entry.element)
+      await vi.advanceTimersByTimeAsync(1000)
+
+      expect(callback).toHaveBeenCalledTimes(1)
+      expect(completedListener).toHaveBeenCalledWith(
+        expect.objectContaining({ status: "aborted", abortReason: "unregistered" })
+      )
+    })
+
+    it("resets the attempt counter on the next hit", async () => {
+      const { manager, entry } = setupRetryTest({ maxAttempts: 2, baseDelay: 0 }, 1)
+
+      fire(manager, entry)
+      await vi.advanceTimersByTimeAsync(0)
+      expect(entry.state.attempt).toBe(2)
+
+      manager.reactivate(entry.element)
+      fire(manager, entry)
+
+      expect(entry.state.attempt).toBe(1)
+    })
+
+    it("updates the retry policy through updateElementOptions", () => {
+      const { manager, entry } = setupRetryTest(3, 0)
+      const retry = entry.state.retry
+
+      manager.updateElementOptions(entry.element, { retry: 3 })
+      expect(entry.state.retry).toBe(retry)
+
+      manager.updateElementOptions(entry.element, { retry: { maxAttempts: 5, jitter: false } })
+      expect(entry.state.retry).toEqual({
+        maxAttempts: 5,
+        baseDelay: 1000,
+        maxDelay: 30000,
+        jitter: false,
+      })
+    })
+  })
+
+  describe("Callback budget (callbackBudget)", () => {
+    const setupBudgetTest = (
+      settings: Parameters<typeof ForesightManager.initialize>[0],
+      weights: number[]
+    ) => {
+      const manager = ForesightManager.initialize(settings)
+      const entries = weights.map((weight, index) => {
+        const element = createMockElement(`budget-${index}`)
+        manager.register({ element, callback: vi.fn(), weight })
+
+        return getEntry(manager, element)
+      })
+      const exceededListener = vi.fn()
+      manager.addEventListener("budgetExceeded", exceededListener)
+
+      return { manager, entries, exceededListener }
+    }
+
+    it("drops hits once the budget is spent", () => {
+      const { manager, entries, exceededListener } = setupBudgetTest(
+        { callbackBudget: 2 },
+        [1, 1, 1]
+      )
+      const [first, second, third] = entries as [
+        ForesightElementInternal,
+        ForesightElementInternal,
+        ForesightElementInternal,
+      ]
+
+      fire(manager, first)
+      fire(manager, second)
+      fire(manager, third)
+
+      expect(third.callback).not.toHaveBeenCalled()
+      expectState(third.state, { isPredicted: false, isCallbackRunning: false, isActive: true })
+      expect(exceededListener).toHaveBeenCalledWith(
+        expect.objectContaining({ element: third.element, strategy: "drop", budgetUsage: 2 })
+      )
+    })
+
+    it("reports repeated drops of an element once until the budget refills", async () => {
+      const { manager, entries, exceededListener } = setupBudgetTest(
+        { callbackBudget: 1, callbackBudgetWindow: 5000 },
+        [1, 1]
+      )
+      const [first, second] = entries as [ForesightElementInternal, ForesightElementInternal]
+
+      fire(manager, first)
+      fire(manager, second)
+      fire(manager, second)
+      fire(manager, second)
+      expect(exceededListener).toHaveBeenCalledTimes(1)
+
+      await vi.advanceTimersByTimeAsync(5000)
+      manager.reactivate(first.element)
+      fire(manager, first)
+      fire(manager, second)
+      expect(exceededListener).toHaveBeenCalledTimes(2)
+    })
+
+    it("frees budget once a spend leaves the window", async () => {
+      const { manager, entries } = setupBudgetTest(
+        { callbackBudget: 1, callbackBudgetWindow: 5000 },
+        [1, 1]
+      )
+      const [first, second] = entries as [ForesightElementInternal, ForesightElementInternal]
+
+      fire(manager, first)
+      fire(manager, second)
+      expect(second.callback).not.toHaveBeenCalled()
+
+      await vi.advanceTimersByTimeAsync(5000)
+      fire(manager, second)
+
+      expect(second.callback).toHaveBeenCalledTimes(1)
+    })
+
+    it("defers hits until budget is freed", async () => {
+      const { manager, entries, exceededListener } = setupBudgetTest(
+        { callbackBudget: 1, callbackBudgetWindow: 5000, callbackBudgetStrategy: "defer" },
+        [1, 1]
+      )
+      const [first, second] = entries as [ForesightElementInternal, ForesightElementInternal]
+
+      fire(manager, first)
+      fire(manager, second)
+
+      expect(second.state.isQueued).toBe(true)
+      expect(exceededListener).toHaveBeenCalledWith(
+        expect.objectContaining({ strategy: "defer", state: second.state })
+      )
+
+      await vi.advanceTimersByTimeAsync(4999)
+      expect(second.callback).not.toHaveBeenCalled()
+
+      await vi.advanceTimersByTimeAsync(1)
+      expect(second.callback).toHaveBeenCalledTimes(1)
+      expect(second.state.isQueued).toBe(false)
+    })
+
+    it("holds lighter queued hits back while a higher priority hit waits for budget", async () => {
+      const { manager, entries } = setupBudgetTest(
+        { callbackBudget: 10, callbackBudgetStrategy: "defer", maxConcurrentCallbacks: 1 },
+        [8, 5, 1]
+      )
+      const [running, heavy, light] = entries as [
+        ForesightElementInternal,
+        ForesightElementInternal,
+        ForesightElementInternal,
+      ]
+      manager.updateElementOptions(heavy.element, { priority: 2 })
+
+      fire(manager, running)
+      fire(manager, heavy)
+      fire(manager, light)
+      await vi.advanceTimersByTimeAsync(0)
+
+      expect(light.callback).not.toHaveBeenCalled()
+      expect(heavy.callback).not.toHaveBeenCalled()
+      expect(heavy.state.isQueued).toBe(true)
+    })
+
+    it("lets lighter queued hits pass a hit heavier than the whole budget", async () => {
+      const { manager, entries } = setupBudgetTest(
+        { callbackBudget: 10, callbackBudgetStrategy: "defer", maxConcurrentCallbacks: 1 },
+        [8, 50, 1]
+      )
+      const [running, heavy, light] = entries as [
+        ForesightElementInternal,
+        ForesightElementInternal,
+        ForesightElementInternal,
+      ]
+      manager.updateElementOptions(heavy.element, { priority: 2 })
+
+      fire(manager, running)
+      fire(manager, heavy)
+      fire(manager, light)
+      await vi.advanceTimersByTimeAsync(0)
+
+      expect(light.callback).toHaveBeenCalledTimes(1)
+      expect(heavy.callback).not.toHaveBeenCalled()
+      expect(heavy.state.isQueued).toBe(true)
+    })
+
+    it("runs a deferred heavy hit while light hits keep arriving", async () => {
+      const { manager, entries } = setupBudgetTest(
+        { callbackBudget: 10, callbackBudgetWindow: 1000, callbackBudgetStrategy: "defer" },
+        [5, ...Array<number>(20).fill(1)]
+      )
+      const [heavy, ...lights] = entries as ForesightElementInternal[]
+      // A light hit every 100ms takes each unit of budget the moment it is freed
+      const fireLights = async (batch: ForesightElementInternal[]) => {
+        for (const light of batch) {
+          fire(manager, light)
+          await vi.advanceTimersByTimeAsync(100)
+        }
+      }
+
+      await fireLights(lights.slice(0, 10))
+      fire(manager, heavy!)
+      await fireLights(lights.slice(10))
+
+      expect(heavy!.callback).toHaveBeenCalledTimes(1)
+    })
+
+    it("spends each element's weight", () => {
+      const { manager, entries } = setupBudgetTest({ callbackBudget: 500 }, [300, 300, 200])
+      const [heavy, dropped, light] = entries as [
+        ForesightElementInternal,
+        ForesightElementInternal,
+        ForesightElementInternal,
+      ]
+
+      fire(manager, heavy)
+      fire(manager, dropped)
+      fire(manager, light)
+
+      expect(dropped.callback).not.toHaveBeenCalled()
+      expect(light.callback).toHaveBeenCalledTimes(1)
+      expect(manager.getManagerData.callbackBudgetUsage).toBe(500)
+    })
+
+    it("runs a hit heavier than the whole budget in an empty window", () => {
+      const { manager, entries } = setupBudgetTest({ callbackBudget: 10 }, [50])
+
+      fire(manager, entries[0]!)
+
+      expect(entries[0]!.callback).toHaveBeenCalledTimes(1)
+    })
+
+    it("never limits elements with a weight of 0", () => {
+      const { manager, entries } = setupBudgetTest({ callbackBudget: 1 }, [1, 0])
+
+      fire(manager, entries[0]!)
+      fire(manager, entries[1]!)
+
+      expect(entries[1]!.callback).toHaveBeenCalledTimes(1)
+      expect(manager.getManagerData.callbackBudgetUsage).toBe(1)
+    })
+
+    it("runs deferred hits when the budget is raised", () => {
+      const { manager, entries } = setupBudgetTest(
+        { callbackBudget: 1, callbackBudgetStrategy: "defer" },
+        [1, 1]
+      )
+
+      fire(manager, entries[0]!)
+      fire(manager, entries[1]!)
+      expect(entries[1]!.callback).not.toHaveBeenCalled()
+
+      manager.alterGlobalSettings({ callbackBudget: 2 })
+
+      expect(entries[1]!.callback).toHaveBeenCalledTimes(1)
+    })
+
+    it("tracks usage in getManagerData without a budget", async () => {
+      const { manager, entries } = setupBudgetTest({}, [1, 2])
+
+      fire(manager, entries[0]!)
+      fire(manager, entries[1]!)
+      expect(manager.getManagerData.callbackBudgetUsage).toBe(3)
+
+      await vi.advanceTimersByTimeAsync(60_000)
+      expect(manager.getManagerData.callbackBudgetUsage).toBe(0)
+    })
+  })
+
+  describe("Prediction confidence", () => {
+    it("reports the hit's confidence on callbackInvoked and in state", () => {
+      const manager = ForesightManager.initialize()
+      const element = createMockElement()
+      const invokedListener = vi.fn()
+      manager.addEventListener("callbackInvoked", invokedListener)
+      manager.register({ element, callback: vi.fn() })
+      const entry = getEntry(manager, element)
+      expect(entry.state.confidence).toBeUndefined()
+
+      // @ts-expect-error - accessing private method for tests
+      manager.callCallback(entry, { kind: "mouse", subType: "trajectory" }, 0.72)
+
+      expect(entry.state.confidence).toBe(0.72)
+      expect(invokedListener).toHaveBeenCalledWith(expect.objectContaining({ confidence: 0.72 }))
+    })
+
+    it("defaults to a confidence of 1 for unscored hits", () => {
+      const manager = ForesightManager.initialize()
+      const element = createMockElement()
+      const invokedListener = vi.fn()
+      manager.addEventListener("callbackInvoked", invokedListener)
+      manager.register({ element, callback: vi.fn() })
+
+      fire(manager, getEntry(manager, element))
+
+      expect(getEntry(manager, element).state.confidence).toBe(1)
+      expect(invokedListener).toHaveBeenCalledWith(expect.objectContaining({ confidence: 1 }))
+    })
+
+    it("keeps the confidence of a queued hit until it runs", () => {
+      const manager = ForesightManager.initialize({ maxConcurrentCallbacks: 1 })
+      const first = createMockElement("first")
+      const second = createMockElement("second")
+      const invokedListener = vi.fn()
+      manager.register({ element: first, callback: () => new Promise<void>(() => {}) })
+      manager.register({ element: second, callback: vi.fn() })
+      manager.addEventListener("callbackInvoked", invokedListener)
+
+      fire(manager, getEntry(manager, first))
+      // @ts-expect-error - accessing private method for tests
+      manager.callCallback(getEntry(manager, second), { kind: "mouse", subType: "trajectory" }, 0.4)
+      expect(getEntry(manager, second).state.confidence).toBe(0.4)
+
+      manager.unregister(first)
+
+      expect(invokedListener).toHaveBeenLastCalledWith(
+        expect.objectContaining({ element: second, confidence: 0.4 })
+      )
+    })
+
+    it("clamps minConfidence between 0 and 1 on register and update", () => {
+      const warnSpy = vi.spyOn(console, "warn").mockImplementation(() => {})
+      const manager = ForesightManager.initialize()
+      const element = createMockElement()
+
+      manager.register({ element, callback: vi.fn() })
+      expect(getEntry(manager, element).state.minConfidence).toBe(0)
+
+      manager.updateElementOptions(element, { minConfidence: 0.6 })
+      expect(getEntry(manager, element).state.minConfidence).toBe(0.6)
+
+      manager.updateElementOptions(element, { minConfidence: 3 })
+      expect(getEntry(manager, element).state.minConfidence).toBe(1)
+      expect(warnSpy).toHaveBeenCalledTimes(1)
+
+      warnSpy.mockRestore()
+    })
+  })
+
+  describe("Per-element settings", () => {
+    it("stores an empty override by default", () => {
+      const manager = ForesightManager.initialize()
+      const element = createMockElement()
+
+      manager.register({ element, callback: vi.fn() })
+
+      expect(getEntry(manager, element).state.settings).toEqual({})
+    })
+
+    it("clamps numeric overrides like the global settings", () => {
+      const warnSpy = vi.spyOn(console, "warn").mockImplementation(() => {})
+      const manager = ForesightManager.initialize()
+      const element = createMockElement()
+
+      manager.register({
+        element,
+        callback: vi.fn(),
+        settings: { trajectoryPredictionTime: 500, tabOffset: -1, enableScrollPrediction: false },
+      })
+
+      expect(getEntry(manager, element).state.settings).toEqual({
+        trajectoryPredictionTime: 200,
+        tabOffset: 0,
+        enableScrollPrediction: false,
+      })
+      expect(warnSpy).toHaveBeenCalledTimes(2)
+
+      warnSpy.mockRestore()
+    })
+
+    it("replaces the override on update, keeping the reference for equal content", () => {
+      const manager = ForesightManager.initialize()
+      const element = createMockElement()
+      manager.register({ element, callback: vi.fn(), settings: { scrollMargin: 80 } })
+      const before = getEntry(manager, element).state
+
+      manager.updateElementOptions(element, { settings: { scrollMargin: 80 } })
+      expect(getEntry(manager, element).state).toBe(before)
+
+      manager.updateElementOptions(element, { settings: { tabOffset: 5 } })
+      expect(getEntry(manager, element).state.settings).toEqual({ tabOffset: 5 })
+    })
+  })
+
+  describe("Scoped managers", () => {
+    it("creates a new, independent instance on every call", () => {
+      const global = ForesightManager.initialize()
+      const scopedA = ForesightManager.createScoped({ trajectoryPredictionTime: 50 })
+      const scopedB = ForesightManager.createScoped()
+
+      expect(scopedA).not.toBe(global)
+      expect(scopedA).not.toBe(scopedB)
+      expect(ForesightManager.instance).toBe(global)
+      expect(scopedA.getManagerData.globalSettings.trajectoryPredictionTime).toBe(50)
+      expect(global.getManagerData.globalSettings.trajectoryPredictionTime).not.toBe(50)
+    })
+
+    it("keeps registered elements and events separate", () => {
+      const global = ForesightManager.initialize()
+      const scoped = ForesightManager.createScoped()
+      const onRegistered = vi.fn()
+      global.addEventListener("elementRegistered", onRegistered)
+      const element = createMockElement()
+
+      scoped.register({ element, callback: vi.fn() })
+
+      expect(scoped.registeredElements.has(element)).toBe(true)
+      expect(global.registeredElements.has(element)).toBe(false)
+      expect(onRegistered).not.toHaveBeenCalled()
+    })
+  })
+
+  describe("Shadow DOM", () => {
+    const createShadowElement = () => {
+      const host = document.createElement("div")
+      document.body.appendChild(host)
+      const shadowRoot = host.attachShadow({ mode: "open" })
+      const element = document.createElement("button")
+      shadowRoot.appendChild(element)
+
+      return { host, shadowRoot, element }
+    }
+
+    it("tracks the shadow roots of registered elements", () => {
+      const manager = ForesightManager.initialize()
+      const { shadowRoot, element } = createShadowElement()
+
+      manager.register({ element, callback: vi.fn() })
+      const entry = getEntry(manager, element)
+      expect(entry.observedRoots).toEqual([shadowRoot])
+
+      manager.unregister(element)
+      expect(entry.observedRoots).toEqual([])
+    })
+
+    it("parks an element detached inside its shadow root and resumes it on reconnect", async () => {
+      vi.useRealTimers()
+      const manager = ForesightManager.initialize()
+      const { shadowRoot, element } = createShadowElement()
+      manager.register({ element, callback: vi.fn() })
+      const entry = getEntry(manager, element)
+
+      element.remove()
+      await vi.waitFor(() => {
+        expect(entry.state.isParked).toBe(true)
+      })
+
+      shadowRoot.appendChild(element)
+      await vi.waitFor(() => {
+        expect(entry.state.isParked).toBe(false)
+      })
+      expect(entry.state.isActive).toBe(true)
+      vi.useFakeTimers()
+    })
+
+    it("parks an element when its shadow host is removed", () => {
+      const manager = ForesightManager.initialize()
+      const { host, element } = createShadowElement()
+      manager.register({ element, callback: vi.fn() })
+
+      host.remove()
+      triggerDomCheck(manager, [], [host])
+
+      expect(getEntry(manager, element).state.isParked).toBe(true)
+    })
+
+    it("re-observes the new shadow root when an element moves between shadow trees", () => {
+      const manager = ForesightManager.initialize()
+      const first = createShadowElement()
+      const second = createShadowElement()
+      manager.register({ element: first.element, callback: vi.fn() })
+      const entry = getEntry(manager, first.element)
+
+      first.element.remove()
+      triggerDomCheck(manager, [], [first.element])
+      second.shadowRoot.appendChild(first.element)
+      triggerDomCheck(manager, [first.element])
+
+      expect(entry.state.isParked).toBe(false)
+      expect(entry.observedRoots).toEqual([second.shadowRoot])
+    })
+  })
+
+  describe("Same-origin iframes", () => {
+    const createFrameElement = () => {
+      const frame = document.createElement("iframe")
+      document.body.appendChild(frame)
+      frame.getBoundingClientRect = vi.fn(() => new DOMRectReadOnly(50, 100, 300, 200))
+      const frameDocument = frame.contentDocument!
+      const element = frameDocument.createElement("a")
+      frameDocument.body.appendChild(element)
+      element.getBoundingClientRect = vi.fn(() => new DOMRectReadOnly(10, 20, 30, 40))
+
+      return { frame, frameDocument, element }
+    }
+
+    it("maps the bounds of framed elements into top-level coordinates", () => {
+      const manager = ForesightManager.initialize()
+      const { element } = createFrameElement()
+
+      const result = manager.register({ element, callback: vi.fn() })
+
+      expect(result.getBounds().expandedRect).toEqual({
+        left: 60,
+        top: 120,
+        right: 90,
+        bottom: 160,
+      })
+    })
+
+    it("observes the frame document of framed elements", () => {
+      const manager = ForesightManager.initialize()
+      const { frameDocument, element } = createFrameElement()
+
+      manager.register({ element, callback: vi.fn() })
+
+      expect(getEntry(manager, element).observedRoots).toEqual([frameDocument])
+    })
+
+    it("parks framed elements when their frame is removed", () => {
+      const manager = ForesightManager.initialize()
+      const { frame, element } = createFrameElement()
+      manager.register({ element, callback: vi.fn() })
+
+      frame.remove()
+      triggerDomCheck(manager, [], [frame])
+
+      expect(getEntry(manager, element).state.isParked).toBe(true)
+    })
+  })
+
+  describe("Resource groups (resourceKey)", () => {
+    const setupGroup = (reactivateAfter: number = Infinity) => {
+      const manager = ForesightManager.initialize()
+      const [header, footer, card] = ["header", "footer", "card"].map(id => {
+        const element = createMockElement(id)
+        manager.register({ element, callback: vi.fn(), resourceKey: "/pricing", reactivateAfter })
+
+        return getEntry(manager, element)
+      }) as [ForesightElementInternal, ForesightElementInternal, ForesightElementInternal]
+
+      return { manager, header, footer, card }
+    }
+
+    it("runs only one callback and marks the whole group predicted", async () => {
+      const { manager, header, footer, card } = setupGroup()
+
+      fire(manager, header)
+      fire(manager, footer)
+      await vi.advanceTimersByTimeAsync(0)
+
+      expect(header.callback).toHaveBeenCalledTimes(1)
+      expect(footer.callback).not.toHaveBeenCalled()
+      expect(card.callback).not.toHaveBeenCalled()
+      for (const entry of [footer, card]) {
+        expect(entry.state.isPredicted).toBe(true)
+        expect(entry.state.isActive).toBe(false)
+        expect(entry.state.hitCount).toBe(0)
+      }
+    })
+
+    it("leaves elements with another or no resourceKey alone", () => {
+      const { manager, header } = setupGroup()
+      const other = createMockElement("other")
+      manager.register({ element: other, callback: vi.fn(), resourceKey: "/docs" })
+      const plain = createMockElement("plain")
+      manager.register({ element: plain, callback: vi.fn() })
+
+      fire(manager, header)
+
+      expect(getEntry(manager, other).state.isActive).toBe(true)
+      expect(getEntry(manager, plain).state.isActive).toBe(true)
+    })
+
+    it("reactivates the whole group after reactivateAfter", async () => {
+      const { manager, header, footer, card } = setupGroup(5000)
+
+      fire(manager, header)
+      await vi.advanceTimersByTimeAsync(5000)
+
+      for (const entry of [header, footer, card]) {
+        expect(entry.state.isPredicted).toBe(false)
+        expect(entry.state.isActive).toBe(true)
+      }
+    })
+
+    it("reactivates the whole group when one member is reactivated manually", async () => {
+      const { manager, header, card } = setupGroup()
+
+      fire(manager, header)
+      await vi.advanceTimersByTimeAsync(0)
+      manager.reactivate(card.element)
+
+      expect(header.state.isActive).toBe(true)
+      expect(card.state.isActive).toBe(true)
+    })
+
+    it("does not reactivate the group while the shared resource is loading", () => {
+      const { manager, header, card } = setupGroup()
+      header.callback = vi.fn(() => new Promise<void>(() => {}))
+
+      fire(manager, header)
+      manager.reactivate(card.element)
+
+      expect(card.state.isActive).toBe(false)
+    })
+
+    it("releases the group when the running callback is aborted", () => {
+      const { manager, header, footer } = setupGroup()
+      header.callback = vi.fn(() => new Promise<void>(() => {}))
+
+      fire(manager, header)
+      manager.unregister(header.element)
+
+      expect(footer.state.isPredicted).toBe(false)
+      expect(footer.state.isActive).toBe(true)
+    })
+
+    it("registers new members of a fired group as predicted", async () => {
+      const { manager, header } = setupGroup()
+      fire(manager, header)
+      await vi.advanceTimersByTimeAsync(0)
+
+      const late = createMockElement("late")
+      const result = manager.register({ element: late, callback: vi.fn(), resourceKey: "/pricing" })
+
+      expect(result.isPredicted).toBe(true)
+      expect(result.isActive).toBe(false)
+    })
+
+    it("still reactivates the group after the member that fired is unregistered", async () => {
+      const { manager, header, footer, card } = setupGroup(5000)
+
+      fire(manager, header)
+      await vi.advanceTimersByTimeAsync(2000)
+      manager.unregister(header.element)
+
+      await vi.advanceTimersByTimeAsync(2999)
+      expect(footer.state.isPredicted).toBe(true)
+
+      await vi.advanceTimersByTimeAsync(1)
+      for (const entry of [footer, card]) {
+        expect(entry.state.isPredicted).toBe(false)
+        expect(entry.state.isActive).toBe(true)
+      }
+    })
+
+    it("releases a member from its old group when its resourceKey changes", async () => {
+      const { manager, header, footer } = setupGroup()
+
+      fire(manager, header)
+      await vi.advanceTimersByTimeAsync(0)
+      manager.updateElementOptions(footer.element, { resourceKey: "/docs" })
+
+      expect(footer.state.isPredicted).toBe(false)
+      expect(footer.state.isActive).toBe(true)
+      expect(header.state.isPredicted).toBe(true)
+    })
+
+    it("keeps the group's reactivation when the member that fired changes its resourceKey", async () => {
+      const { manager, header, footer } = setupGroup(5000)
+
+      fire(manager, header)
+      await vi.advanceTimersByTimeAsync(0)
+      manager.updateElementOptions(header.element, { resourceKey: "/docs" })
+      await vi.advanceTimersByTimeAsync(5000)
+
+      expect(footer.state.isActive).toBe(true)
+      expect(header.state.isActive).toBe(true)
+    })
+  })
+
+  describe("Declarative registration", () => {
+    const createDeclarativeElement = (attributes: Record<string, string> = {}) => {
+      const element = createMockElement("declarative")
+      element.setAttribute("data-foresight", "")
+      for (const [name, value] of Object.entries(attributes)) {
+        element.setAttribute(name, value)
+      }
+
+      return element
+    }
+
+    const scanAdded = (manager: ForesightManager, added: Element[]) => {
+      // @ts-expect-error - private method invoked directly for tests
+      manager.handleDeclarativeMutations([
+        { type: "childList", addedNodes: added, removedNodes: [] } as unknown as MutationRecord,
+      ])
+    }
+
+    afterEach(() => {
+      // @ts-expect-error - accessing private static for test reset
+      ForesightManager.actions.clear()
+    })
+
+    it("registers marked elements present at initialization", () => {
+      const element = createDeclarativeElement({
+        "data-foresight-name": "pricing",
+        "data-foresight-hitslop": "20",
+      })
+
+      const manager = ForesightManager.initialize()
+
+      const state = manager.registeredElements.get(element)
+      expect(state?.name).toBe("pricing")
+      expect(state?.hitSlop).toEqual({ top: 20, right: 20, bottom: 20, left: 20 })
+      expect(getEntry(manager, element).isDeclarative).toBe(true)
+    })
+
+    it("registers marked elements added to the DOM later", () => {
+      const manager = ForesightManager.initialize()
+      const container = document.createElement("div")
+      const element = document.createElement("a")
+      element.setAttribute("data-foresight", "")
+      container.appendChild(element)
+      document.body.appendChild(container)
+
+      scanAdded(manager, [container])
+
+      expect(manager.registeredElements.has(element)).toBe(true)
+    })
+
+    it("leaves elements that are already registered untouched", () => {
+      const manager = ForesightManager.initialize()
+      const element = createDeclarativeElement()
+      const callback = vi.fn()
+      manager.unregister(element)
+      manager.register({ element, callback, name: "manual" })
+
+      scanAdded(manager, [element])
+
+      expect(getEntry(manager, element).callback).toBe(callback)
+      expect(getEntry(manager, element).isDeclarative).toBe(false)
+    })
+
+    it("runs the named action as the callback", async () => {
+      const action = vi.fn()
+      ForesightManager.defineAction("prefetchHref", action)
+      const element = createDeclarativeElement({ "data-foresight-action": "prefetchHref" })
+      const manager = ForesightManager.initialize()
+
+      fire(manager, getEntry(manager, element))
+
+      await vi.waitFor(() => {
+        expect(action).toHaveBeenCalledWith(
+          expect.objectContaining({ name: "declarative" }),
+          expect.any(AbortSignal),
+          element
+        )
+      })
+    })
+
+    it("resolves actions defined after the element was scanned", async () => {
+      const element = createDeclarativeElement({ "data-foresight-action": "late" })
+      const manager = ForesightManager.initialize()
+      const action = vi.fn()
+      ForesightManager.defineAction("late", action)
+
+      fire(manager, getEntry(manager, element))
+
+      await vi.waitFor(() => {
+        expect(action).toHaveBeenCalled()
+      })
+    })
+
+    it("warns when the referenced action is not defined", async () => {
+      const warnSpy = vi.spyOn(console, "warn").mockImplementation(() => {})
+      const element = createDeclarativeElement({ "data-foresight-action": "missing" })
+      const manager = ForesightManager.initialize()
+
+      fire(manager, getEntry(manager, element))
+
+      await vi.waitFor(() => {
+        expect(warnSpy).toHaveBeenCalledWith(expect.stringContaining('"missing"'))
+      })
+      warnSpy.mockRestore()
+    })
+
+    it("unregisters declarative elements removed from the DOM", () => {
+      const element = createDeclarativeElement()
+      const manager = ForesightManager.initialize()
+      const onUnregistered = vi.fn()
+      manager.addEventListener("elementUnregistered", onUnregistered)
+
+      element.remove()
+      triggerDomCheck(manager, [], [element])
+
+      expect(manager.registeredElements.has(element)).toBe(false)
+      expect(onUnregistered).toHaveBeenCalledWith(
+        expect.objectContaining({ unregisterReason: "disconnected" })
+      )
+    })
+
+    it("does not scan when scanDataAttributes is disabled", () => {
+      const element = createDeclarativeElement()
+
+      const manager = ForesightManager.initialize({ scanDataAttributes: false })
+
+      expect(manager.registeredElements.has(element)).toBe(false)
+    })
+
+    it("starts scanning when scanDataAttributes is enabled at runtime", () => {
+      const element = createDeclarativeElement()
+      const manager = ForesightManager.initialize({ scanDataAttributes: false })
+
+      manager.alterGlobalSettings({ scanDataAttributes: true })
+
+      expect(manager.registeredElements.has(element)).toBe(true)
+    })
+
+    it("does not scan in scoped managers by default", () => {
+      const element = createDeclarativeElement()
+
+      const scoped = ForesightManager.createScoped()
+
+      expect(scoped.registeredElements.has(element)).toBe(false)
+      expect(scoped.getManagerData.globalSettings.scanDataAttributes).toBe(false)
+    })
+  })
 })
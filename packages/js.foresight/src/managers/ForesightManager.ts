@@ -1,6 +1,9 @@
 import { DerivedMapView } from "../helpers/DerivedMapView"
+import { SpatialGrid } from "../helpers/SpatialGrid"
 import { devLogMessage } from "../helpers/devLog"
 import { areRectsEqual, getExpandedRect, normalizeHitSlop } from "../helpers/rectAndHitSlop"
+import { normalizeMinConfidence } from "../helpers/predictionConfidence"
+import { areRetryOptionsEqual, getRetryDelay, normalizeRetryOptions } from "../helpers/retry"
 import { hasConnectionLimitations, userUsesTouchDevice } from "../helpers/shouldRegister"
 import {
   createDefaultManagerSettings,
@@ -8,16 +11,26 @@ import {
   createInitialCallbackHits,
 } from "../helpers/createInitialState"
 import { applyDataAttributes, removeDataAttributes } from "../helpers/dataAttributes"
+import { getObservedRoots } from "../helpers/getObservedRoots"
+import { getTopLevelRect, isConnectedToTopDocument } from "../helpers/frames"
+import { findDeclarativeElements, readDeclarativeOptions } from "../helpers/declarativeRegistration"
 import { ForesightEventEmitter } from "../core/ForesightEventEmitter"
+import { sharedGlobalListeners, type GlobalListenerSubscriber } from "../core/SharedGlobalListeners"
 import type { ForesightModuleDependencies } from "../core/BaseForesightModule"
 import type { ElementObservingModule } from "../core/ElementObservingModule"
-import { applySettingsChanges } from "./SettingsManager"
+import {
+  applySettingsChanges,
+  areElementSettingsEqual,
+  normalizeElementSettings,
+} from "./SettingsManager"
 import type {
+  CallbackAbortReason,
   CallbackHits,
   CallbackHitType,
   callbackStatus,
   CurrentDeviceStrategy,
   ElementBounds,
+  ForesightCallback,
   ElementUnregisteredReason,
   ForesightElement,
   ForesightElementInternal,
@@ -31,6 +44,7 @@ import type {
   ForesightRegisterOptions,
   ForesightRegisterOptionsWithoutElement,
   ForesightRegisterResult,
+  RunningCallback,
   UpdateForsightManagerSettings,
 } from "../types/types"
 import type { DesktopHandler } from "./DesktopHandler"
@@ -39,22 +53,29 @@ import type { TouchDeviceHandler } from "./TouchDeviceHandler"
 /**
  * Manages the prediction of user intent based on mouse trajectory and element interactions.
  *
- * ForesightManager is a singleton class responsible for:
+ * Each ForesightManager instance, global or scoped, is responsible for:
  * - Registering HTML elements to monitor.
  * - Tracking mouse movements and predicting future cursor positions.
  * - Detecting when a predicted trajectory intersects with a registered element's bounds.
  * - Invoking callbacks associated with elements upon predicted or actual interaction.
  * - Deactivating elements after their callback completes, with optional reactivation via `reactivateAfter`.
+ * - Queueing callbacks by `priority` once `maxConcurrentCallbacks` callbacks are running.
+ * - Aborting a running callback's `AbortSignal` when the element is unregistered, parked or the user's intent is lost.
  * - Handling global settings for prediction behavior (e.g., history size, prediction time).
  * - Delegating element bounds observation to device handlers ({@link DesktopHandler}, {@link TouchDeviceHandler}).
  * - Automatically unregistering elements removed from the DOM using {@link MutationObserver}.
+ * - Registering elements marked with `data-foresight` attributes (see {@link ForesightManager.defineAction}).
  * - Detecting broader layout shifts via {@link MutationObserver} to update element positions.
  *
- * It should be initialized once using {@link ForesightManager.initialize} and then
- * accessed via the static getter {@link ForesightManager.instance}.
+ * The global instance should be initialized once using {@link ForesightManager.initialize}
+ * and then accessed via the static getter {@link ForesightManager.instance}. Independent
+ * instances with their own settings and elements can be created with
+ * {@link ForesightManager.createScoped}; all instances share the document-level listeners.
  */
 export class ForesightManager {
   private static manager: ForesightManager
+  /** Named callbacks referenced by `data-foresight-action`, shared by all managers. */
+  private static actions: Map<string, ForesightCallback> = new Map()
 
   /** Internal entries containing full element data, callbacks, and subscribers. */
   private elementEntries: Map<ForesightElement, ForesightElementInternal> = new Map()
@@ -62,8 +83,27 @@ export class ForesightManager {
   public readonly registeredElements: ReadonlyMap<ForesightElement, ForesightElementState> =
     new DerivedMapView(this.elementEntries, (entry: ForesightElementInternal) => entry.state)
 
+  /** Visible, active elements by their `expandedRect`, queried by mouse hit testing. */
+  private elementIndex = new SpatialGrid<ForesightElementInternal>()
+  private runningElements: Set<ForesightElementInternal> = new Set()
+  /** Focus traps registered with {@link registerFocusScope}, oldest first. */
+  private focusScopes: Element[] = []
+
   private idCounter: number = 0
 
+  /** Elements whose hit is waiting for a free callback slot, in hit order. */
+  private callbackQueue: ForesightElementInternal[] = []
+  private runningCallbackCount: number = 0
+  /** Callbacks started within the current `callbackBudgetWindow`, oldest first. */
+  private budgetSpends: { startedAt: number; weight: number }[] = []
+  /** Pending timer that retries deferred hits once budget is freed. */
+  private budgetTimeoutId: ReturnType<typeof setTimeout> | undefined
+  /**
+   * Elements whose hit was dropped for lack of budget since the last refill.
+   * Trajectory hits repeat every frame, so further drops stay silent until then.
+   */
+  private budgetDroppedElements: Set<ForesightElementInternal> = new Set()
+
   private desktopHandler: DesktopHandler | null = null
   private touchDeviceHandler: TouchDeviceHandler | null = null
   private currentlyActiveHandler: ElementObservingModule | null = null
@@ -72,7 +112,13 @@ export class ForesightManager {
   private isSetup: boolean = false
   private pendingPointerEvent: PointerEvent | null = null
   private rafId: number | null = null
-  private domObserver: MutationObserver | null = null
+  private globalListenerSubscriber: GlobalListenerSubscriber
+  /**
+   * Subscribed separately from {@link globalListenerSubscriber} so scanning for
+   * `data-foresight` elements doesn't keep the prediction listeners alive.
+   */
+  private declarativeScanSubscriber: GlobalListenerSubscriber
+  private isScanningDataAttributes: boolean = false
   private currentDeviceStrategy: CurrentDeviceStrategy = userUsesTouchDevice() ? "touch" : "mouse"
 
   private eventEmitter = new ForesightEventEmitter()
@@ -87,16 +133,34 @@ export class ForesightManager {
     this.handlerDependencies = {
       elements: this.elementEntries,
       callCallback: this.callCallback.bind(this),
+      abortCallback: this.abortCallback.bind(this),
       emit: this.eventEmitter.emit.bind(this.eventEmitter),
       hasListeners: this.eventEmitter.hasListeners.bind(this.eventEmitter),
       updateElementState: this.updateElementState.bind(this),
       updateElementBounds: this.updateElementBounds.bind(this),
+      elementIndex: this.elementIndex,
+      runningElements: this.runningElements,
+      focusScopes: this.focusScopes,
       settings: this._globalSettings,
     }
 
+    this.globalListenerSubscriber = {
+      handlePointerMove: this.handlePointerMove,
+      handleDomMutations: this.handleDomMutations,
+    }
+
+    this.declarativeScanSubscriber = {
+      handlePointerMove: () => {},
+      handleDomMutations: this.handleDeclarativeMutations,
+    }
+
     // Handlers are created lazily when first needed as of 3.4.0
     this.devLog(`ForesightManager initialized with device strategy: ${this.currentDeviceStrategy}`)
     this.initializeGlobalListeners()
+
+    if (this._globalSettings.scanDataAttributes) {
+      this.startDataAttributeScan()
+    }
   }
 
   private async getOrCreateDesktopHandler(): Promise<DesktopHandler> {
@@ -127,6 +191,29 @@ export class ForesightManager {
     return ForesightManager.manager
   }
 
+  /**
+   * Creates an independent manager with its own settings, event listeners and
+   * registered elements, e.g. one per micro-frontend. Unlike {@link initialize},
+   * every call returns a new instance. The document-level `pointermove` listener
+   * and MutationObserver are shared with all other managers on the page.
+   *
+   * Scoped managers don't register `data-foresight` elements unless
+   * `scanDataAttributes` is passed explicitly, as the global manager already does.
+   */
+  public static createScoped(props?: Partial<UpdateForsightManagerSettings>): ForesightManager {
+    return new ForesightManager({ scanDataAttributes: false, ...props })
+  }
+
+  /**
+   * Registers a named callback that elements registered through `data-foresight`
+   * attributes reference with `data-foresight-action="<name>"`. Actions are looked
+   * up when the callback runs, so they can be defined before or after the
+   * elements are scanned. Defining an existing name replaces it.
+   */
+  public static defineAction(name: string, callback: ForesightCallback): void {
+    ForesightManager.actions.set(name, callback)
+  }
+
   public static get isInitiated(): Readonly<boolean> {
     return !!ForesightManager.manager
   }
@@ -241,6 +328,7 @@ export class ForesightManager {
       currentDeviceStrategy: this.currentDeviceStrategy,
       activeElementCount: this.activeElementCount,
       parkedElementCount: this.parkedElementCount,
+      callbackBudgetUsage: this.getCallbackBudgetUsage(),
       loadedModules: this.getLoadedModulesSnapshot(),
     }
   }
@@ -255,9 +343,11 @@ export class ForesightManager {
       predictors: {
         mouse: desktopPredictors?.mouse ?? false,
         tab: desktopPredictors?.tab ?? false,
+        arrowKey: desktopPredictors?.arrowKey ?? false,
         scroll: desktopPredictors?.scroll ?? false,
         viewport: touchPredictors?.viewport ?? false,
         touchStart: touchPredictors?.touchStart ?? false,
+        scrollLanding: touchPredictors?.scrollLanding ?? false,
       },
     }
   }
@@ -298,14 +388,20 @@ export class ForesightManager {
       this.initializeGlobalListeners()
     }
 
+    const id = this.generateId()
     const entry = createElementInternal(
       options,
-      this.generateId(),
+      id,
+      this.idCounter,
       this._globalSettings.defaultHitSlop,
       isLimitedConnection
     )
 
     this.elementEntries.set(options.element, entry)
+    this.syncElementIndex(entry)
+    this.observeRoots(entry)
+
+    this.joinFiredResourceGroup(entry)
 
     if (this._globalSettings.setDataAttributes) {
       applyDataAttributes(entry.element, entry.state)
@@ -317,6 +413,10 @@ export class ForesightManager {
       this.currentlyActiveHandler?.observeElement(options.element)
     }
 
+    if (options.settings !== undefined) {
+      this.syncPredictors()
+    }
+
     this.eventEmitter.emit({
       type: "elementRegistered",
       timestamp: Date.now(),
@@ -375,7 +475,7 @@ export class ForesightManager {
       const normalized = normalizeHitSlop(options.hitSlop)
       if (!areRectsEqual(normalized, hitSlop)) {
         hitSlop = normalized
-        const originalRect = element.getBoundingClientRect()
+        const originalRect = getTopLevelRect(element)
         this.updateElementBounds(entry, {
           originalRect,
           expandedRect: getExpandedRect(originalRect, hitSlop),
@@ -383,15 +483,57 @@ export class ForesightManager {
       }
     }
 
+    // Same for the settings override: only a content change swaps the reference
+    const prevSettings = entry.state.settings
+    let settings = prevSettings
+    if (options.settings !== undefined) {
+      const normalized = normalizeElementSettings(options.settings)
+      if (!areElementSettingsEqual(normalized, settings)) {
+        settings = normalized
+      }
+    }
+
+    let retry = entry.state.retry
+    if (options.retry !== undefined) {
+      const normalized = normalizeRetryOptions(options.retry)
+      if (!areRetryOptionsEqual(normalized, retry)) {
+        retry = normalized
+      }
+    }
+
+    const prevResourceKey = entry.state.resourceKey
+    const resourceKey = options.resourceKey ?? prevResourceKey
+    if (resourceKey !== prevResourceKey) {
+      this.leaveResourceGroup(entry)
+    }
+
     const prevReactivateAfter = entry.state.reactivateAfter
     const reactivateAfter = options.reactivateAfter ?? prevReactivateAfter
-    const next = this.updateElementState(entry, {
+    let next = this.updateElementState(entry, {
       name: options.name || entry.state.name,
       meta: options.meta ?? entry.state.meta,
       reactivateAfter,
+      abortAfterIntentLost: options.abortAfterIntentLost ?? entry.state.abortAfterIntentLost,
       hitSlop,
+      priority: options.priority ?? entry.state.priority,
+      minConfidence:
+        options.minConfidence !== undefined
+          ? normalizeMinConfidence(options.minConfidence)
+          : entry.state.minConfidence,
+      settings,
+      resourceKey,
+      retry,
+      weight: options.weight !== undefined ? Math.max(0, options.weight) : entry.state.weight,
     })
 
+    if (resourceKey !== prevResourceKey) {
+      next = this.joinFiredResourceGroup(entry)
+    }
+
+    if (settings !== prevSettings) {
+      this.syncPredictors()
+    }
+
     // Only clear and reschedule the reactivation timeout if reactivateAfter actually changed
     if (reactivateAfter !== prevReactivateAfter) {
       if (entry.reactivateTimeoutId !== undefined) {
@@ -399,9 +541,7 @@ export class ForesightManager {
       }
 
       if (reactivateAfter !== Infinity && next.isPredicted) {
-        entry.reactivateTimeoutId = setTimeout(() => {
-          this.reactivate(element)
-        }, reactivateAfter)
+        this.scheduleReactivation(entry, reactivateAfter)
       }
     }
 
@@ -447,6 +587,7 @@ export class ForesightManager {
 
     const next = { ...current, ...patch }
     entry.state = next
+    this.syncElementIndex(entry)
 
     if (this._globalSettings.setDataAttributes) {
       applyDataAttributes(entry.element, next)
@@ -482,6 +623,7 @@ export class ForesightManager {
     }
 
     entry.bounds = next
+    this.syncElementIndex(entry)
     for (const listener of entry.boundsSubscribers) {
       try {
         listener()
@@ -493,6 +635,33 @@ export class ForesightManager {
     return next
   }
 
+  /**
+   * Keep {@link elementIndex} and {@link runningElements} in step with an
+   * element's state and bounds. Only visible, active elements are indexed.
+   * Elements with their own `trajectoryPredictionTime` can be crossed outside
+   * the area the global prediction covers, so they match every query.
+   */
+  private syncElementIndex(entry: ForesightElementInternal): void {
+    const { isRegistered, isActive, isIntersectingWithViewport, isCallbackRunning, settings } =
+      entry.state
+    if (isRegistered && isCallbackRunning) {
+      this.runningElements.add(entry)
+    } else {
+      this.runningElements.delete(entry)
+    }
+
+    if (!isRegistered || !isActive || !isIntersectingWithViewport) {
+      this.elementIndex.delete(entry)
+
+      return
+    }
+
+    this.elementIndex.set(
+      entry,
+      settings.trajectoryPredictionTime === undefined ? entry.bounds.expandedRect : null
+    )
+  }
+
   public unregister(
     element: ForesightElement | NodeListOf<ForesightElement>,
     unregisterReason?: ElementUnregisteredReason
@@ -513,7 +682,15 @@ export class ForesightManager {
       return
     }
 
+    this.abortCallback(entry, "unregistered")
+    this.budgetDroppedElements.delete(entry)
+    this.passOnGroupReactivation(entry)
     this.clearReactivateTimeout(entry)
+    this.removeFromCallbackQueue(entry)
+    if (entry.state.isQueued) {
+      this.releaseResourceGroup(entry)
+    }
+
     this.currentlyActiveHandler?.unobserveElement(element)
 
     const finalState = this.updateElementState(entry, {
@@ -522,9 +699,11 @@ export class ForesightManager {
       isParked: false,
       isPredicted: false,
       isCallbackRunning: false,
+      isQueued: false,
     })
 
     this.elementEntries.delete(element)
+    this.unobserveRoots(entry)
     entry.subscribers.clear()
     entry.boundsSubscribers.clear()
 
@@ -532,6 +711,12 @@ export class ForesightManager {
       removeDataAttributes(element)
     }
 
+    const { enableTabPrediction, enableScrollPrediction, touchDeviceStrategy } =
+      entry.state.settings
+    if (enableTabPrediction || enableScrollPrediction || touchDeviceStrategy !== undefined) {
+      this.syncPredictors()
+    }
+
     const wasLastRegisteredElement = this.elementEntries.size === 0 && this.isSetup
     if (wasLastRegisteredElement) {
       this.devLog("All elements unregistered, removing global listeners")
@@ -556,9 +741,51 @@ export class ForesightManager {
     }
   }
 
+  /**
+   * Confine Tab prediction to `element` while focus is trapped inside it, e.g.
+   * by a custom modal or drawer. Open modal `<dialog>` elements and `inert`
+   * regions are detected automatically and don't need registering.
+   * The most recently registered scope that is still in the document wins.
+   *
+   * @returns A function that removes the scope again.
+   */
+  public registerFocusScope(element: Element): () => void {
+    this.focusScopes.push(element)
+    this.desktopHandler?.invalidateTabCache()
+
+    return () => {
+      const index = this.focusScopes.indexOf(element)
+      if (index === -1) {
+        return
+      }
+
+      this.focusScopes.splice(index, 1)
+      this.desktopHandler?.invalidateTabCache()
+    }
+  }
+
   private reactivateElement(element: ForesightElement): void {
     const entry = this.elementEntries.get(element)
-    if (!entry || !entry.state.isEnabled) {
+    if (!entry) {
+      return
+    }
+
+    // A resource group is reactivated as a whole, but not while one of its
+    // members is still loading the shared resource.
+    const group = this.getResourceGroup(entry)
+    if (group.length > 1 && group.some(member => member.state.isCallbackRunning)) {
+      return
+    }
+
+    for (const member of group) {
+      this.reactivateEntry(member)
+    }
+  }
+
+  private reactivateEntry(entry: ForesightElementInternal): void {
+    const { element } = entry
+    // A parked element resumes its own reactivation once it reconnects
+    if (!entry.state.isEnabled || entry.state.isParked) {
       return
     }
 
@@ -572,8 +799,16 @@ export class ForesightManager {
       return
     }
 
-    this.updateElementState(entry, { isActive: true, isPredicted: false })
+    entry.isPredictedByResourceGroup = false
+    const state = this.updateElementState(entry, { isActive: true, isPredicted: false })
     this.currentlyActiveHandler?.observeElement(element)
+
+    this.eventEmitter.emit({
+      type: "elementReactivated",
+      element,
+      state,
+      timestamp: Date.now(),
+    })
   }
 
   /**
@@ -603,50 +838,365 @@ export class ForesightManager {
 
       this.currentlyActiveHandler?.observeElement(element)
     } else {
+      this.passOnGroupReactivation(entry)
       this.clearReactivateTimeout(entry)
+      this.removeFromCallbackQueue(entry)
+      if (entry.state.isQueued) {
+        this.releaseResourceGroup(entry)
+      }
+
       this.currentlyActiveHandler?.unobserveElement(element)
     }
 
+    entry.isPredictedByResourceGroup = false
     this.updateElementState(entry, {
       isEnabled: enabled,
       isActive,
       isPredicted: false,
       isCallbackRunning: false,
+      isQueued: false,
     })
 
     // Disabling the last active element leaves nothing to predict on.
     this.removeGlobalListenersIfIdle()
   }
 
+  /** All registered elements sharing the entry's `resourceKey`, including the entry itself. */
+  private getResourceGroup(entry: ForesightElementInternal): ForesightElementInternal[] {
+    const { resourceKey } = entry.state
+    if (resourceKey === undefined) {
+      return [entry]
+    }
+
+    return Array.from(this.elementEntries.values()).filter(
+      other => other.state.resourceKey === resourceKey
+    )
+  }
+
+  /**
+   * Mark the other active members of the entry's resource group as predicted
+   * without running their callback, since the entry is already loading the
+   * shared resource. They stay inactive until the group is reactivated.
+   */
+  private markResourceGroupPredicted(entry: ForesightElementInternal): void {
+    for (const member of this.getResourceGroup(entry)) {
+      if (member === entry || !member.state.isActive || member.state.isCallbackRunning) {
+        continue
+      }
+
+      this.clearReactivateTimeout(member)
+      this.removeFromCallbackQueue(member)
+      this.currentlyActiveHandler?.unobserveElement(member.element)
+      member.isPredictedByResourceGroup = true
+      this.updateElementState(member, { isActive: false, isPredicted: true, isQueued: false })
+    }
+  }
+
+  /** Join a resource group that already fired instead of loading the resource again. */
+  private joinFiredResourceGroup(entry: ForesightElementInternal): ForesightElementState {
+    const group = this.getResourceGroup(entry)
+    if (!entry.state.isActive || !group.some(member => member.state.isPredicted)) {
+      return entry.state
+    }
+
+    this.currentlyActiveHandler?.unobserveElement(entry.element)
+    entry.isPredictedByResourceGroup = true
+
+    return this.updateElementState(entry, { isActive: false, isPredicted: true })
+  }
+
+  /**
+   * Detach the entry from its current resource group before its `resourceKey`
+   * changes. A member that is only predicted because of the group resumes, and
+   * a pending group reactivation stays with the members left behind.
+   */
+  private leaveResourceGroup(entry: ForesightElementInternal): void {
+    if (entry.isPredictedByResourceGroup && entry.state.isPredicted) {
+      this.reactivateEntry(entry)
+
+      return
+    }
+
+    this.passOnGroupReactivation(entry)
+  }
+
+  /**
+   * Only the member whose callback ran holds the group's reactivation timer.
+   * Hand the time left on it to another predicted member before the entry
+   * leaves the group, otherwise the rest would stay predicted for good.
+   */
+  private passOnGroupReactivation(entry: ForesightElementInternal): void {
+    if (entry.reactivateAt === undefined) {
+      return
+    }
+
+    const others = this.getResourceGroup(entry).filter(member => member !== entry)
+    if (others.some(member => member.reactivateTimeoutId !== undefined)) {
+      return
+    }
+
+    const successor = others.find(member => member.state.isPredicted && !member.state.isParked)
+    if (successor) {
+      this.scheduleReactivation(successor, Math.max(0, entry.reactivateAt - Date.now()))
+    }
+  }
+
+  /**
+   * Reactivate the rest of the entry's resource group when its hit is dropped
+   * (aborted or removed from the queue) before the shared resource loaded.
+   */
+  private releaseResourceGroup(entry: ForesightElementInternal): void {
+    for (const member of this.getResourceGroup(entry)) {
+      if (member !== entry && member.state.isPredicted && !member.state.isCallbackRunning) {
+        this.reactivateEntry(member)
+      }
+    }
+  }
+
+  private scheduleReactivation(entry: ForesightElementInternal, delay: number): void {
+    clearTimeout(entry.reactivateTimeoutId)
+    entry.reactivateAt = Date.now() + delay
+    entry.reactivateTimeoutId = setTimeout(() => {
+      this.reactivate(entry.element)
+    }, delay)
+  }
+
   private clearReactivateTimeout(entry: ForesightElementInternal): void {
     clearTimeout(entry.reactivateTimeoutId)
     entry.reactivateTimeoutId = undefined
+    entry.reactivateAt = undefined
   }
 
-  private callCallback(entry: ForesightElementInternal, callbackHitType: CallbackHitType): void {
+  private callCallback(
+    entry: ForesightElementInternal,
+    callbackHitType: CallbackHitType,
+    confidence: number = 1
+  ): void {
     if (entry.state.isPredicted || !entry.state.isActive) {
       return
     }
 
-    this.markElementAsRunning(entry)
-    this.executeCallbackAsync(entry, callbackHitType)
+    if (!this.hasBudgetFor(entry) || this.isBudgetHeldBack(entry)) {
+      this.handleBudgetExceeded(entry, callbackHitType, confidence)
+
+      return
+    }
+
+    this.markResourceGroupPredicted(entry)
+
+    if (this.runningCallbackCount >= this._globalSettings.maxConcurrentCallbacks) {
+      this.enqueueCallback(entry, callbackHitType, confidence)
+
+      return
+    }
+
+    this.markElementAsRunning(entry, confidence)
+    this.executeCallbackAsync(entry, callbackHitType, 0)
+  }
+
+  /**
+   * Budget spent within the current `callbackBudgetWindow`. Spends that fell
+   * out of the window are dropped on the way.
+   */
+  private getCallbackBudgetUsage(): number {
+    const windowStart = Date.now() - this._globalSettings.callbackBudgetWindow
+    while (this.budgetSpends.length > 0 && this.budgetSpends[0]!.startedAt <= windowStart) {
+      this.budgetSpends.shift()
+    }
+
+    return this.budgetSpends.reduce((usage, spend) => usage + spend.weight, 0)
   }
 
-  private markElementAsRunning(entry: ForesightElementInternal): void {
+  /**
+   * Whether the element's callback may start without exceeding the budget. A
+   * single hit always fits an empty window, so an element heavier than the
+   * whole budget can't be blocked forever.
+   */
+  private hasBudgetFor(entry: ForesightElementInternal): boolean {
+    const usage = this.getCallbackBudgetUsage()
+
+    return (
+      entry.state.weight === 0 ||
+      usage === 0 ||
+      usage + entry.state.weight <= this._globalSettings.callbackBudget
+    )
+  }
+
+  /**
+   * Whether a queued hit that doesn't rank below the element is waiting for
+   * budget. New hits don't spend the budget it waits for, or a steady stream of
+   * light hits could keep it from ever running.
+   */
+  private isBudgetHeldBack(entry: ForesightElementInternal): boolean {
+    if (this.callbackQueue.length === 0) {
+      return false
+    }
+
+    const next = this.getNextQueuedCallback()
+
+    return (
+      next !== undefined && next.state.priority >= entry.state.priority && !this.hasBudgetFor(next)
+    )
+  }
+
+  private handleBudgetExceeded(
+    entry: ForesightElementInternal,
+    callbackHitType: CallbackHitType,
+    confidence: number
+  ): void {
+    const strategy = this._globalSettings.callbackBudgetStrategy
+    if (strategy === "drop") {
+      if (this.budgetDroppedElements.has(entry)) {
+        return
+      }
+
+      this.budgetDroppedElements.add(entry)
+      this.scheduleBudgetRefill()
+    }
+
+    this.devLog(
+      `Callback budget exceeded, ${strategy === "drop" ? "dropping" : "deferring"} ${entry.state.name}`
+    )
+
+    if (strategy === "defer") {
+      this.markResourceGroupPredicted(entry)
+      this.enqueueCallback(entry, callbackHitType, confidence)
+      this.scheduleBudgetRefill()
+    }
+
+    this.eventEmitter.emit({
+      type: "budgetExceeded",
+      timestamp: Date.now(),
+      element: entry.element,
+      state: entry.state,
+      hitType: callbackHitType,
+      strategy,
+      budgetUsage: this.getCallbackBudgetUsage(),
+    })
+  }
+
+  /**
+   * Retry the callback queue once the oldest spend leaves the budget window, and
+   * let dropped elements report their next drop again.
+   */
+  private scheduleBudgetRefill(): void {
+    const oldest = this.budgetSpends[0]
+    if (this.budgetTimeoutId !== undefined || !oldest) {
+      return
+    }
+
+    const delay = oldest.startedAt + this._globalSettings.callbackBudgetWindow - Date.now()
+    this.budgetTimeoutId = setTimeout(
+      () => {
+        this.budgetTimeoutId = undefined
+        this.budgetDroppedElements.clear()
+        this.runQueuedCallbacks()
+      },
+      Math.max(0, delay)
+    )
+  }
+
+  /**
+   * Park a hit until a callback slot frees up. The element is marked predicted
+   * right away so further hits on it are ignored while it waits.
+   */
+  private enqueueCallback(
+    entry: ForesightElementInternal,
+    callbackHitType: CallbackHitType,
+    confidence: number
+  ): void {
+    this.clearReactivateTimeout(entry)
+
+    entry.queuedHitType = callbackHitType
+    entry.queuedAt = performance.now()
+    this.callbackQueue.push(entry)
+
+    this.updateElementState(entry, { isPredicted: true, isQueued: true, confidence })
+  }
+
+  /**
+   * Drop an element from the callback queue without running it. Callers reset
+   * `isQueued` / `isPredicted` as part of their own state patch.
+   */
+  private removeFromCallbackQueue(entry: ForesightElementInternal): void {
+    const index = this.callbackQueue.indexOf(entry)
+    if (index === -1) {
+      return
+    }
+
+    this.callbackQueue.splice(index, 1)
+    entry.queuedHitType = undefined
+    entry.queuedAt = undefined
+  }
+
+  /**
+   * The queued hit to run next: the highest `priority`, and as the queue is in
+   * hit order, first-come first-served on ties. A hit heavier than the whole
+   * `callbackBudget` only fits an empty window, so lighter hits may pass it
+   * until then; any other hit holds the queue until it fits.
+   */
+  private getNextQueuedCallback(): ForesightElementInternal | undefined {
+    let next: ForesightElementInternal | undefined
+    for (const entry of this.callbackQueue) {
+      if (next && entry.state.priority <= next.state.priority) {
+        continue
+      }
+
+      if (entry.state.weight <= this._globalSettings.callbackBudget || this.hasBudgetFor(entry)) {
+        next = entry
+      }
+    }
+
+    return next
+  }
+
+  /** Start queued callbacks while slots and budget are free, see {@link getNextQueuedCallback}. */
+  private runQueuedCallbacks(): void {
+    while (this.runningCallbackCount < this._globalSettings.maxConcurrentCallbacks) {
+      const next = this.getNextQueuedCallback()
+      if (!next || !this.hasBudgetFor(next)) {
+        if (this.callbackQueue.length > 0) {
+          this.scheduleBudgetRefill()
+        }
+
+        return
+      }
+
+      const { queuedHitType, queuedAt } = next
+      this.removeFromCallbackQueue(next)
+      if (queuedHitType === undefined || queuedAt === undefined) {
+        continue
+      }
+
+      this.markElementAsRunning(next, next.state.confidence ?? 1)
+      this.executeCallbackAsync(next, queuedHitType, performance.now() - queuedAt)
+    }
+  }
+
+  private markElementAsRunning(entry: ForesightElementInternal, confidence: number): void {
     this.clearReactivateTimeout(entry)
 
     entry.invokedAt = Date.now()
+    this.runningCallbackCount++
+
+    if (entry.state.weight > 0) {
+      this.budgetSpends.push({ startedAt: entry.invokedAt, weight: entry.state.weight })
+    }
 
     this.updateElementState(entry, {
       isPredicted: true,
       isCallbackRunning: true,
+      isQueued: false,
       hitCount: entry.state.hitCount + 1,
+      attempt: 1,
+      confidence,
     })
   }
 
   private async executeCallbackAsync(
     entry: ForesightElementInternal,
-    callbackHitType: CallbackHitType
+    callbackHitType: CallbackHitType,
+    queueWaitMs: number
   ): Promise<void> {
     this.updateHitCounters(callbackHitType)
 
@@ -656,46 +1206,165 @@ export class ForesightManager {
       element: entry.element,
       state: entry.state,
       hitType: callbackHitType,
+      confidence: entry.state.confidence ?? 1,
     })
 
-    const start = performance.now()
+    const run: RunningCallback = {
+      controller: new AbortController(),
+      hitType: callbackHitType,
+      startTime: performance.now(),
+      queueWaitMs,
+    }
+    entry.runningCallback = run
+
+    await this.runCallbackAttempt(entry, run)
+  }
+
+  /**
+   * Run a single attempt of the element's callback. A failed attempt schedules
+   * the next one while attempts are left, keeping the run (and its slot) alive
+   * during the backoff; only the last failed attempt completes with `"error"`.
+   */
+  private async runCallbackAttempt(
+    entry: ForesightElementInternal,
+    run: RunningCallback
+  ): Promise<void> {
     let errorMessage: string | null = null
 
+    const timeout = entry.state.settings.callbackTimeout ?? this._globalSettings.callbackTimeout
+    if (timeout !== Infinity) {
+      run.timeoutId = setTimeout(() => this.timeoutCallback(entry, timeout), timeout)
+    }
+
     try {
-      await entry.callback(entry.state)
+      await entry.callback(entry.state, run.controller.signal, entry.element)
     } catch (error) {
-      errorMessage = error instanceof Error ? error.message : String(error)
-      console.error(`Error in callback for element ${entry.state.name}:`, error)
+      if (!run.controller.signal.aborted) {
+        errorMessage = error instanceof Error ? error.message : String(error)
+        console.error(`Error in callback for element ${entry.state.name}:`, error)
+      }
+    }
+
+    // An aborted or timed out run was already finalized; ignore its late settle.
+    if (run.controller.signal.aborted) {
+      return
+    }
+
+    clearTimeout(run.timeoutId)
+    run.timeoutId = undefined
+
+    const { attempt, retry } = entry.state
+    if (errorMessage !== null && attempt < retry.maxAttempts) {
+      this.scheduleRetry(entry, run, attempt, errorMessage)
+
+      return
     }
 
     const status: callbackStatus = errorMessage !== null ? "error" : "success"
-    this.finalizeCallback(entry, callbackHitType, start, status, errorMessage)
+    this.finalizeCallback(entry, run, status, errorMessage, null)
+  }
+
+  private scheduleRetry(
+    entry: ForesightElementInternal,
+    run: RunningCallback,
+    attempt: number,
+    errorMessage: string
+  ): void {
+    const delay = getRetryDelay(entry.state.retry, attempt)
+    this.devLog(`Retrying callback for ${entry.state.name} in ${Math.round(delay)}ms`)
+
+    run.retryTimeoutId = setTimeout(() => {
+      run.retryTimeoutId = undefined
+      this.updateElementState(entry, { attempt: attempt + 1 })
+      this.runCallbackAttempt(entry, run)
+    }, delay)
+
+    this.eventEmitter.emit({
+      type: "callbackRetryScheduled",
+      timestamp: Date.now(),
+      element: entry.element,
+      state: entry.state,
+      hitType: run.hitType,
+      attempt,
+      delay,
+      errorMessage,
+    })
+  }
+
+  /**
+   * Abort the element's running callback (if any) and complete it right away
+   * with the `"aborted"` status. The callback may keep running if it ignores
+   * its signal, but whatever it settles with later is discarded.
+   */
+  private abortCallback(entry: ForesightElementInternal, abortReason: CallbackAbortReason): void {
+    const run = entry.runningCallback
+    if (!run) {
+      return
+    }
+
+    this.devLog(`Aborting callback for ${entry.state.name} (${abortReason})`)
+    run.controller.abort(abortReason)
+    this.finalizeCallback(entry, run, "aborted", null, abortReason)
+  }
+
+  /**
+   * Abort a callback that exceeded its `callbackTimeout` and complete it with
+   * the `"timeout"` status. Unlike an abort the element is treated as spent.
+   */
+  private timeoutCallback(entry: ForesightElementInternal, timeout: number): void {
+    const run = entry.runningCallback
+    if (!run) {
+      return
+    }
+
+    this.devLog(`Callback for ${entry.state.name} timed out after ${timeout}ms`)
+    run.controller.abort("timeout")
+    this.finalizeCallback(entry, run, "timeout", `Callback timed out after ${timeout}ms`, "timeout")
   }
 
   private finalizeCallback(
     entry: ForesightElementInternal,
-    callbackHitType: CallbackHitType,
-    startTime: number,
+    run: RunningCallback,
     status: callbackStatus,
-    errorMessage: string | null
+    errorMessage: string | null,
+    abortReason: CallbackAbortReason | null
   ): void {
-    const elapsed = performance.now() - startTime
-
-    this.currentlyActiveHandler?.unobserveElement(entry.element)
+    const elapsed = performance.now() - run.startTime
+    this.runningCallbackCount--
+    entry.runningCallback = undefined
+    clearTimeout(run.timeoutId)
+    clearTimeout(run.retryTimeoutId)
+    clearTimeout(entry.intentLostTimeoutId)
+    entry.intentLostTimeoutId = undefined
 
     entry.completedAt = Date.now()
-    const next = this.updateElementState(entry, {
-      isCallbackRunning: false,
-      isActive: false,
-      durationMs: elapsed,
-      status,
-      error: errorMessage,
-    })
+    let next: ForesightElementState
+
+    if (status === "aborted") {
+      // The work never finished, so the element is not spent: it stays observed
+      // and can be predicted again instead of waiting for reactivateAfter.
+      next = this.updateElementState(entry, {
+        isCallbackRunning: false,
+        isPredicted: false,
+        durationMs: elapsed,
+        status,
+        error: errorMessage,
+      })
+      this.releaseResourceGroup(entry)
+    } else {
+      this.currentlyActiveHandler?.unobserveElement(entry.element)
+
+      next = this.updateElementState(entry, {
+        isCallbackRunning: false,
+        isActive: false,
+        durationMs: elapsed,
+        status,
+        error: errorMessage,
+      })
 
-    if (next.reactivateAfter !== Infinity) {
-      entry.reactivateTimeoutId = setTimeout(() => {
-        this.reactivate(entry.element)
-      }, next.reactivateAfter)
+      if (next.reactivateAfter !== Infinity) {
+        this.scheduleReactivation(entry, next.reactivateAfter)
+      }
     }
 
     const isLastActiveElement = this.activeElementCount === 0
@@ -706,12 +1375,16 @@ export class ForesightManager {
       timestamp: Date.now(),
       element: entry.element,
       state: next,
-      hitType: callbackHitType,
+      hitType: run.hitType,
       elapsed,
+      queueWaitMs: run.queueWaitMs,
       status,
       errorMessage,
+      abortReason,
       wasLastActiveElement: isLastActiveElement,
     })
+
+    this.runQueuedCallbacks()
   }
 
   private updateHitCounters(callbackHitType: CallbackHitType): void {
@@ -798,14 +1471,7 @@ export class ForesightManager {
     this.devLog("Initializing global listeners (pointermove, MutationObserver)")
     this.setDeviceStrategy(this.currentDeviceStrategy)
 
-    document.addEventListener("pointermove", this.handlePointerMove)
-
-    this.domObserver = new MutationObserver(this.handleDomMutations)
-    this.domObserver.observe(document.documentElement, {
-      childList: true,
-      subtree: true,
-      attributes: false,
-    })
+    sharedGlobalListeners.subscribe(this.globalListenerSubscriber)
 
     this.isSetup = true
   }
@@ -816,10 +1482,7 @@ export class ForesightManager {
     }
 
     this.isSetup = false
-    this.domObserver?.disconnect()
-    this.domObserver = null
-
-    document.removeEventListener("pointermove", this.handlePointerMove)
+    sharedGlobalListeners.unsubscribe(this.globalListenerSubscriber)
     this.currentlyActiveHandler?.disconnect()
 
     if (this.rafId) {
@@ -856,12 +1519,96 @@ export class ForesightManager {
 
     for (const entry of this.elementEntries.values()) {
       if (entry.state.isParked) {
-        if (entry.element.isConnected) {
+        if (isConnectedToTopDocument(entry.element)) {
           this.resumeReconnected(entry)
         }
-      } else if (!entry.element.isConnected) {
-        this.parkDisconnected(entry)
+      } else if (!isConnectedToTopDocument(entry.element)) {
+        // Declarative elements are owned by the markup, so once removed they are
+        // gone for good (a re-inserted copy is picked up by the scan again).
+        if (entry.isDeclarative) {
+          this.unregisterElement(entry.element, "disconnected")
+        } else {
+          this.parkDisconnected(entry)
+        }
+      }
+    }
+  }
+
+  private startDataAttributeScan(): void {
+    if (this.isScanningDataAttributes || typeof document === "undefined") {
+      return
+    }
+
+    this.isScanningDataAttributes = true
+    sharedGlobalListeners.subscribe(this.declarativeScanSubscriber)
+
+    if (document.readyState === "loading") {
+      document.addEventListener("DOMContentLoaded", this.scanDocumentForDataAttributes, {
+        once: true,
+      })
+    } else {
+      this.scanDocumentForDataAttributes()
+    }
+  }
+
+  private stopDataAttributeScan(): void {
+    if (!this.isScanningDataAttributes) {
+      return
+    }
+
+    this.isScanningDataAttributes = false
+    sharedGlobalListeners.unsubscribe(this.declarativeScanSubscriber)
+    document.removeEventListener("DOMContentLoaded", this.scanDocumentForDataAttributes)
+  }
+
+  private scanDocumentForDataAttributes = (): void => {
+    this.registerDeclarativeElements(document.documentElement)
+  }
+
+  private handleDeclarativeMutations = (mutationsList: MutationRecord[]): void => {
+    for (const mutation of mutationsList) {
+      for (const node of mutation.addedNodes) {
+        if (node.nodeType === Node.ELEMENT_NODE) {
+          this.registerDeclarativeElements(node as Element)
+        }
+      }
+    }
+  }
+
+  private registerDeclarativeElements(root: Element): void {
+    for (const element of findDeclarativeElements(root)) {
+      // Skip elements already registered (e.g. by a framework wrapper) and nodes
+      // removed again within the same mutation batch.
+      if (this.elementEntries.has(element) || !isConnectedToTopDocument(element)) {
+        continue
+      }
+
+      const { action, ...options } = readDeclarativeOptions(element)
+      this.register({ ...options, element, callback: this.createActionCallback(action) })
+
+      const entry = this.elementEntries.get(element)
+      if (entry) {
+        entry.isDeclarative = true
+      }
+    }
+  }
+
+  private createActionCallback(action: string | undefined): ForesightCallback {
+    return (state, signal, element) => {
+      if (action === undefined) {
+        return
       }
+
+      const callback = ForesightManager.actions.get(action)
+      if (!callback) {
+        console.warn(
+          `No action "${action}" defined for element ${state.name}, see ForesightManager.defineAction`
+        )
+
+        return
+      }
+
+      return callback(state, signal, element)
     }
   }
 
@@ -871,16 +1618,28 @@ export class ForesightManager {
    * resumed when it reconnects.
    */
   private parkDisconnected(entry: ForesightElementInternal): void {
+    this.passOnGroupReactivation(entry)
     this.clearReactivateTimeout(entry)
+    this.removeFromCallbackQueue(entry)
+    if (entry.state.isQueued) {
+      this.releaseResourceGroup(entry)
+    }
+
     this.currentlyActiveHandler?.unobserveElement(entry.element)
 
     // Preserve `isPredicted`: an element that already fired its callback must stay
     // "fired" so it is not treated as fresh (and reactivated) when it reconnects.
+    // A queued hit never ran, so that element resumes fresh instead.
     this.updateElementState(entry, {
       isActive: false,
-      isCallbackRunning: false,
       isParked: true,
+      isPredicted: entry.state.isQueued ? false : entry.state.isPredicted,
+      isQueued: false,
     })
+
+    // Abort after parking so the idle check in finalizeCallback still counts this
+    // element as waiting to reconnect. An aborted run resumes fresh as well.
+    this.abortCallback(entry, "parked")
   }
 
   /**
@@ -904,15 +1663,37 @@ export class ForesightManager {
 
     this.updateElementState(entry, { isActive, isParked: false })
 
+    // The element may have been re-attached inside a different shadow tree or frame.
+    this.unobserveRoots(entry)
+    this.observeRoots(entry)
+
     // If it fired with a finite reactivateAfter, resume the reactivation timer that
     // was cleared when it parked, so the cooldown continues from reconnect.
     if (eligible && entry.state.isPredicted && entry.state.reactivateAfter !== Infinity) {
-      entry.reactivateTimeoutId = setTimeout(() => {
-        this.reactivate(entry.element)
-      }, entry.state.reactivateAfter)
+      this.scheduleReactivation(entry, entry.state.reactivateAfter)
     }
   }
 
+  /**
+   * Watch the shadow roots and frame documents an element is nested in, so
+   * detaching it inside a shadow tree or frame parks it just like in the light
+   * DOM, and pointer moves over its frame keep being tracked.
+   */
+  private observeRoots(entry: ForesightElementInternal): void {
+    entry.observedRoots = getObservedRoots(entry.element)
+    for (const root of entry.observedRoots) {
+      sharedGlobalListeners.observeRoot(root)
+    }
+  }
+
+  private unobserveRoots(entry: ForesightElementInternal): void {
+    for (const root of entry.observedRoots) {
+      sharedGlobalListeners.unobserveRoot(root)
+    }
+
+    entry.observedRoots = []
+  }
+
   /**
    * Tear down global listeners only when nothing needs them: no active elements
    * to predict on, and no parked elements waiting to reconnect (which need the
@@ -926,6 +1707,19 @@ export class ForesightManager {
     this.removeGlobalListeners()
   }
 
+  /**
+   * Let the active handler (dis)connect its predictors after a global setting or
+   * an element's `settings` override changed: the tab and scroll predictors on
+   * desktop, the predictors of the used touch strategies otherwise.
+   */
+  private syncPredictors(): void {
+    if (this.isUsingDesktopHandler) {
+      this.desktopHandler?.syncPredictorConnections()
+    } else {
+      this.touchDeviceHandler?.syncPredictorConnections()
+    }
+  }
+
   public alterGlobalSettings(props?: Partial<UpdateForsightManagerSettings>): void {
     const result = applySettingsChanges(this._globalSettings, props)
 
@@ -935,20 +1729,12 @@ export class ForesightManager {
       )
     }
 
-    if (result.scrollPredictionChanged && this.isUsingDesktopHandler && this.desktopHandler) {
-      if (this._globalSettings.enableScrollPrediction) {
-        this.desktopHandler.connectScrollPredictor()
-      } else {
-        this.desktopHandler.disconnectScrollPredictor()
-      }
+    if (result.trajectoryModelChanged) {
+      this.desktopHandler?.resetTrajectoryModel()
     }
 
-    if (result.tabPredictionChanged && this.isUsingDesktopHandler && this.desktopHandler) {
-      if (this._globalSettings.enableTabPrediction) {
-        this.desktopHandler.connectTabPredictor()
-      } else {
-        this.desktopHandler.disconnectTabPredictor()
-      }
+    if (result.scrollPredictionChanged || result.tabPredictionChanged) {
+      this.syncPredictors()
     }
 
     if (result.hitSlopChanged) {
@@ -966,8 +1752,34 @@ export class ForesightManager {
       }
     }
 
+    if (result.scanDataAttributesChanged) {
+      if (this._globalSettings.scanDataAttributes) {
+        this.startDataAttributeScan()
+      } else {
+        this.stopDataAttributeScan()
+      }
+    }
+
     if (result.touchStrategyChanged && !this.isUsingDesktopHandler && this.touchDeviceHandler) {
-      this.touchDeviceHandler.setTouchPredictor()
+      this.touchDeviceHandler.syncPredictorConnections()
+    }
+
+    // The IntersectionObserver options are fixed once it is created, so reconnect to apply them.
+    if (result.viewportObserverChanged && !this.isUsingDesktopHandler) {
+      this.touchDeviceHandler?.reconnectPredictor("viewport")
+    }
+
+    // A higher limit frees slots for hits that are already waiting.
+    if (result.maxConcurrentCallbacksChanged) {
+      this.runQueuedCallbacks()
+    }
+
+    // Same for the budget; a new window also invalidates the pending refill.
+    if (result.callbackBudgetChanged) {
+      clearTimeout(this.budgetTimeoutId)
+      this.budgetTimeoutId = undefined
+      this.budgetDroppedElements.clear()
+      this.runQueuedCallbacks()
     }
 
     if (result.changedSettings.length > 0) {
@@ -993,7 +1805,7 @@ export class ForesightManager {
    * We need an observer for that
    */
   private forceUpdateElementBounds(entry: ForesightElementInternal): void {
-    const newOriginalRect = entry.element.getBoundingClientRect()
+    const newOriginalRect = getTopLevelRect(entry.element)
 
     this.updateElementBounds(entry, {
       originalRect: newOriginalRect,
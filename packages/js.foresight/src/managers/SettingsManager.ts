@@ -1,16 +1,36 @@
 import {
+  MAX_CALLBACK_BUDGET,
+  MAX_CALLBACK_BUDGET_WINDOW,
+  MAX_CALLBACK_TIMEOUT,
+  MAX_CONCURRENT_CALLBACKS,
+  MAX_DWELL_MS,
   MAX_POSITION_HISTORY_SIZE,
   MAX_SCROLL_MARGIN,
   MAX_TAB_OFFSET,
+  MAX_TARGETS_PER_MOVE,
   MAX_TRAJECTORY_PREDICTION_TIME,
+  MAX_VIEWPORT_DWELL_MS,
+  MAX_VIEWPORT_THRESHOLD,
+  MIN_CALLBACK_BUDGET,
+  MIN_CALLBACK_BUDGET_WINDOW,
+  MIN_CALLBACK_TIMEOUT,
+  MIN_CONCURRENT_CALLBACKS,
+  MIN_DWELL_MS,
   MIN_POSITION_HISTORY_SIZE,
   MIN_SCROLL_MARGIN,
   MIN_TAB_OFFSET,
+  MIN_TARGETS_PER_MOVE,
   MIN_TRAJECTORY_PREDICTION_TIME,
+  MIN_VIEWPORT_DWELL_MS,
+  MIN_VIEWPORT_THRESHOLD,
 } from "../constants"
 import { clampNumber } from "../helpers/clampNumber"
+import { areTouchStrategiesEqual } from "../helpers/touchDeviceStrategies"
 import { areRectsEqual, normalizeHitSlop } from "../helpers/rectAndHitSlop"
 import type {
+  ElementBooleanSettingKeys,
+  ElementNumericSettingKeys,
+  ForesightElementSettings,
   ForesightManagerSettings,
   ManagerBooleanSettingKeys,
   NumericSettingKeys,
@@ -36,8 +56,45 @@ const NUMERIC_SETTING_CONFIGS: Record<NumericSettingKeys, { min: number; max: nu
     min: MIN_TAB_OFFSET,
     max: MAX_TAB_OFFSET,
   },
+  maxConcurrentCallbacks: {
+    min: MIN_CONCURRENT_CALLBACKS,
+    max: MAX_CONCURRENT_CALLBACKS,
+  },
+  callbackTimeout: {
+    min: MIN_CALLBACK_TIMEOUT,
+    max: MAX_CALLBACK_TIMEOUT,
+  },
+  callbackBudget: {
+    min: MIN_CALLBACK_BUDGET,
+    max: MAX_CALLBACK_BUDGET,
+  },
+  callbackBudgetWindow: {
+    min: MIN_CALLBACK_BUDGET_WINDOW,
+    max: MAX_CALLBACK_BUDGET_WINDOW,
+  },
+  minDwellMs: {
+    min: MIN_DWELL_MS,
+    max: MAX_DWELL_MS,
+  },
+  maxTargetsPerMove: {
+    min: MIN_TARGETS_PER_MOVE,
+    max: MAX_TARGETS_PER_MOVE,
+  },
+  viewportThreshold: {
+    min: MIN_VIEWPORT_THRESHOLD,
+    max: MAX_VIEWPORT_THRESHOLD,
+  },
+  viewportDwellMs: {
+    min: MIN_VIEWPORT_DWELL_MS,
+    max: MAX_VIEWPORT_DWELL_MS,
+  },
 }
 
+/** Copies an array of touch strategies, so later mutations by the caller don't leak into the settings. */
+const copyTouchStrategies = (
+  value: ForesightManagerSettings["touchDeviceStrategy"]
+): ForesightManagerSettings["touchDeviceStrategy"] => (Array.isArray(value) ? [...value] : value)
+
 /**
  * Checks if a setting should be updated.
  * Returns true if the newValue is defined and different from the currentValue.
@@ -102,6 +159,11 @@ interface SettingsChangeResult {
   hitSlopChanged: boolean
   touchStrategyChanged: boolean
   setDataAttributesChanged: boolean
+  scanDataAttributesChanged: boolean
+  maxConcurrentCallbacksChanged: boolean
+  callbackBudgetChanged: boolean
+  trajectoryModelChanged: boolean
+  viewportObserverChanged: boolean
 }
 
 /**
@@ -119,6 +181,11 @@ export const applySettingsChanges = (
   let hitSlopChanged = false
   let touchStrategyChanged = false
   let setDataAttributesChanged = false
+  let scanDataAttributesChanged = false
+  let maxConcurrentCallbacksChanged = false
+  let callbackBudgetChanged = false
+  let trajectoryModelChanged = false
+  let viewportObserverChanged = false
 
   if (!props) {
     return {
@@ -129,6 +196,11 @@ export const applySettingsChanges = (
       hitSlopChanged,
       touchStrategyChanged,
       setDataAttributesChanged,
+      scanDataAttributesChanged,
+      maxConcurrentCallbacksChanged,
+      callbackBudgetChanged,
+      trajectoryModelChanged,
+      viewportObserverChanged,
     }
   }
 
@@ -138,6 +210,14 @@ export const applySettingsChanges = (
     "positionHistorySize",
     "scrollMargin",
     "tabOffset",
+    "maxConcurrentCallbacks",
+    "callbackTimeout",
+    "callbackBudget",
+    "callbackBudgetWindow",
+    "minDwellMs",
+    "maxTargetsPerMove",
+    "viewportThreshold",
+    "viewportDwellMs",
   ]
 
   for (const key of numericKeys) {
@@ -152,6 +232,18 @@ export const applySettingsChanges = (
       if (key === "positionHistorySize") {
         positionHistorySizeChanged = true
       }
+
+      if (key === "maxConcurrentCallbacks") {
+        maxConcurrentCallbacksChanged = true
+      }
+
+      if (key === "callbackBudget" || key === "callbackBudgetWindow") {
+        callbackBudgetChanged = true
+      }
+
+      if (key === "viewportThreshold") {
+        viewportObserverChanged = true
+      }
     }
   }
 
@@ -162,6 +254,7 @@ export const applySettingsChanges = (
     "enableTabPrediction",
     "enableManagerLogging",
     "setDataAttributes",
+    "scanDataAttributes",
   ]
 
   for (const key of booleanKeys) {
@@ -184,6 +277,10 @@ export const applySettingsChanges = (
       if (key === "setDataAttributes") {
         setDataAttributesChanged = true
       }
+
+      if (key === "scanDataAttributes") {
+        scanDataAttributesChanged = true
+      }
     }
   }
 
@@ -203,18 +300,68 @@ export const applySettingsChanges = (
     }
   }
 
-  // Touch strategy
-  if (shouldUpdateSetting(props.touchDeviceStrategy, settings.touchDeviceStrategy)) {
+  // Touch strategy, a single strategy or an array compared by content
+  if (
+    props.touchDeviceStrategy !== undefined &&
+    !areTouchStrategiesEqual(props.touchDeviceStrategy, settings.touchDeviceStrategy)
+  ) {
     const oldValue = settings.touchDeviceStrategy
-    settings.touchDeviceStrategy = props.touchDeviceStrategy
+    const newValue = copyTouchStrategies(props.touchDeviceStrategy)
+    settings.touchDeviceStrategy = newValue
     changedSettings.push({
       setting: "touchDeviceStrategy",
       oldValue,
-      newValue: props.touchDeviceStrategy,
+      newValue,
     })
     touchStrategyChanged = true
   }
 
+  // Viewport root margin
+  if (shouldUpdateSetting(props.viewportRootMargin, settings.viewportRootMargin)) {
+    const oldValue = settings.viewportRootMargin
+    settings.viewportRootMargin = props.viewportRootMargin
+    changedSettings.push({
+      setting: "viewportRootMargin",
+      oldValue,
+      newValue: props.viewportRootMargin,
+    })
+    viewportObserverChanged = true
+  }
+
+  // Trajectory model, a name or a custom function
+  if (shouldUpdateSetting(props.trajectoryModel, settings.trajectoryModel)) {
+    const oldValue = settings.trajectoryModel
+    settings.trajectoryModel = props.trajectoryModel
+    changedSettings.push({
+      setting: "trajectoryModel",
+      oldValue,
+      newValue: props.trajectoryModel,
+    })
+    trajectoryModelChanged = true
+  }
+
+  // Trajectory shape
+  if (shouldUpdateSetting(props.trajectoryShape, settings.trajectoryShape)) {
+    const oldValue = settings.trajectoryShape
+    settings.trajectoryShape = props.trajectoryShape
+    changedSettings.push({
+      setting: "trajectoryShape",
+      oldValue,
+      newValue: props.trajectoryShape,
+    })
+  }
+
+  // Callback budget strategy
+  if (shouldUpdateSetting(props.callbackBudgetStrategy, settings.callbackBudgetStrategy)) {
+    const oldValue = settings.callbackBudgetStrategy
+    settings.callbackBudgetStrategy = props.callbackBudgetStrategy
+    changedSettings.push({
+      setting: "callbackBudgetStrategy",
+      oldValue,
+      newValue: props.callbackBudgetStrategy,
+    })
+  }
+
   // Minimum connection type
   if (shouldUpdateSetting(props.minimumConnectionType, settings.minimumConnectionType)) {
     const oldValue = settings.minimumConnectionType
@@ -234,5 +381,71 @@ export const applySettingsChanges = (
     hitSlopChanged,
     touchStrategyChanged,
     setDataAttributesChanged,
+    scanDataAttributesChanged,
+    maxConcurrentCallbacksChanged,
+    callbackBudgetChanged,
+    trajectoryModelChanged,
+    viewportObserverChanged,
   }
 }
+
+const ELEMENT_NUMERIC_SETTING_KEYS: ElementNumericSettingKeys[] = [
+  "trajectoryPredictionTime",
+  "tabOffset",
+  "scrollMargin",
+  "callbackTimeout",
+  "minDwellMs",
+]
+
+const ELEMENT_BOOLEAN_SETTING_KEYS: ElementBooleanSettingKeys[] = [
+  "enableMousePrediction",
+  "enableTabPrediction",
+  "enableScrollPrediction",
+]
+
+/**
+ * Normalize a per-element `settings` override.
+ * Numeric values are clamped like their global counterparts and omitted keys are dropped.
+ */
+export const normalizeElementSettings = (
+  settings: ForesightElementSettings
+): ForesightElementSettings => {
+  const normalized: ForesightElementSettings = {}
+
+  for (const key of ELEMENT_NUMERIC_SETTING_KEYS) {
+    const value = settings[key]
+    if (value !== undefined) {
+      const { min, max } = NUMERIC_SETTING_CONFIGS[key]
+      normalized[key] = clampNumber(value, min, max, key)
+    }
+  }
+
+  for (const key of ELEMENT_BOOLEAN_SETTING_KEYS) {
+    const value = settings[key]
+    if (value !== undefined) {
+      normalized[key] = value
+    }
+  }
+
+  if (settings.touchDeviceStrategy !== undefined) {
+    normalized.touchDeviceStrategy = copyTouchStrategies(settings.touchDeviceStrategy)
+  }
+
+  return normalized
+}
+
+/**
+ * Checks if two normalized element settings overrides hold the same values.
+ */
+export const areElementSettingsEqual = (
+  a: ForesightElementSettings,
+  b: ForesightElementSettings
+): boolean => {
+  const keys = [...ELEMENT_NUMERIC_SETTING_KEYS, ...ELEMENT_BOOLEAN_SETTING_KEYS]
+  const touchStrategiesEqual =
+    a.touchDeviceStrategy === undefined || b.touchDeviceStrategy === undefined
+      ? a.touchDeviceStrategy === b.touchDeviceStrategy
+      : areTouchStrategiesEqual(a.touchDeviceStrategy, b.touchDeviceStrategy)
+
+  return touchStrategiesEqual && keys.every(key => a[key] === b[key])
+}
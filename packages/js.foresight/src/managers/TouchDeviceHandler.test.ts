@@ -0,0 +1,108 @@
+import { afterEach, beforeEach, describe, expect, it, vi, type Mock } from "vitest"
+import { TouchDeviceHandler } from "./TouchDeviceHandler"
+import { TouchStartPredictor } from "../predictors/TouchStartPredictor"
+import { ViewportPredictor } from "../predictors/ViewportPredictor"
+import { SpatialGrid } from "../helpers/SpatialGrid"
+import type { ForesightModuleDependencies } from "../core/BaseForesightModule"
+import type {
+  ForesightElement,
+  ForesightElementInternal,
+  ForesightElementSettings,
+  ForesightManagerSettings,
+} from "../types/types"
+
+describe("TouchDeviceHandler", () => {
+  let elements: Map<ForesightElement, ForesightElementInternal>
+  let callCallback: Mock<ForesightModuleDependencies["callCallback"]>
+  let settings: ForesightManagerSettings
+  let handler: TouchDeviceHandler
+
+  const createElement = (id: string, elementSettings: ForesightElementSettings = {}) => {
+    const element = document.createElement("button")
+    element.id = id
+    elements.set(element, {
+      element,
+      state: { isActive: true, settings: elementSettings },
+    } as unknown as ForesightElementInternal)
+
+    return element
+  }
+
+  const connect = async () => {
+    handler.connect()
+    // Wait for the lazy loaded predictors
+    await handler.syncPredictorConnections()
+  }
+
+  beforeEach(() => {
+    elements = new Map()
+    callCallback = vi.fn<ForesightModuleDependencies["callCallback"]>()
+    settings = {
+      enableManagerLogging: false,
+      touchDeviceStrategy: "onTouchStart",
+      viewportThreshold: 0,
+      viewportRootMargin: "0px",
+      viewportDwellMs: 0,
+    } as ForesightManagerSettings
+    handler = new TouchDeviceHandler({
+      elements,
+      callCallback,
+      abortCallback: vi.fn(),
+      emit: vi.fn(),
+      hasListeners: vi.fn(() => false),
+      updateElementState: vi.fn(),
+      updateElementBounds: vi.fn(),
+      elementIndex: new SpatialGrid(),
+      runningElements: new Set(),
+      focusScopes: [],
+      settings,
+    })
+  })
+
+  afterEach(() => {
+    handler.disconnect()
+    vi.restoreAllMocks()
+  })
+
+  it("connects a predictor for every strategy in the array", async () => {
+    settings.touchDeviceStrategy = ["viewport", "onTouchStart"]
+    const viewportObserve = vi.spyOn(ViewportPredictor.prototype, "observeElement")
+    const element = createElement("combined")
+
+    await connect()
+
+    expect(handler.loadedPredictors).toEqual({
+      viewport: true,
+      touchStart: true,
+      scrollLanding: false,
+    })
+    expect(viewportObserve).toHaveBeenCalledWith(element)
+
+    element.dispatchEvent(new PointerEvent("pointerdown"))
+
+    expect(callCallback).toHaveBeenCalledWith(elements.get(element), { kind: "touch" })
+  })
+
+  it("observes elements with the strategies of their settings override", async () => {
+    const viewportObserve = vi.spyOn(ViewportPredictor.prototype, "observeElement")
+    const touchStartObserve = vi.spyOn(TouchStartPredictor.prototype, "observeElement")
+    const thumbnail = createElement("thumbnail", { touchDeviceStrategy: "viewport" })
+    const detail = createElement("detail")
+
+    await connect()
+
+    expect(viewportObserve.mock.calls).toEqual([[thumbnail]])
+    expect(touchStartObserve.mock.calls).toEqual([[detail]])
+  })
+
+  it("disconnects predictors whose strategy is no longer used", async () => {
+    const element = createElement("unused")
+    await connect()
+
+    settings.touchDeviceStrategy = []
+    await handler.syncPredictorConnections()
+    element.dispatchEvent(new PointerEvent("pointerdown"))
+
+    expect(callCallback).not.toHaveBeenCalled()
+  })
+})
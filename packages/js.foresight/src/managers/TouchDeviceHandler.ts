@@ -1,15 +1,19 @@
-import type { ForesightElement } from "../types/types"
+import type { ForesightElement, ForesightElementInternal } from "../types/types"
 import type { ForesightModuleDependencies } from "../core/BaseForesightModule"
 import { ElementObservingModule } from "../core/ElementObservingModule"
 import type { ViewportPredictor } from "../predictors/ViewportPredictor"
 import type { TouchStartPredictor } from "../predictors/TouchStartPredictor"
+import type { ScrollLandingPredictor } from "../predictors/ScrollLandingPredictor"
+import { getTouchStrategies, type TouchPredictionStrategy } from "../helpers/touchDeviceStrategies"
 
 export class TouchDeviceHandler extends ElementObservingModule {
   protected readonly moduleName = "TouchDeviceHandler"
 
   private viewportPredictor: ViewportPredictor | null = null
   private touchStartPredictor: TouchStartPredictor | null = null
-  private predictor: ElementObservingModule | null = null
+  private scrollLandingPredictor: ScrollLandingPredictor | null = null
+  // Connected predictors, one per strategy used by the global setting or an element override
+  private predictors: Map<TouchPredictionStrategy, ElementObservingModule> = new Map()
   private storedDependencies: ForesightModuleDependencies
 
   constructor(dependencies: ForesightModuleDependencies) {
@@ -37,52 +41,129 @@ export class TouchDeviceHandler extends ElementObservingModule {
     return this.touchStartPredictor
   }
 
-  public async setTouchPredictor() {
-    this.predictor?.disconnect()
+  private async getOrCreateScrollLandingPredictor(): Promise<ScrollLandingPredictor> {
+    if (!this.scrollLandingPredictor) {
+      const { ScrollLandingPredictor } = await import("../predictors/ScrollLandingPredictor")
+      this.scrollLandingPredictor = new ScrollLandingPredictor(this.storedDependencies)
+      this.devLog("ScrollLandingPredictor lazy loaded")
+    }
+
+    return this.scrollLandingPredictor
+  }
 
-    switch (this.settings.touchDeviceStrategy) {
+  private getOrCreatePredictor(strategy: TouchPredictionStrategy): Promise<ElementObservingModule> {
+    switch (strategy) {
       case "viewport":
-        this.predictor = await this.getOrCreateViewportPredictor()
-        this.devLog(
-          `Connected touch strategy: ${this.settings.touchDeviceStrategy} (ViewportPredictor)`
-        )
-        break
+        return this.getOrCreateViewportPredictor()
       case "onTouchStart":
-        this.predictor = await this.getOrCreateTouchStartPredictor()
-        this.devLog(
-          `Connected touch strategy: ${this.settings.touchDeviceStrategy} (TouchStartPredictor)`
-        )
-        break
-      case "none":
-        this.predictor = null
-        this.devLog(`Touch strategy set to "none" - no predictor connected`)
-
-        return
+        return this.getOrCreateTouchStartPredictor()
+      case "scrollLanding":
+        return this.getOrCreateScrollLandingPredictor()
       default:
-        this.settings.touchDeviceStrategy satisfies never
+        return strategy satisfies never
+    }
+  }
+
+  /** The strategies an element is observed with, its `settings` override or the global setting. */
+  private getElementStrategies(entry: ForesightElementInternal): TouchPredictionStrategy[] {
+    return getTouchStrategies(this.getElementSetting(entry, "touchDeviceStrategy"))
+  }
+
+  /**
+   * Connect the predictor of every strategy the global setting or any element's
+   * `settings` override uses, disconnect the others, and observe every active
+   * element with exactly the predictors of its own strategies.
+   */
+  public async syncPredictorConnections() {
+    const strategies = new Set(getTouchStrategies(this.settings.touchDeviceStrategy))
+    for (const entry of this.elements.values()) {
+      const override = entry.state.settings.touchDeviceStrategy
+      if (override !== undefined) {
+        getTouchStrategies(override).forEach(strategy => strategies.add(strategy))
+      }
+    }
+
+    for (const [strategy, predictor] of this.predictors) {
+      if (!strategies.has(strategy)) {
+        predictor.disconnect()
+        this.predictors.delete(strategy)
+        this.devLog(`Disconnected touch strategy: ${strategy}`)
+      }
+    }
+
+    if (strategies.size === 0) {
+      this.devLog(`Touch strategy set to "none" - no predictor connected`)
     }
 
-    this.predictor?.connect()
+    await Promise.all([...strategies].map(strategy => this.connectPredictor(strategy)))
+  }
+
+  private async connectPredictor(strategy: TouchPredictionStrategy) {
+    let predictor = this.predictors.get(strategy)
+    if (!predictor) {
+      const loaded = await this.getOrCreatePredictor(strategy)
+      // The handler may have been disconnected, or an overlapping sync connected it, while loading
+      if (!this.isConnected || this.predictors.has(strategy)) {
+        return
+      }
+
+      predictor = loaded
+      predictor.connect()
+      this.predictors.set(strategy, predictor)
+      this.devLog(`Connected touch strategy: ${strategy}`)
+    }
 
     for (const [element, entry] of this.elements) {
-      if (entry.state.isActive) {
-        this.predictor?.observeElement(element)
+      if (entry.state.isActive && this.getElementStrategies(entry).includes(strategy)) {
+        predictor.observeElement(element)
+      } else {
+        predictor.unobserveElement(element)
       }
     }
   }
 
+  /** Reconnect a connected predictor to apply settings it only reads when connecting. */
+  public reconnectPredictor(strategy: TouchPredictionStrategy) {
+    const predictor = this.predictors.get(strategy)
+    if (!predictor) {
+      return
+    }
+
+    predictor.disconnect()
+    this.predictors.delete(strategy)
+    this.connectPredictor(strategy)
+  }
+
   protected onDisconnect = () => {
-    this.devLog("Disconnecting touch predictor")
-    this.predictor?.disconnect()
+    this.devLog("Disconnecting touch predictors")
+    for (const predictor of this.predictors.values()) {
+      predictor.disconnect()
+    }
+    this.predictors.clear()
   }
-  protected onConnect = () => this.setTouchPredictor()
+  protected onConnect = () => this.syncPredictorConnections()
 
   public observeElement(element: ForesightElement): void {
-    this.predictor?.observeElement(element)
+    const entry = this.elements.get(element)
+    if (!entry) {
+      return
+    }
+
+    for (const strategy of this.getElementStrategies(entry)) {
+      const predictor = this.predictors.get(strategy)
+      if (predictor) {
+        predictor.observeElement(element)
+      } else if (this.isConnected) {
+        // Only an element override can use a strategy that isn't connected yet
+        this.connectPredictor(strategy)
+      }
+    }
   }
 
   public unobserveElement(element: ForesightElement): void {
-    this.predictor?.unobserveElement(element)
+    for (const predictor of this.predictors.values()) {
+      predictor.unobserveElement(element)
+    }
   }
 
   /** For debugging: returns which predictors have been lazy loaded */
@@ -90,6 +171,7 @@ export class TouchDeviceHandler extends ElementObservingModule {
     return {
       viewport: this.viewportPredictor !== null,
       touchStart: this.touchStartPredictor !== null,
+      scrollLanding: this.scrollLandingPredictor !== null,
     }
   }
 }
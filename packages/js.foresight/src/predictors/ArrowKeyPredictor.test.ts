@@ -0,0 +1,112 @@
+import { afterEach, beforeEach, describe, expect, it, vi, type Mock } from "vitest"
+import { ArrowKeyPredictor } from "./ArrowKeyPredictor"
+import { SpatialGrid } from "../helpers/SpatialGrid"
+import type { ForesightModuleDependencies } from "../core/BaseForesightModule"
+import type {
+  ForesightElement,
+  ForesightElementInternal,
+  ForesightElementSettings,
+  ForesightManagerSettings,
+} from "../types/types"
+
+const createEntry = (
+  element: ForesightElement,
+  settings: ForesightElementSettings = {}
+): ForesightElementInternal =>
+  ({
+    element,
+    state: { isPredicted: false, isActive: true, settings },
+  }) as unknown as ForesightElementInternal
+
+const pressKey = (target: Element, key: string) => {
+  target.dispatchEvent(new KeyboardEvent("keydown", { key, bubbles: true, composed: true }))
+}
+
+describe("ArrowKeyPredictor", () => {
+  let elements: Map<ForesightElement, ForesightElementInternal>
+  let callCallback: Mock<ForesightModuleDependencies["callCallback"]>
+  let predictor: ArrowKeyPredictor
+  let items: HTMLElement[]
+
+  beforeEach(() => {
+    document.body.innerHTML = `
+      <ul role="listbox">
+        ${[0, 1, 2, 3, 4, 5].map(i => `<li role="option" id="item-${i}" tabindex="-1">${i}</li>`).join("")}
+      </ul>
+    `
+    items = Array.from(document.querySelectorAll<HTMLElement>('[role="option"]'))
+    elements = new Map()
+    callCallback = vi.fn<ForesightModuleDependencies["callCallback"]>()
+
+    predictor = new ArrowKeyPredictor({
+      elements,
+      callCallback,
+      abortCallback: vi.fn(),
+      emit: vi.fn(),
+      hasListeners: vi.fn(() => false),
+      updateElementState: vi.fn(),
+      updateElementBounds: vi.fn(),
+      elementIndex: new SpatialGrid(),
+      runningElements: new Set(),
+      focusScopes: [],
+      settings: {
+        tabOffset: 2,
+        enableTabPrediction: true,
+        enableManagerLogging: false,
+      } as ForesightManagerSettings,
+    })
+    predictor.connect()
+  })
+
+  afterEach(() => {
+    predictor.disconnect()
+  })
+
+  it("predicts the next items in the arrow direction up to tabOffset", () => {
+    for (const item of items) {
+      elements.set(item, createEntry(item))
+    }
+
+    pressKey(items[0]!, "ArrowDown")
+
+    expect(callCallback.mock.calls.map(([entry]) => entry.element)).toEqual([
+      items[1],
+      items[2],
+      items[3],
+    ])
+    expect(callCallback).toHaveBeenCalledWith(elements.get(items[1]!), {
+      kind: "tab",
+      subType: "keyboard",
+    })
+  })
+
+  it("predicts backwards with the opposite arrow", () => {
+    elements.set(items[2]!, createEntry(items[2]!))
+    elements.set(items[4]!, createEntry(items[4]!))
+
+    pressKey(items[3]!, "ArrowUp")
+
+    expect(callCallback).toHaveBeenCalledOnce()
+    expect(callCallback.mock.calls[0]![0].element).toBe(items[2])
+  })
+
+  it("respects per-element tabOffset and enableTabPrediction overrides", () => {
+    elements.set(items[2]!, createEntry(items[2]!, { tabOffset: 0 }))
+    elements.set(items[3]!, createEntry(items[3]!, { enableTabPrediction: false }))
+    elements.set(items[5]!, createEntry(items[5]!, { tabOffset: 4 }))
+
+    pressKey(items[0]!, "ArrowDown")
+
+    expect(callCallback.mock.calls.map(([entry]) => entry.element)).toEqual([items[5]])
+  })
+
+  it("ignores other keys and stops listening once disconnected", () => {
+    elements.set(items[1]!, createEntry(items[1]!))
+
+    pressKey(items[0]!, "Enter")
+    predictor.disconnect()
+    pressKey(items[0]!, "ArrowDown")
+
+    expect(callCallback).not.toHaveBeenCalled()
+  })
+})
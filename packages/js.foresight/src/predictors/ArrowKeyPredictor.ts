@@ -0,0 +1,59 @@
+import { getArrowKeyTargets, isArrowKey } from "../helpers/getArrowKeyTargets"
+import { getComposedTarget } from "../helpers/getObservedRoots"
+import { BaseForesightModule, type ForesightModuleDependencies } from "../core/BaseForesightModule"
+
+/**
+ * Predicts arrow key navigation inside ARIA composite widgets (menus, menubars,
+ * grids, tablists, listboxes and toolbars), which move focus with a roving
+ * tabindex or `aria-activedescendant` instead of the Tab order.
+ *
+ * On every arrow `keydown` it predicts the items the key is moving towards, up
+ * to `tabOffset` items past the one about to receive focus.
+ */
+export class ArrowKeyPredictor extends BaseForesightModule {
+  protected readonly moduleName = "ArrowKeyPredictor"
+
+  constructor(dependencies: ForesightModuleDependencies) {
+    super(dependencies)
+  }
+
+  protected onConnect(): void {
+    if (typeof document === "undefined") {
+      return
+    }
+
+    this.createAbortController()
+
+    document.addEventListener("keydown", this.handleKeyDown, {
+      signal: this.abortController?.signal,
+      passive: true,
+    })
+  }
+
+  protected onDisconnect(): void {}
+
+  // Unlike Tab, the widget moves focus itself, so the keydown is all there is to go on.
+  // It reaches the document before the widget's handler has moved focus.
+  private handleKeyDown = (e: KeyboardEvent) => {
+    // Keydowns inside a shadow tree reach the document retargeted to its host
+    const target = getComposedTarget(e)
+    if (!isArrowKey(e.key) || !(target instanceof Element)) {
+      return
+    }
+
+    const targets = getArrowKeyTargets(target, e.key)
+
+    for (let i = 0; i < targets.length; i++) {
+      const entry = this.elements.get(targets[i]!)
+      if (
+        entry &&
+        !entry.state.isPredicted &&
+        entry.state.isActive &&
+        this.getElementSetting(entry, "enableTabPrediction") &&
+        i <= this.getElementSetting(entry, "tabOffset")
+      ) {
+        this.callCallback(entry, { kind: "tab", subType: "keyboard" })
+      }
+    }
+  }
+}
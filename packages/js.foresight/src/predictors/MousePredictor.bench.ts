@@ -0,0 +1,119 @@
+import { bench, describe } from "vitest"
+import { MousePredictor } from "./MousePredictor"
+import { CircularBuffer } from "../helpers/CircularBuffer"
+import { createDefaultManagerSettings } from "../helpers/createInitialState"
+import { SpatialGrid } from "../helpers/SpatialGrid"
+import type { ForesightModuleDependencies } from "../core/BaseForesightModule"
+import type {
+  ForesightElement,
+  ForesightElementInternal,
+  MousePosition,
+  Rect,
+  TrajectoryModelFunction,
+} from "../types/types"
+
+// A data grid of 100 x 50 cells, 40 x 20px each
+const COLUMNS = 100
+const ROWS = 50
+
+const createGridEntries = (): ForesightElementInternal[] => {
+  const entries: ForesightElementInternal[] = []
+  for (let column = 0; column < COLUMNS; column++) {
+    for (let row = 0; row < ROWS; row++) {
+      const expandedRect: Rect = {
+        left: column * 40,
+        top: row * 20,
+        right: column * 40 + 40,
+        bottom: row * 20 + 20,
+      }
+      entries.push({
+        element: { id: entries.length } as unknown as ForesightElement,
+        state: {
+          isActive: true,
+          isPredicted: false,
+          isIntersectingWithViewport: true,
+          minConfidence: 0,
+          settings: {},
+        },
+        bounds: { expandedRect },
+      } as unknown as ForesightElementInternal)
+    }
+  }
+
+  return entries
+}
+
+// Linear prediction over steady 16ms frames. The built-in models read
+// performance.now, which is too fast between benchmarked moves to be realistic.
+let frameTime = 0
+const predictOverFrames: TrajectoryModelFunction = (currentPoint, buffer, predictionTime, out) => {
+  const last = buffer.getLast()
+  frameTime += 16
+  buffer.add({ point: { x: currentPoint.x, y: currentPoint.y }, time: frameTime })
+  const scale = last ? predictionTime / 16 : 0
+  out.x = currentPoint.x + (currentPoint.x - (last?.point.x ?? currentPoint.x)) * scale
+  out.y = currentPoint.y + (currentPoint.y - (last?.point.y ?? currentPoint.y)) * scale
+}
+
+/**
+ * @param isIndexed - Without the index every element matches every query,
+ *                    which is the linear scan over all elements.
+ */
+const setupPredictor = (isIndexed: boolean) => {
+  const elements = new Map<ForesightElement, ForesightElementInternal>()
+  const elementIndex = new SpatialGrid<ForesightElementInternal>()
+  for (const entry of createGridEntries()) {
+    elements.set(entry.element, entry)
+    elementIndex.set(entry, isIndexed ? entry.bounds.expandedRect : null)
+  }
+
+  const dependencies: ForesightModuleDependencies = {
+    elements,
+    callCallback: () => {},
+    abortCallback: () => {},
+    emit: () => {},
+    hasListeners: () => false,
+    updateElementState: entry => entry.state,
+    updateElementBounds: entry => entry.bounds,
+    elementIndex,
+    runningElements: new Set(),
+    focusScopes: [],
+    settings: { ...createDefaultManagerSettings(), trajectoryModel: predictOverFrames },
+  }
+
+  return new MousePredictor({
+    dependencies,
+    trajectoryPositions: {
+      positions: new CircularBuffer<MousePosition>(8),
+      currentPoint: { x: 0, y: 0 },
+      predictedPoint: { x: 0, y: 0 },
+      predictedPath: [],
+      predictedCone: null,
+    },
+  })
+}
+
+// A diagonal sweep across the grid at 0.5px/ms, one move per frame
+const moves = Array.from(
+  { length: 60 },
+  (_, i) => ({ clientX: 100 + i * 7, clientY: 50 + i * 4 }) as MouseEvent
+)
+
+describe(`processMouseMovement with ${COLUMNS * ROWS} registered elements`, () => {
+  const linearScan = setupPredictor(false)
+  const spatialGrid = setupPredictor(true)
+
+  bench("linear scan", () => {
+    linearScan.resetTrajectoryModel()
+    for (const move of moves) {
+      linearScan.processMouseMovement(move)
+    }
+  })
+
+  bench("spatial grid", () => {
+    spatialGrid.resetTrajectoryModel()
+    for (const move of moves) {
+      spatialGrid.processMouseMovement(move)
+    }
+  })
+})
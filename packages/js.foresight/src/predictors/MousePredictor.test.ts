@@ -1,45 +1,75 @@
-import { describe, it, expect, vi } from "vitest"
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest"
 import { MousePredictor } from "./MousePredictor"
 import { CircularBuffer } from "../helpers/CircularBuffer"
+import { SpatialGrid } from "../helpers/SpatialGrid"
 import type { ForesightModuleDependencies } from "../core/BaseForesightModule"
 import type {
   ForesightElement,
   ForesightElementInternal,
+  ForesightElementSettings,
   ForesightManagerSettings,
   MousePosition,
+  MouseTrajectoryUpdateEvent,
   Rect,
   TrajectoryPositions,
 } from "../types/types"
 
-const createInternalEntry = (id: string, expandedRect: Rect): ForesightElementInternal =>
+const createInternalEntry = (
+  id: string,
+  expandedRect: Rect,
+  minConfidence: number = 0,
+  settings: ForesightElementSettings = {}
+): ForesightElementInternal =>
   ({
     state: {
       id,
       isActive: true,
       isPredicted: false,
       isIntersectingWithViewport: true,
+      minConfidence,
+      settings,
     },
     bounds: { expandedRect },
   }) as unknown as ForesightElementInternal
 
-const setupPredictor = (entries: ForesightElementInternal[], enableMousePrediction: boolean) => {
+const setupPredictor = (
+  entries: ForesightElementInternal[],
+  enableMousePrediction: boolean,
+  extraSettings: Partial<ForesightManagerSettings> = {}
+) => {
   const elements = new Map<ForesightElement, ForesightElementInternal>()
-  entries.forEach((entry, i) => elements.set({ id: i } as unknown as ForesightElement, entry))
+  const elementIndex = new SpatialGrid<ForesightElementInternal>()
+  const runningElements = new Set<ForesightElementInternal>()
+  entries.forEach((entry, i) => {
+    entry.element = { id: i } as unknown as ForesightElement
+    entry.registrationOrder = i
+    elements.set(entry.element, entry)
+    elementIndex.set(entry, entry.bounds.expandedRect)
+    if (entry.state.isCallbackRunning) {
+      runningElements.add(entry)
+    }
+  })
 
   const callCallback = vi.fn()
+  const abortCallback = vi.fn()
   const emit = vi.fn()
   const dependencies: ForesightModuleDependencies = {
     elements,
     callCallback,
+    abortCallback,
     emit,
     hasListeners: vi.fn(() => true),
-    updateElementState: vi.fn(),
+    updateElementState: vi.fn((entry, patch) => (entry.state = { ...entry.state, ...patch })),
     updateElementBounds: vi.fn(),
+    elementIndex,
+    runningElements,
+    focusScopes: [],
     settings: {
       enableMousePrediction,
       trajectoryPredictionTime: 120,
       positionHistorySize: 8,
       enableManagerLogging: false,
+      ...extraSettings,
     } as ForesightManagerSettings,
   }
 
@@ -47,11 +77,47 @@ const setupPredictor = (entries: ForesightElementInternal[], enableMousePredicti
     positions: new CircularBuffer<MousePosition>(8),
     currentPoint: { x: 0, y: 0 },
     predictedPoint: { x: 0, y: 0 },
+    predictedPath: [],
+    predictedCone: null,
   }
 
   const predictor = new MousePredictor({ dependencies, trajectoryPositions })
 
-  return { predictor, callCallback, emit }
+  return { predictor, callCallback, abortCallback, emit, dependencies, trajectoryPositions }
+}
+
+const createRunningEntry = (
+  id: string,
+  expandedRect: Rect,
+  abortAfterIntentLost: number
+): ForesightElementInternal =>
+  ({
+    state: {
+      id,
+      isActive: true,
+      isPredicted: true,
+      isCallbackRunning: true,
+      isIntersectingWithViewport: true,
+      abortAfterIntentLost,
+      settings: {},
+    },
+    bounds: { expandedRect },
+    runningCallback: { hitType: { kind: "mouse", subType: "hover" } },
+  }) as unknown as ForesightElementInternal
+
+// Steady horizontal movement at 0.625px/ms along y=150, ending at x=20.
+// With the default 120ms prediction time the predicted point is 75px ahead.
+const moveTowardsRect = (predictor: MousePredictor) => {
+  const nowSpy = vi.spyOn(performance, "now")
+  for (const [x, time] of [
+    [0, 0],
+    [10, 16],
+    [20, 32],
+  ]) {
+    nowSpy.mockReturnValue(time!)
+    predictor.processMouseMovement({ clientX: x, clientY: 150 } as MouseEvent)
+  }
+  nowSpy.mockRestore()
 }
 
 describe("MousePredictor", () => {
@@ -90,4 +156,471 @@ describe("MousePredictor", () => {
       expect(callCallback).not.toHaveBeenCalled()
     })
   })
+
+  describe("trajectory confidence", () => {
+    const rect: Rect = { top: 100, left: 60, right: 200, bottom: 200 }
+
+    it("should pass the confidence of a trajectory hit to callCallback", () => {
+      const entry = createInternalEntry("a", rect)
+      const { predictor, callCallback } = setupPredictor([entry], true)
+
+      moveTowardsRect(predictor)
+
+      // Enters 8/15 of the way along a straight, evenly paced path
+      expect(callCallback).toHaveBeenLastCalledWith(
+        entry,
+        { kind: "mouse", subType: "trajectory" },
+        expect.closeTo(0.4 * (7 / 15) + 0.35 + 0.25)
+      )
+    })
+
+    it("should skip hits below the element's minConfidence", () => {
+      const entry = createInternalEntry("a", rect, 0.9)
+      const { predictor, callCallback } = setupPredictor([entry], true)
+
+      moveTowardsRect(predictor)
+
+      expect(callCallback).not.toHaveBeenCalled()
+    })
+
+    it("should always fire when the cursor is inside the element", () => {
+      const entry = createInternalEntry("a", rect, 1)
+      const { predictor, callCallback } = setupPredictor([entry], true)
+
+      predictor.processMouseMovement({ clientX: 150, clientY: 150 } as MouseEvent)
+
+      expect(callCallback).toHaveBeenCalledWith(entry, { kind: "mouse", subType: "trajectory" }, 1)
+    })
+  })
+
+  describe("per-element settings", () => {
+    // Out of reach of the global 75px prediction, within reach of a 200ms one
+    const farRect: Rect = { top: 100, left: 100, right: 200, bottom: 200 }
+
+    it("should predict further ahead for an element with a longer trajectoryPredictionTime", () => {
+      const globalEntry = createInternalEntry("global", farRect)
+      const farEntry = createInternalEntry("far", farRect, 0, { trajectoryPredictionTime: 200 })
+      const { predictor, callCallback } = setupPredictor([globalEntry, farEntry], true)
+
+      moveTowardsRect(predictor)
+
+      expect(callCallback).not.toHaveBeenCalledWith(
+        globalEntry,
+        expect.anything(),
+        expect.anything()
+      )
+      expect(callCallback).toHaveBeenCalledWith(
+        farEntry,
+        { kind: "mouse", subType: "trajectory" },
+        expect.any(Number)
+      )
+    })
+
+    it("should predict for an element that enables mouse prediction while it is globally off", () => {
+      const rect: Rect = { top: 100, left: 60, right: 200, bottom: 200 }
+      const hoverEntry = createInternalEntry("hover", rect)
+      const predictingEntry = createInternalEntry("predicting", rect, 0, {
+        enableMousePrediction: true,
+      })
+      const { predictor, callCallback } = setupPredictor([hoverEntry, predictingEntry], false)
+
+      moveTowardsRect(predictor)
+
+      expect(callCallback).not.toHaveBeenCalledWith(
+        hoverEntry,
+        expect.anything(),
+        expect.anything()
+      )
+      expect(callCallback).toHaveBeenCalledWith(
+        predictingEntry,
+        { kind: "mouse", subType: "trajectory" },
+        expect.any(Number)
+      )
+    })
+  })
+
+  describe("trajectoryModel", () => {
+    it("predicts with a custom model function", () => {
+      const rect: Rect = { top: 480, left: 480, right: 520, bottom: 520 }
+      const entry = createInternalEntry("a", rect)
+      const trajectoryModel = vi.fn((_current, _buffer, _time, out) => {
+        out.x = 500
+        out.y = 500
+      })
+      const { predictor, callCallback } = setupPredictor([entry], true, { trajectoryModel })
+
+      predictor.processMouseMovement({ clientX: 0, clientY: 0 } as MouseEvent)
+
+      expect(trajectoryModel).toHaveBeenCalledWith({ x: 0, y: 0 }, expect.anything(), 120, {
+        x: 500,
+        y: 500,
+      })
+      expect(callCallback).toHaveBeenCalledWith(
+        entry,
+        { kind: "mouse", subType: "trajectory" },
+        expect.any(Number)
+      )
+    })
+
+    it("clears the position history when switching models", () => {
+      const { predictor, dependencies, trajectoryPositions } = setupPredictor([], true)
+      moveTowardsRect(predictor)
+      const trajectoryModel = vi.fn()
+
+      dependencies.settings.trajectoryModel = trajectoryModel
+      predictor.resetTrajectoryModel()
+
+      expect(trajectoryPositions.positions.length).toBe(0)
+      predictor.processMouseMovement({ clientX: 30, clientY: 150 } as MouseEvent)
+      expect(trajectoryModel).toHaveBeenCalled()
+    })
+  })
+
+  describe("trajectoryShape", () => {
+    // Heading right, then turning down (y grows downwards)
+    const turnTowardsRect = (predictor: MousePredictor) => {
+      const nowSpy = vi.spyOn(performance, "now")
+      for (const [x, y, time] of [
+        [0, 0, 0],
+        [10, 0, 10],
+        [20, 0, 20],
+        [28, 5, 30],
+        [33, 13, 40],
+      ]) {
+        nowSpy.mockReturnValue(time!)
+        predictor.processMouseMovement({ clientX: x, clientY: y } as MouseEvent)
+      }
+      nowSpy.mockRestore()
+    }
+    // Where the bend leads, away from the straight prediction
+    const rect: Rect = { top: 80, left: 50, right: 90, bottom: 120 }
+
+    it("misses a target at the end of a bend with the line shape", () => {
+      const entry = createInternalEntry("a", rect)
+      const { predictor, callCallback } = setupPredictor([entry], true)
+
+      turnTowardsRect(predictor)
+
+      expect(callCallback).not.toHaveBeenCalled()
+    })
+
+    it("hits a target at the end of a bend with the curve shape", () => {
+      const entry = createInternalEntry("a", rect)
+      const { predictor, callCallback, trajectoryPositions } = setupPredictor([entry], true, {
+        trajectoryShape: "curve",
+      })
+
+      turnTowardsRect(predictor)
+
+      expect(callCallback).toHaveBeenCalledWith(
+        entry,
+        { kind: "mouse", subType: "trajectory" },
+        expect.any(Number)
+      )
+      expect(trajectoryPositions.predictedPath.length).toBeGreaterThan(2)
+    })
+
+    it("publishes the straight path with the line shape", () => {
+      const { predictor, trajectoryPositions } = setupPredictor([], true)
+
+      turnTowardsRect(predictor)
+
+      expect(trajectoryPositions.predictedPath).toEqual([
+        trajectoryPositions.currentPoint,
+        trajectoryPositions.predictedPoint,
+      ])
+      expect(trajectoryPositions.predictedCone).toBeNull()
+    })
+
+    it("hits a target just off the predicted direction with the cone shape", () => {
+      // Below the straight path along y=150, inside the cone of a short history
+      const offAxisRect: Rect = { top: 160, left: 80, right: 95, bottom: 175 }
+      const lineEntry = createInternalEntry("a", offAxisRect)
+      const line = setupPredictor([lineEntry], true)
+      const coneEntry = createInternalEntry("b", offAxisRect)
+      const cone = setupPredictor([coneEntry], true, { trajectoryShape: "cone" })
+
+      moveTowardsRect(line.predictor)
+      moveTowardsRect(cone.predictor)
+
+      expect(line.callCallback).not.toHaveBeenCalled()
+      expect(cone.callCallback).toHaveBeenCalledWith(
+        coneEntry,
+        { kind: "mouse", subType: "trajectory" },
+        expect.any(Number)
+      )
+      expect(cone.trajectoryPositions.predictedCone).toMatchObject({
+        origin: { x: 20, y: 150 },
+        heading: 0,
+        length: 75,
+      })
+    })
+  })
+
+  describe("element index", () => {
+    it("skips elements far from the predicted path", () => {
+      const far = createInternalEntry("far", { top: 1000, left: 1000, right: 1100, bottom: 1100 })
+      const { predictor } = setupPredictor([far], true)
+      const state = far.state
+      const readState = vi.fn(() => state)
+      Object.defineProperty(far, "state", { get: readState })
+
+      moveTowardsRect(predictor)
+
+      expect(readState).not.toHaveBeenCalled()
+    })
+
+    it("still cancels a dwell once the path moves far away", () => {
+      vi.useFakeTimers()
+      const entry = createInternalEntry("a", { top: 140, left: 60, right: 70, bottom: 160 })
+      const { predictor, callCallback } = setupPredictor([entry], true, { minDwellMs: 100 })
+
+      moveTowardsRect(predictor)
+      expect(entry.state.isDwelling).toBe(true)
+
+      predictor.processMouseMovement({ clientX: 900, clientY: 900 } as MouseEvent)
+      vi.advanceTimersByTime(100)
+
+      expect(entry.state.isDwelling).toBe(false)
+      expect(callCallback).not.toHaveBeenCalled()
+      vi.useRealTimers()
+    })
+  })
+
+  describe("maxTargetsPerMove", () => {
+    // Three elements in a row along the path at y=150
+    const createRow = () => [
+      createInternalEntry("far", { top: 140, left: 80, right: 90, bottom: 160 }),
+      createInternalEntry("near", { top: 140, left: 40, right: 50, bottom: 160 }),
+      createInternalEntry("middle", { top: 140, left: 60, right: 70, bottom: 160 }),
+    ]
+
+    it("fires every crossed element without a limit", () => {
+      const { predictor, callCallback, dependencies } = setupPredictor(createRow(), true)
+
+      moveTowardsRect(predictor)
+
+      for (const entry of dependencies.elements.values()) {
+        expect(callCallback).toHaveBeenCalledWith(
+          entry,
+          { kind: "mouse", subType: "trajectory" },
+          expect.any(Number)
+        )
+      }
+    })
+
+    it("fires only the best ranked elements and reports the rest", () => {
+      const [far, near, middle] = createRow()
+      const { predictor, callCallback, emit } = setupPredictor([far!, near!, middle!], true, {
+        maxTargetsPerMove: 1,
+      })
+
+      moveTowardsRect(predictor)
+
+      expect(callCallback).toHaveBeenCalledWith(
+        near,
+        { kind: "mouse", subType: "trajectory" },
+        expect.any(Number)
+      )
+      expect(callCallback).not.toHaveBeenCalledWith(far, expect.anything(), expect.anything())
+      expect(callCallback).not.toHaveBeenCalledWith(middle, expect.anything(), expect.anything())
+
+      const event = emit.mock.lastCall![0] as MouseTrajectoryUpdateEvent
+      expect(event.rankedOutCandidates.map(candidate => candidate.element)).toEqual([
+        middle!.element,
+        far!.element,
+      ])
+      expect(event.rankedOutCandidates[0]).not.toHaveProperty("internal")
+    })
+
+    it("lets priority decide between elements entered at the same point", () => {
+      const rect: Rect = { top: 140, left: 60, right: 70, bottom: 160 }
+      const low = createInternalEntry("low", rect)
+      const high = createInternalEntry("high", rect)
+      low.state = { ...low.state, priority: 0 }
+      high.state = { ...high.state, priority: 5 }
+      const { predictor, callCallback } = setupPredictor([low, high], true, {
+        maxTargetsPerMove: 1,
+      })
+
+      moveTowardsRect(predictor)
+
+      expect(callCallback).toHaveBeenCalledWith(
+        high,
+        { kind: "mouse", subType: "trajectory" },
+        expect.any(Number)
+      )
+      expect(callCallback).not.toHaveBeenCalledWith(low, expect.anything(), expect.anything())
+    })
+
+    it("keeps registration order between otherwise equal elements", () => {
+      const rect: Rect = { top: 140, left: 60, right: 70, bottom: 160 }
+      const first = createInternalEntry("first", rect)
+      const second = createInternalEntry("second", rect)
+      const { predictor, callCallback, dependencies } = setupPredictor([first, second], true, {
+        maxTargetsPerMove: 1,
+      })
+      // Re-index the first element so the index returns it last
+      dependencies.elementIndex.delete(first)
+      dependencies.elementIndex.set(first, rect)
+
+      moveTowardsRect(predictor)
+
+      expect(callCallback).toHaveBeenCalledWith(
+        first,
+        { kind: "mouse", subType: "trajectory" },
+        expect.any(Number)
+      )
+      expect(callCallback).not.toHaveBeenCalledWith(second, expect.anything(), expect.anything())
+    })
+  })
+
+  describe("minDwellMs", () => {
+    const rect: Rect = { top: 100, left: 60, right: 200, bottom: 200 }
+
+    beforeEach(() => {
+      vi.useFakeTimers()
+    })
+
+    afterEach(() => {
+      vi.useRealTimers()
+    })
+
+    const getDwellPhases = (emit: ReturnType<typeof vi.fn>) =>
+      emit.mock.calls
+        .map(([event]) => event)
+        .filter(event => event.type === "trajectoryDwellChanged")
+        .map(event => event.phase)
+
+    // Keeps gliding right after moveTowardsRect at 5px per 16ms frame, slow enough
+    // to stay short of the rect while the predicted path still crosses it
+    const keepMovingTowardsRect = (predictor: MousePredictor, frames: number) => {
+      const nowSpy = vi.spyOn(performance, "now")
+      for (let i = 1; i <= frames; i++) {
+        vi.advanceTimersByTime(16)
+        nowSpy.mockReturnValue(32 + i * 16)
+        predictor.processMouseMovement({ clientX: 20 + i * 5, clientY: 150 } as MouseEvent)
+      }
+
+      return nowSpy
+    }
+
+    it("holds a trajectory hit back until the path kept crossing for minDwellMs", () => {
+      const entry = createInternalEntry("a", rect, 0, { minDwellMs: 100 })
+      const { predictor, callCallback, emit } = setupPredictor([entry], true)
+
+      moveTowardsRect(predictor)
+      expect(callCallback).not.toHaveBeenCalled()
+      expect(entry.state.isDwelling).toBe(true)
+
+      const nowSpy = keepMovingTowardsRect(predictor, 6)
+      expect(callCallback).not.toHaveBeenCalled()
+      vi.advanceTimersByTime(4)
+      nowSpy.mockRestore()
+
+      expect(callCallback).toHaveBeenCalledWith(
+        entry,
+        { kind: "mouse", subType: "trajectory" },
+        expect.any(Number)
+      )
+      expect(entry.state.isDwelling).toBe(false)
+      expect(getDwellPhases(emit)).toEqual(["started", "confirmed"])
+    })
+
+    it("cancels the dwell once the path stops crossing the element", () => {
+      const entry = createInternalEntry("a", rect, 0, { minDwellMs: 100 })
+      const { predictor, callCallback, emit } = setupPredictor([entry], true)
+
+      moveTowardsRect(predictor)
+      predictor.processMouseMovement({ clientX: 20, clientY: 400 } as MouseEvent)
+      vi.advanceTimersByTime(100)
+
+      expect(callCallback).not.toHaveBeenCalled()
+      expect(entry.state.isDwelling).toBe(false)
+      expect(getDwellPhases(emit)).toEqual(["started", "cancelled"])
+    })
+
+    it("cancels the dwell when the cursor stops short of the element", () => {
+      const entry = createInternalEntry("a", rect, 0, { minDwellMs: 100 })
+      const { predictor, callCallback, emit } = setupPredictor([entry], true)
+
+      moveTowardsRect(predictor)
+      // No further frames arrive, the cursor just rests at x=20
+      const nowSpy = vi.spyOn(performance, "now").mockReturnValue(132)
+      vi.advanceTimersByTime(100)
+      nowSpy.mockRestore()
+
+      expect(callCallback).not.toHaveBeenCalled()
+      expect(entry.state.isDwelling).toBe(false)
+      expect(getDwellPhases(emit)).toEqual(["started", "cancelled"])
+    })
+
+    it("does not delay a hit while the cursor is inside the element", () => {
+      const entry = createInternalEntry("a", rect, 0, { minDwellMs: 100 })
+      const { predictor, callCallback } = setupPredictor([entry], true)
+
+      predictor.processMouseMovement({ clientX: 150, clientY: 150 } as MouseEvent)
+
+      expect(callCallback).toHaveBeenCalledWith(entry, { kind: "mouse", subType: "trajectory" }, 1)
+    })
+
+    it("cancels pending dwells when the predictor disconnects", () => {
+      const entry = createInternalEntry("a", rect, 0, { minDwellMs: 100 })
+      const { predictor, callCallback } = setupPredictor([entry], true)
+
+      predictor.connect()
+      moveTowardsRect(predictor)
+      predictor.disconnect()
+      vi.advanceTimersByTime(100)
+
+      expect(callCallback).not.toHaveBeenCalled()
+      expect(entry.state.isDwelling).toBe(false)
+    })
+  })
+
+  describe("abortAfterIntentLost", () => {
+    const rect: Rect = { top: 100, left: 100, right: 200, bottom: 200 }
+
+    beforeEach(() => {
+      vi.useFakeTimers()
+    })
+
+    afterEach(() => {
+      vi.useRealTimers()
+    })
+
+    it("aborts a running mouse callback once the cursor stays away long enough", () => {
+      const entry = createRunningEntry("a", rect, 100)
+      const { predictor, abortCallback } = setupPredictor([entry], false)
+
+      predictor.processMouseMovement({ clientX: 50, clientY: 50 } as MouseEvent)
+      vi.advanceTimersByTime(99)
+      expect(abortCallback).not.toHaveBeenCalled()
+
+      vi.advanceTimersByTime(1)
+      expect(abortCallback).toHaveBeenCalledWith(entry, "intentLost")
+    })
+
+    it("cancels the pending abort when the cursor heads back", () => {
+      const entry = createRunningEntry("a", rect, 100)
+      const { predictor, abortCallback } = setupPredictor([entry], false)
+
+      predictor.processMouseMovement({ clientX: 50, clientY: 50 } as MouseEvent)
+      vi.advanceTimersByTime(50)
+      predictor.processMouseMovement({ clientX: 150, clientY: 150 } as MouseEvent)
+      vi.advanceTimersByTime(100)
+
+      expect(abortCallback).not.toHaveBeenCalled()
+    })
+
+    it("never aborts with the default of Infinity", () => {
+      const entry = createRunningEntry("a", rect, Infinity)
+      const { predictor, abortCallback } = setupPredictor([entry], false)
+
+      predictor.processMouseMovement({ clientX: 50, clientY: 50 } as MouseEvent)
+      vi.advanceTimersByTime(10000)
+
+      expect(abortCallback).not.toHaveBeenCalled()
+    })
+  })
 })
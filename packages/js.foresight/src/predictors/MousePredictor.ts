@@ -1,18 +1,80 @@
-import { lineSegmentIntersectsRect } from "../helpers/lineSegmentIntersectsRect"
-import { predictNextMousePosition } from "../helpers/predictNextMousePosition"
-import { isPointInRectangle } from "../helpers/rectAndHitSlop"
+import {
+  createConeOutline,
+  getConeHalfAngle,
+  getConeRectEntry,
+  updateConeOutline,
+} from "../helpers/coneIntersectsRect"
+import { getSegmentRectEntry } from "../helpers/lineSegmentIntersectsRect"
+import {
+  CURVED_PATH_SEGMENTS,
+  getPathRectEntry,
+  measureTurnRate,
+  predictCurvedPath,
+} from "../helpers/predictCurvedPath"
+import {
+  computePredictionConfidence,
+  measureMotionSteadiness,
+  type MotionSteadiness,
+} from "../helpers/predictionConfidence"
+import { rankTrajectoryCandidates } from "../helpers/rankTrajectoryCandidates"
+import { createTrajectoryModel } from "../helpers/trajectoryModels"
+import { getPointsBoundingRect, isPointInRectangle } from "../helpers/rectAndHitSlop"
 import { BaseForesightModule, type ForesightModuleDependencies } from "../core/BaseForesightModule"
-import type { MouseTrajectoryUpdateEvent, TrajectoryPositions } from "../types/types"
+import type {
+  ForesightElementInternal,
+  MouseTrajectoryUpdateEvent,
+  Point,
+  TrajectoryDwellPhase,
+  TrajectoryModelFunction,
+  TrajectoryPositions,
+  Rect,
+  TrajectoryCone,
+  TrajectoryCandidate,
+} from "../types/types"
 
 interface MousePredictorConfig {
   dependencies: ForesightModuleDependencies
   trajectoryPositions: TrajectoryPositions
 }
 
+type TrajectoryHit = TrajectoryCandidate & { internal: ForesightElementInternal }
+
+const createPath = (): Point[] =>
+  Array.from({ length: CURVED_PATH_SEGMENTS + 1 }, () => ({ x: 0, y: 0 }))
+
 export class MousePredictor extends BaseForesightModule {
   protected readonly moduleName = "MousePredictor"
 
   private trajectoryPositions: TrajectoryPositions
+  private predictTrajectory: TrajectoryModelFunction
+
+  // Prediction at the global trajectoryPredictionTime, computed even when mouse
+  // prediction is globally disabled so element overrides can still use it
+  private readonly rawPredictedPoint: Point = { x: 0, y: 0 }
+  // Reused for elements with their own trajectoryPredictionTime
+  private readonly scaledPredictedPoint: Point = { x: 0, y: 0 }
+
+  // Published as trajectoryPositions.predictedPath for the line shape
+  private readonly linePath: Point[]
+  // Line to the raw prediction, which element overrides can use while globally disabled
+  private readonly rawLinePath: Point[]
+  // Curve at the global trajectoryPredictionTime, and one reused for element overrides
+  private readonly curvedPath: Point[] = createPath()
+  private readonly scaledCurvedPath: Point[] = createPath()
+  private turnRate = 0
+  // Cone at the global trajectoryPredictionTime, and one reused for element overrides
+  private readonly cone: TrajectoryCone
+  private readonly coneOutline: Point[] = createConeOutline()
+  private readonly scaledCone: TrajectoryCone
+  private readonly scaledConeOutline: Point[] = createConeOutline()
+
+  // Elements checked on the current move, see collectHitTestElements
+  private readonly hitTestElements: Set<ForesightElementInternal> = new Set()
+  private readonly hitTestArea: Rect = { top: 0, left: 0, right: 0, bottom: 0 }
+  // Elements with a pending dwell, which must notice when the path stops crossing them
+  private readonly dwellingElements: Set<ForesightElementInternal> = new Set()
+  // Trajectory hits of the current move, fired once all elements are checked
+  private readonly trajectoryHits: TrajectoryHit[] = []
 
   // Pre-allocated event object to avoid creating a new object every frame (~60/sec)
   private readonly mouseTrajectoryEvent: MouseTrajectoryUpdateEvent
@@ -21,46 +83,190 @@ export class MousePredictor extends BaseForesightModule {
     super(config.dependencies)
 
     this.trajectoryPositions = config.trajectoryPositions
+    this.linePath = [this.trajectoryPositions.currentPoint, this.trajectoryPositions.predictedPoint]
+    this.trajectoryPositions.predictedPath = this.linePath
+    this.rawLinePath = [this.trajectoryPositions.currentPoint, this.rawPredictedPoint]
+    const origin = this.trajectoryPositions.currentPoint
+    this.cone = { origin, heading: 0, halfAngle: 0, length: 0 }
+    this.scaledCone = { origin, heading: 0, halfAngle: 0, length: 0 }
+    this.predictTrajectory = createTrajectoryModel(this.settings.trajectoryModel)
     this.mouseTrajectoryEvent = {
       type: "mouseTrajectoryUpdate",
       predictionEnabled: false,
       trajectoryPositions: this.trajectoryPositions,
+      rankedOutCandidates: [],
     }
   }
 
-  private updatePointerState(e: MouseEvent): void {
+  private updatePointerState(clientX: number, clientY: number): void {
     // Mutate existing point objects instead of creating new ones (perf optimization)
     const currentPoint = this.trajectoryPositions.currentPoint
-    currentPoint.x = e.clientX
-    currentPoint.y = e.clientY
+    currentPoint.x = clientX
+    currentPoint.y = clientY
+
+    this.predictTrajectory(
+      currentPoint,
+      this.trajectoryPositions.positions,
+      this.settings.trajectoryPredictionTime,
+      this.rawPredictedPoint // reuse existing object
+    )
+
+    const predictedPoint = this.trajectoryPositions.predictedPoint
+    const source = this.settings.enableMousePrediction ? this.rawPredictedPoint : currentPoint
+    predictedPoint.x = source.x
+    predictedPoint.y = source.y
+
+    const { enableMousePrediction, trajectoryPredictionTime } = this.settings
+    this.trajectoryPositions.predictedPath = this.linePath
+    this.trajectoryPositions.predictedCone = null
 
-    if (this.settings.enableMousePrediction) {
-      predictNextMousePosition(
-        currentPoint,
-        this.trajectoryPositions.positions,
-        this.settings.trajectoryPredictionTime,
-        this.trajectoryPositions.predictedPoint // reuse existing object
-      )
-    } else {
-      this.trajectoryPositions.predictedPoint.x = currentPoint.x
-      this.trajectoryPositions.predictedPoint.y = currentPoint.y
+    switch (this.settings.trajectoryShape) {
+      case "curve":
+        this.turnRate = measureTurnRate(this.trajectoryPositions.positions)
+        predictCurvedPath(
+          currentPoint,
+          this.rawPredictedPoint,
+          this.turnRate,
+          trajectoryPredictionTime,
+          this.curvedPath
+        )
+        if (enableMousePrediction) {
+          this.trajectoryPositions.predictedPath = this.curvedPath
+        }
+
+        break
+      case "cone":
+        this.updateCone(trajectoryPredictionTime)
+        if (enableMousePrediction) {
+          this.trajectoryPositions.predictedCone = this.cone
+        }
+
+        break
+    }
+  }
+
+  /**
+   * Aim the cone at the raw prediction. It is widest while the history is
+   * short or the heading wanders, and narrows as the cursor speeds up.
+   */
+  private updateCone(predictionTime: number): void {
+    const currentPoint = this.trajectoryPositions.currentPoint
+    const positions = this.trajectoryPositions.positions
+    const dx = this.rawPredictedPoint.x - currentPoint.x
+    const dy = this.rawPredictedPoint.y - currentPoint.y
+    const length = Math.hypot(dx, dy)
+    const historyFill = Math.min(1, (positions.length - 1) / (positions.size - 1))
+
+    this.cone.heading = Math.atan2(dy, dx)
+    this.cone.length = length
+    this.cone.halfAngle = getConeHalfAngle(
+      measureMotionSteadiness(positions).heading,
+      Math.max(0, historyFill),
+      length / predictionTime
+    )
+    updateConeOutline(this.cone, this.coneOutline)
+  }
+
+  /**
+   * Switch to the current `trajectoryModel` setting. The position history is
+   * cleared so the new model does not start from samples the old one recorded.
+   */
+  public resetTrajectoryModel(): void {
+    this.trajectoryPositions.positions.clear()
+    this.predictTrajectory = createTrajectoryModel(this.settings.trajectoryModel)
+  }
+
+  /**
+   * The predicted point for an element, scaled from the global prediction when
+   * the element overrides `trajectoryPredictionTime`. The velocity is the same
+   * for every element, so only the distance along it changes.
+   */
+  private getPredictedPoint(internal: ForesightElementInternal): Point {
+    const predictionTime = this.getElementSetting(internal, "trajectoryPredictionTime")
+    const globalPredictionTime = this.settings.trajectoryPredictionTime
+    if (predictionTime === globalPredictionTime) {
+      return this.rawPredictedPoint
+    }
+
+    const currentPoint = this.trajectoryPositions.currentPoint
+    const scale = predictionTime / globalPredictionTime
+    this.scaledPredictedPoint.x =
+      currentPoint.x + (this.rawPredictedPoint.x - currentPoint.x) * scale
+    this.scaledPredictedPoint.y =
+      currentPoint.y + (this.rawPredictedPoint.y - currentPoint.y) * scale
+
+    return this.scaledPredictedPoint
+  }
+
+  /**
+   * Where the element's predicted line, curve or cone, depending on the
+   * `trajectoryShape` setting, enters its rect, see {@link getSegmentRectEntry}.
+   */
+  private getTrajectoryEntry(internal: ForesightElementInternal, rect: Rect): number | null {
+    const currentPoint = this.trajectoryPositions.currentPoint
+    const predictedPoint = this.getPredictedPoint(internal)
+    const isScaled = predictedPoint !== this.rawPredictedPoint
+
+    switch (this.settings.trajectoryShape) {
+      case "curve":
+        if (!isScaled) {
+          return getPathRectEntry(this.curvedPath, rect)
+        }
+
+        predictCurvedPath(
+          currentPoint,
+          predictedPoint,
+          this.turnRate,
+          this.getElementSetting(internal, "trajectoryPredictionTime"),
+          this.scaledCurvedPath
+        )
+
+        return getPathRectEntry(this.scaledCurvedPath, rect)
+      case "cone":
+        if (!isScaled) {
+          return getConeRectEntry(this.cone, this.coneOutline, rect)
+        }
+
+        // Same heading and speed, so only the length changes
+        this.scaledCone.heading = this.cone.heading
+        this.scaledCone.halfAngle = this.cone.halfAngle
+        this.scaledCone.length = Math.hypot(
+          predictedPoint.x - currentPoint.x,
+          predictedPoint.y - currentPoint.y
+        )
+        updateConeOutline(this.scaledCone, this.scaledConeOutline)
+
+        return getConeRectEntry(this.scaledCone, this.scaledConeOutline, rect)
+      default:
+        return getSegmentRectEntry(currentPoint, predictedPoint, rect)
     }
   }
 
   public processMouseMovement(e: MouseEvent): void {
-    this.updatePointerState(e)
-    const enablePrediction = this.settings.enableMousePrediction
+    this.updatePointerState(e.clientX, e.clientY)
     const currentPoint = this.trajectoryPositions.currentPoint
+    // Measured lazily, only on frames with at least one trajectory hit
+    let motion: MotionSteadiness | null = null
 
-    for (const internal of this.elements.values()) {
+    for (const internal of this.collectHitTestElements()) {
       const state = internal.state
+      const enablePrediction = this.getElementSetting(internal, "enableMousePrediction")
+      if (state.isCallbackRunning) {
+        this.trackIntent(internal, enablePrediction)
+
+        continue
+      }
+
       if (!state.isIntersectingWithViewport || !state.isActive || state.isPredicted) {
+        this.cancelDwell(internal)
+
         continue
       }
 
       const expandedRect = internal.bounds.expandedRect
 
       if (!enablePrediction) {
+        this.cancelDwell(internal)
         if (isPointInRectangle(currentPoint, expandedRect)) {
           this.callCallback(internal, { kind: "mouse", subType: "hover" })
 
@@ -68,23 +274,244 @@ export class MousePredictor extends BaseForesightModule {
         }
 
         // when enable mouse prediction is off, we only check if the mouse is physically hovering over the element
-      } else if (
-        lineSegmentIntersectsRect(
-          currentPoint,
-          this.trajectoryPositions.predictedPoint,
-          expandedRect
-        )
-      ) {
-        this.callCallback(internal, { kind: "mouse", subType: "trajectory" })
+        continue
+      }
+
+      const entry = this.getTrajectoryEntry(internal, expandedRect)
+      if (entry === null) {
+        this.cancelDwell(internal)
+
+        continue
       }
+
+      motion ??= measureMotionSteadiness(this.trajectoryPositions.positions)
+      const confidence = computePredictionConfidence(entry, motion)
+      if (confidence < state.minConfidence) {
+        this.cancelDwell(internal)
+
+        continue
+      }
+
+      this.trajectoryHits.push({
+        internal,
+        element: internal.element,
+        name: state.name,
+        entry,
+        centerDistance: this.measureCenterDistance(internal, expandedRect, entry),
+        priority: state.priority,
+        confidence,
+      })
     }
 
+    this.fireTrajectoryHits()
+
     if (this.hasListeners("mouseTrajectoryUpdate")) {
-      this.mouseTrajectoryEvent.predictionEnabled = enablePrediction
+      this.mouseTrajectoryEvent.predictionEnabled = this.settings.enableMousePrediction
       this.emit(this.mouseTrajectoryEvent)
     }
   }
 
-  protected onDisconnect(): void {}
+  /**
+   * The elements worth checking on this move: indexed elements near the
+   * predicted shape, plus running callbacks and pending dwells, which must
+   * notice when the path leaves them. Hovering is covered too, since the shape
+   * starts at the cursor.
+   */
+  private collectHitTestElements(): Set<ForesightElementInternal> {
+    let shape = this.rawLinePath
+    if (this.settings.trajectoryShape === "curve") {
+      shape = this.curvedPath
+    } else if (this.settings.trajectoryShape === "cone") {
+      shape = this.coneOutline
+    }
+
+    const elements = this.hitTestElements
+    elements.clear()
+    this.elementIndex.query(getPointsBoundingRect(shape, this.hitTestArea), elements)
+    for (const internal of this.runningElements) {
+      elements.add(internal)
+    }
+
+    for (const internal of this.dwellingElements) {
+      elements.add(internal)
+    }
+
+    return elements
+  }
+
+  /**
+   * Distance from where the element's predicted path enters its rect to the
+   * rect's center. The entry point is taken on the straight prediction, which
+   * is close enough to tell apart elements entered at the same distance.
+   */
+  private measureCenterDistance(
+    internal: ForesightElementInternal,
+    rect: Rect,
+    entry: number
+  ): number {
+    const currentPoint = this.trajectoryPositions.currentPoint
+    const predictedPoint = this.getPredictedPoint(internal)
+    const entryX = currentPoint.x + (predictedPoint.x - currentPoint.x) * entry
+    const entryY = currentPoint.y + (predictedPoint.y - currentPoint.y) * entry
+
+    return Math.hypot(entryX - (rect.left + rect.right) / 2, entryY - (rect.top + rect.bottom) / 2)
+  }
+
+  /**
+   * Fire the trajectory hits of this move. When there are more than
+   * `maxTargetsPerMove`, only the best ranked ones fire and the rest are
+   * reported as `rankedOutCandidates`.
+   */
+  private fireTrajectoryHits(): void {
+    const hits = this.trajectoryHits
+    const currentPoint = this.trajectoryPositions.currentPoint
+    let rankedOut: TrajectoryCandidate[] = []
+    if (hits.length > this.settings.maxTargetsPerMove) {
+      // The spatial index returns elements in no particular order, so restore
+      // registration order first for the stable ranking to break ties with
+      hits.sort((a, b) => a.internal.registrationOrder - b.internal.registrationOrder)
+      rankedOut = rankTrajectoryCandidates(hits)
+        .splice(this.settings.maxTargetsPerMove)
+        .map(({ internal, ...candidate }) => {
+          this.cancelDwell(internal)
+
+          return candidate
+        })
+    }
+
+    for (const { internal, confidence } of hits) {
+      const minDwellMs = this.getElementSetting(internal, "minDwellMs")
+      if (minDwellMs > 0 && !isPointInRectangle(currentPoint, internal.bounds.expandedRect)) {
+        this.dwell(internal, minDwellMs)
+
+        continue
+      }
+
+      this.cancelDwell(internal)
+      this.callCallback(internal, { kind: "mouse", subType: "trajectory" }, confidence)
+    }
+
+    hits.length = 0
+    this.mouseTrajectoryEvent.rankedOutCandidates = rankedOut
+  }
+
+  /**
+   * Abort a mouse-started callback once the cursor has stopped heading for its
+   * element for `abortAfterIntentLost` ms. Heading back cancels the pending abort.
+   */
+  private trackIntent(internal: ForesightElementInternal, enablePrediction: boolean): void {
+    const abortAfterIntentLost = internal.state.abortAfterIntentLost
+    if (abortAfterIntentLost === Infinity || internal.runningCallback?.hitType.kind !== "mouse") {
+      return
+    }
+
+    const expandedRect = internal.bounds.expandedRect
+    const isOnCourse = enablePrediction
+      ? this.getTrajectoryEntry(internal, expandedRect) !== null
+      : isPointInRectangle(this.trajectoryPositions.currentPoint, expandedRect)
+
+    if (isOnCourse) {
+      clearTimeout(internal.intentLostTimeoutId)
+      internal.intentLostTimeoutId = undefined
+
+      return
+    }
+
+    if (internal.intentLostTimeoutId === undefined) {
+      internal.intentLostTimeoutId = setTimeout(() => {
+        internal.intentLostTimeoutId = undefined
+        this.abortCallback(internal, "intentLost")
+      }, abortAfterIntentLost)
+    }
+  }
+
+  /**
+   * Hold a trajectory hit back until the predicted path has kept crossing the
+   * element for `minDwellMs`. A frame that misses cancels the dwell via
+   * {@link cancelDwell}. A cursor that stopped short sends no more frames, so
+   * the path is checked once more when the dwell ends, see {@link measureDwellConfidence}.
+   */
+  private dwell(internal: ForesightElementInternal, minDwellMs: number): void {
+    if (internal.dwellTimeoutId !== undefined) {
+      return
+    }
+
+    this.dwellingElements.add(internal)
+    internal.dwellTimeoutId = setTimeout(() => {
+      internal.dwellTimeoutId = undefined
+      this.dwellingElements.delete(internal)
+      const { isActive, isPredicted } = internal.state
+      const confidence =
+        this.elements.get(internal.element) === internal && isActive && !isPredicted
+          ? this.measureDwellConfidence(internal)
+          : null
+      if (confidence === null) {
+        this.setDwelling(internal, false, "cancelled", minDwellMs)
+
+        return
+      }
+
+      this.setDwelling(internal, false, "confirmed", minDwellMs)
+      this.callCallback(internal, { kind: "mouse", subType: "trajectory" }, confidence)
+    }, minDwellMs)
+    this.setDwelling(internal, true, "started", minDwellMs)
+  }
+
+  /**
+   * The confidence of the element's trajectory hit as of now, or `null` once the
+   * path no longer crosses it with at least `minConfidence`. The cursor is sampled
+   * where it is first, so one that stopped moving no longer predicts a path ahead.
+   */
+  private measureDwellConfidence(internal: ForesightElementInternal): number | null {
+    const currentPoint = this.trajectoryPositions.currentPoint
+    this.updatePointerState(currentPoint.x, currentPoint.y)
+    const entry = this.getTrajectoryEntry(internal, internal.bounds.expandedRect)
+    if (entry === null) {
+      return null
+    }
+
+    const confidence = computePredictionConfidence(
+      entry,
+      measureMotionSteadiness(this.trajectoryPositions.positions)
+    )
+
+    return confidence < internal.state.minConfidence ? null : confidence
+  }
+
+  /** Cancel a pending dwell, if any. Called for elements that are no longer observed too. */
+  public cancelDwell(internal: ForesightElementInternal): void {
+    if (internal.dwellTimeoutId === undefined) {
+      return
+    }
+
+    clearTimeout(internal.dwellTimeoutId)
+    internal.dwellTimeoutId = undefined
+    this.dwellingElements.delete(internal)
+    this.setDwelling(internal, false, "cancelled", this.getElementSetting(internal, "minDwellMs"))
+  }
+
+  private setDwelling(
+    internal: ForesightElementInternal,
+    isDwelling: boolean,
+    phase: TrajectoryDwellPhase,
+    minDwellMs: number
+  ): void {
+    const state = this.updateElementState(internal, { isDwelling })
+    this.emit({
+      type: "trajectoryDwellChanged",
+      element: internal.element,
+      state,
+      phase,
+      minDwellMs,
+      timestamp: Date.now(),
+    })
+  }
+
+  protected onDisconnect(): void {
+    for (const internal of this.dwellingElements) {
+      this.cancelDwell(internal)
+    }
+  }
+
   protected onConnect(): void {}
 }
@@ -0,0 +1,153 @@
+import { afterEach, beforeEach, describe, expect, it, vi, type Mock } from "vitest"
+import { ScrollLandingPredictor } from "./ScrollLandingPredictor"
+import { SpatialGrid } from "../helpers/SpatialGrid"
+import type { ForesightModuleDependencies } from "../core/BaseForesightModule"
+import type {
+  ForesightElement,
+  ForesightElementInternal,
+  ForesightManagerSettings,
+} from "../types/types"
+
+const VIEWPORT_HEIGHT = 800
+
+describe("ScrollLandingPredictor", () => {
+  let elements: Map<ForesightElement, ForesightElementInternal>
+  let callCallback: Mock<ForesightModuleDependencies["callCallback"]>
+  let predictor: ScrollLandingPredictor
+  let now: number
+
+  const setScroll = (y: number) => {
+    Object.defineProperty(window, "scrollY", { value: y, configurable: true })
+  }
+
+  /** An element at `top` px in the document, 100px tall. */
+  const createElement = (top: number): ForesightElementInternal => {
+    const element = document.createElement("div")
+    element.id = `at-${top}`
+    element.getBoundingClientRect = () =>
+      ({
+        top: top - window.scrollY,
+        bottom: top + 100 - window.scrollY,
+        left: 0,
+        right: 100,
+      }) as DOMRect
+    const entry = { element } as unknown as ForesightElementInternal
+    elements.set(element, entry)
+    predictor.observeElement(element)
+
+    return entry
+  }
+
+  /** Scroll events every 16ms at `speed` px/ms, continuing from the current offset. */
+  const scroll = (speed: number, events: number) => {
+    for (let i = 0; i < events; i++) {
+      now += 16
+      setScroll(window.scrollY + speed * 16)
+      window.dispatchEvent(new Event("scroll"))
+    }
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    now = 0
+    vi.spyOn(performance, "now").mockImplementation(() => now)
+    Object.defineProperty(window, "innerHeight", { value: VIEWPORT_HEIGHT, configurable: true })
+    Object.defineProperty(document.documentElement, "scrollHeight", {
+      value: 20000,
+      configurable: true,
+    })
+    setScroll(0)
+
+    elements = new Map()
+    callCallback = vi.fn<ForesightModuleDependencies["callCallback"]>()
+    predictor = new ScrollLandingPredictor({
+      elements,
+      callCallback,
+      abortCallback: vi.fn(),
+      emit: vi.fn(),
+      hasListeners: vi.fn(() => false),
+      updateElementState: vi.fn(),
+      updateElementBounds: vi.fn(),
+      elementIndex: new SpatialGrid(),
+      runningElements: new Set(),
+      focusScopes: [],
+      settings: { enableManagerLogging: false } as ForesightManagerSettings,
+    })
+    predictor.connect()
+  })
+
+  afterEach(() => {
+    predictor.disconnect()
+    vi.useRealTimers()
+    vi.restoreAllMocks()
+  })
+
+  it("fires elements visible without scrolling once settled", () => {
+    const visible = createElement(200)
+    createElement(2000)
+
+    vi.advanceTimersByTime(150)
+
+    expect(callCallback).toHaveBeenCalledTimes(1)
+    expect(callCallback).toHaveBeenCalledWith(visible, {
+      kind: "viewport",
+      subType: "scrollLanding",
+    })
+  })
+
+  it("fires where a fling lands and skips what it flashes past", () => {
+    setScroll(1000)
+    const flashedPast = createElement(2400)
+    const landing = createElement(4600)
+    vi.advanceTimersByTime(150)
+    callCallback.mockClear()
+
+    window.dispatchEvent(new Event("touchstart"))
+    scroll(8, 2)
+    window.dispatchEvent(new Event("touchend"))
+    scroll(8, 3)
+
+    // About 2500px further, landing around 4000-4800
+    expect(callCallback).toHaveBeenCalledTimes(1)
+    expect(callCallback).toHaveBeenCalledWith(landing, {
+      kind: "viewport",
+      subType: "scrollLanding",
+    })
+
+    // The fling passes the other element on its way
+    setScroll(2000)
+    window.dispatchEvent(new Event("scroll"))
+    setScroll(3900)
+    window.dispatchEvent(new Event("scroll"))
+    vi.advanceTimersByTime(150)
+
+    expect(callCallback).not.toHaveBeenCalledWith(flashedPast, expect.anything())
+  })
+
+  it("does not predict while the finger is down", () => {
+    createElement(3000)
+    vi.advanceTimersByTime(150)
+
+    window.dispatchEvent(new Event("touchstart"))
+    scroll(8, 5)
+
+    expect(callCallback).not.toHaveBeenCalled()
+  })
+
+  it("waits for a slow scroll to settle", () => {
+    const element = createElement(1000)
+    vi.advanceTimersByTime(150)
+
+    scroll(0.2, 5)
+    expect(callCallback).not.toHaveBeenCalled()
+
+    setScroll(400)
+    window.dispatchEvent(new Event("scroll"))
+    vi.advanceTimersByTime(150)
+
+    expect(callCallback).toHaveBeenCalledWith(element, {
+      kind: "viewport",
+      subType: "scrollLanding",
+    })
+  })
+})
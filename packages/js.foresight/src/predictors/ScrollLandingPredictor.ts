@@ -0,0 +1,141 @@
+import type { ForesightElement, MousePosition, Point } from "../types/types"
+import type { ForesightModuleDependencies } from "../core/BaseForesightModule"
+import { ElementObservingModule } from "../core/ElementObservingModule"
+import { CircularBuffer } from "../helpers/CircularBuffer"
+import { predictScrollLanding } from "../helpers/predictScrollLanding"
+
+// Scroll offsets kept to measure a fling's velocity and deceleration
+const SCROLL_SAMPLE_SIZE = 6
+// Milliseconds without scroll events after which scrolling has settled
+const SCROLL_SETTLE_DELAY = 150
+// Slower scrolls (px/ms) are not predicted, they simply wait for scrolling to settle
+const MIN_FLING_SPEED = 0.5
+
+/**
+ * Prefetches the elements a touch scroll is expected to come to rest on. Once
+ * the finger lifts, the momentum scroll's landing position is predicted from
+ * its velocity and deceleration, and only elements inside the viewport at that
+ * position fire. Elements that just flash past during the fling are skipped.
+ * Whatever is visible once scrolling settles fires too, which covers slow
+ * scrolls and elements visible without scrolling.
+ */
+export class ScrollLandingPredictor extends ElementObservingModule {
+  protected readonly moduleName = "ScrollLandingPredictor"
+
+  private observedElements: Set<ForesightElement> = new Set()
+  private scrollSamples = new CircularBuffer<MousePosition>(SCROLL_SAMPLE_SIZE)
+  private remainingScroll: Point = { x: 0, y: 0 }
+  private isTouching = false
+  private hasPredictedFling = false
+  private settleTimeoutId: ReturnType<typeof setTimeout> | undefined
+
+  constructor(dependencies: ForesightModuleDependencies) {
+    super(dependencies)
+  }
+
+  protected onConnect(): void {
+    this.createAbortController()
+    const options = { signal: this.abortController?.signal, passive: true }
+
+    window.addEventListener("touchstart", this.handleTouchStart, options)
+    window.addEventListener("touchend", this.handleTouchEnd, options)
+    window.addEventListener("touchcancel", this.handleTouchEnd, options)
+    window.addEventListener("scroll", this.handleScroll, options)
+  }
+
+  protected onDisconnect(): void {
+    clearTimeout(this.settleTimeoutId)
+    this.settleTimeoutId = undefined
+    this.scrollSamples.clear()
+    // The handler observes the active elements again on reconnect
+    this.observedElements.clear()
+    this.isTouching = false
+    this.hasPredictedFling = false
+  }
+
+  public observeElement(element: ForesightElement): void {
+    this.observedElements.add(element)
+    this.scheduleSettle()
+  }
+
+  public unobserveElement(element: ForesightElement): void {
+    this.observedElements.delete(element)
+  }
+
+  private handleTouchStart = (): void => {
+    this.isTouching = true
+    this.hasPredictedFling = false
+    this.scrollSamples.clear()
+  }
+
+  private handleTouchEnd = (): void => {
+    this.isTouching = false
+  }
+
+  private handleScroll = (): void => {
+    this.scrollSamples.add({
+      point: { x: window.scrollX, y: window.scrollY },
+      time: performance.now(),
+    })
+    this.scheduleSettle()
+
+    // While the finger is down the user can still change direction
+    if (this.isTouching || this.hasPredictedFling) {
+      return
+    }
+
+    const [first, last] = this.scrollSamples.getFirstLast()
+    const duration = last!.time - first!.time
+    if (this.scrollSamples.length < 3 || duration <= 0) {
+      return
+    }
+
+    const distance = Math.hypot(last!.point.x - first!.point.x, last!.point.y - first!.point.y)
+    if (distance / duration < MIN_FLING_SPEED) {
+      return
+    }
+
+    this.hasPredictedFling = true
+    predictScrollLanding(this.scrollSamples, this.remainingScroll)
+    const { x, y } = this.remainingScroll
+    const { scrollWidth, scrollHeight } = document.documentElement
+    const landingX = Math.max(0, Math.min(scrollWidth - window.innerWidth, window.scrollX + x))
+    const landingY = Math.max(0, Math.min(scrollHeight - window.innerHeight, window.scrollY + y))
+    this.devLog(`Fling predicted to land at (${Math.round(landingX)}, ${Math.round(landingY)})`)
+    this.fireVisibleElements(landingX - window.scrollX, landingY - window.scrollY)
+  }
+
+  private scheduleSettle(): void {
+    clearTimeout(this.settleTimeoutId)
+    this.settleTimeoutId = setTimeout(this.handleSettle, SCROLL_SETTLE_DELAY)
+  }
+
+  private handleSettle = (): void => {
+    this.settleTimeoutId = undefined
+    this.scrollSamples.clear()
+    this.hasPredictedFling = false
+    this.fireVisibleElements(0, 0)
+  }
+
+  /**
+   * Fire every observed element inside the viewport once it has scrolled by
+   * (`offsetX`, `offsetY`) px from where it is now.
+   */
+  private fireVisibleElements(offsetX: number, offsetY: number): void {
+    for (const element of this.observedElements) {
+      const rect = element.getBoundingClientRect()
+      const isVisible =
+        rect.bottom > offsetY &&
+        rect.top < offsetY + window.innerHeight &&
+        rect.right > offsetX &&
+        rect.left < offsetX + window.innerWidth
+      const data = this.elements.get(element)
+      if (!isVisible || !data) {
+        continue
+      }
+
+      this.callCallback(data, { kind: "viewport", subType: "scrollLanding" })
+      this.unobserveElement(element)
+    }
+  }
+}
@@ -1,10 +1,12 @@
 import { describe, it, expect, vi } from "vitest"
 import { ScrollPredictor } from "./ScrollPredictor"
 import { CircularBuffer } from "../helpers/CircularBuffer"
+import { SpatialGrid } from "../helpers/SpatialGrid"
 import type { ForesightModuleDependencies } from "../core/BaseForesightModule"
 import type {
   ForesightElement,
   ForesightElementInternal,
+  ForesightElementSettings,
   ForesightManagerSettings,
   MousePosition,
   Rect,
@@ -14,7 +16,8 @@ import type {
 const createInternalEntry = (
   id: string,
   originalRect: Rect,
-  expandedRect: Rect
+  expandedRect: Rect,
+  settings: ForesightElementSettings = {}
 ): ForesightElementInternal =>
   ({
     state: {
@@ -22,6 +25,7 @@ const createInternalEntry = (
       isActive: true,
       isPredicted: false,
       isIntersectingWithViewport: true,
+      settings,
     },
     bounds: { originalRect, expandedRect },
   }) as unknown as ForesightElementInternal
@@ -31,10 +35,14 @@ const setupPredictor = (currentPoint = { x: 150, y: 150 }) => {
   const dependencies: ForesightModuleDependencies = {
     elements: new Map<ForesightElement, ForesightElementInternal>(),
     callCallback,
+    abortCallback: vi.fn(),
     emit: vi.fn(),
     hasListeners: vi.fn(() => false),
     updateElementState: vi.fn(),
     updateElementBounds: vi.fn(),
+    elementIndex: new SpatialGrid(),
+    runningElements: new Set(),
+    focusScopes: [],
     settings: {
       enableScrollPrediction: true,
       scrollMargin: 100,
@@ -46,6 +54,8 @@ const setupPredictor = (currentPoint = { x: 150, y: 150 }) => {
     positions: new CircularBuffer<MousePosition>(8),
     currentPoint,
     predictedPoint: { x: 0, y: 0 },
+    predictedPath: [],
+    predictedCone: null,
   }
 
   const predictor = new ScrollPredictor({ dependencies, trajectoryPositions })
@@ -80,4 +90,24 @@ describe("ScrollPredictor", () => {
 
     expect(callCallback).not.toHaveBeenCalled()
   })
+
+  it("uses the element's own scrollMargin override", () => {
+    const oldRect: Rect = { top: 300, left: 100, right: 200, bottom: 400 }
+    const newRect = { top: 250, left: 100, right: 200, bottom: 350 } as DOMRect
+    // Starts 130px below the cursor: out of reach of the global 100px margin
+    const expandedRect: Rect = { top: 280, left: 100, right: 200, bottom: 400 }
+
+    const globalMargin = setupPredictor({ x: 150, y: 150 })
+    globalMargin.predictor.handleScrollPrefetch(
+      createInternalEntry("a", oldRect, expandedRect),
+      newRect
+    )
+    expect(globalMargin.callCallback).not.toHaveBeenCalled()
+
+    const { predictor, callCallback } = setupPredictor({ x: 150, y: 150 })
+    const entry = createInternalEntry("b", oldRect, expandedRect, { scrollMargin: 200 })
+    predictor.handleScrollPrefetch(entry, newRect)
+
+    expect(callCallback).toHaveBeenCalledWith(entry, { kind: "scroll", subType: "down" })
+  })
 })
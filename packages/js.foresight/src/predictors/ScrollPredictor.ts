@@ -66,11 +66,22 @@ export class ScrollPredictor extends BaseForesightModule {
         this.settings.scrollMargin
       )
 
+    // Elements with their own scrollMargin get their own predicted point
+    const scrollMargin = this.getElementSetting(entry, "scrollMargin")
+    const predictedPoint =
+      scrollMargin === this.settings.scrollMargin
+        ? this.predictedScrollPoint
+        : predictNextScrollPosition(
+            this.trajectoryPositions.currentPoint,
+            this.scrollDirection,
+            scrollMargin
+          )
+
     // Check if the scroll is going to intersect with an registered element
     if (
       lineSegmentIntersectsRect(
         this.trajectoryPositions.currentPoint,
-        this.predictedScrollPoint,
+        predictedPoint,
         entry.bounds.expandedRect
       )
     ) {
@@ -0,0 +1,104 @@
+import { describe, it, expect, vi, beforeEach, afterEach, type Mock } from "vitest"
+import { tabbable, type FocusableElement } from "tabbable"
+import { TabPredictor } from "./TabPredictor"
+import { SpatialGrid } from "../helpers/SpatialGrid"
+import type { ForesightModuleDependencies } from "../core/BaseForesightModule"
+import type {
+  ForesightElement,
+  ForesightElementInternal,
+  ForesightManagerSettings,
+} from "../types/types"
+
+const createEntry = (element: ForesightElement): ForesightElementInternal =>
+  ({
+    element,
+    state: { isPredicted: false, isActive: true, settings: {} },
+  }) as unknown as ForesightElementInternal
+
+const pressTab = (shiftKey = false) => {
+  document.dispatchEvent(new KeyboardEvent("keydown", { key: "Tab", shiftKey }))
+}
+
+describe("TabPredictor", () => {
+  let elements: Map<ForesightElement, ForesightElementInternal>
+  let callCallback: Mock<ForesightModuleDependencies["callCallback"]>
+  let predictor: TabPredictor
+  let focusScopes: Element[]
+
+  beforeEach(() => {
+    document.body.innerHTML = ""
+    elements = new Map()
+    callCallback = vi.fn<ForesightModuleDependencies["callCallback"]>()
+    focusScopes = []
+
+    const deps: ForesightModuleDependencies = {
+      elements,
+      callCallback,
+      abortCallback: vi.fn(),
+      emit: vi.fn(),
+      hasListeners: vi.fn(() => false),
+      updateElementState: vi.fn(),
+      updateElementBounds: vi.fn(),
+      elementIndex: new SpatialGrid(),
+      runningElements: new Set(),
+      focusScopes,
+      settings: {
+        tabOffset: 2,
+        enableTabPrediction: true,
+        enableManagerLogging: false,
+      } as ForesightManagerSettings,
+    }
+
+    predictor = new TabPredictor(deps)
+    predictor.connect()
+  })
+
+  afterEach(() => {
+    predictor.disconnect()
+  })
+
+  it("collects tabbable elements through open shadow roots", () => {
+    const button = document.createElement("button")
+    document.body.appendChild(button)
+    vi.mocked(tabbable).mockReturnValueOnce([button])
+
+    pressTab()
+    button.dispatchEvent(new FocusEvent("focusin", { bubbles: true, composed: true }))
+
+    expect(tabbable).toHaveBeenCalledWith(document.documentElement, { getShadowRoot: true })
+  })
+
+  it("collects tabbable elements from the active focus scope only", () => {
+    const scope = document.createElement("div")
+    const button = document.createElement("button")
+    scope.appendChild(button)
+    document.body.appendChild(scope)
+    focusScopes.push(scope)
+    vi.mocked(tabbable).mockReturnValueOnce([button])
+
+    pressTab()
+    button.dispatchEvent(new FocusEvent("focusin", { bubbles: true, composed: true }))
+
+    expect(tabbable).toHaveBeenCalledWith(scope, { getShadowRoot: true })
+  })
+
+  it("predicts elements inside a shadow root when focus moves within it", () => {
+    const host = document.createElement("div")
+    document.body.appendChild(host)
+    const shadowRoot = host.attachShadow({ mode: "open" })
+    const [first, second, third] = [0, 1, 2].map(() => {
+      const button = document.createElement("button")
+      shadowRoot.appendChild(button)
+
+      return button
+    })
+    vi.mocked(tabbable).mockReturnValueOnce([first, second, third] as FocusableElement[])
+    const entry = createEntry(third!)
+    elements.set(third!, entry)
+
+    pressTab()
+    first!.dispatchEvent(new FocusEvent("focusin", { bubbles: true, composed: true }))
+
+    expect(callCallback).toHaveBeenCalledWith(entry, { kind: "tab", subType: "forwards" })
+  })
+})
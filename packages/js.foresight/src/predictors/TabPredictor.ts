@@ -1,5 +1,7 @@
 import { tabbable, type FocusableElement } from "tabbable"
+import { getTabScope } from "../helpers/getTabScope"
 import { getFocusedElementIndex } from "../helpers/getFocusedElementIndex"
+import { getComposedTarget } from "../helpers/getObservedRoots"
 import { BaseForesightModule, type ForesightModuleDependencies } from "../core/BaseForesightModule"
 
 /**
@@ -8,7 +10,8 @@ import { BaseForesightModule, type ForesightModuleDependencies } from "../core/B
  * This class is a specialist module controlled by the ForesightManager.
  * Its responsibilities are:
  * - Listening for `keydown` and `focusin` events to detect tabbing.
- * - Caching the list of tabbable elements on the page for performance.
+ * - Caching the list of tabbable elements on the page (including open shadow roots
+ *   and slotted content) for performance.
  * - Invalidating the cache when the DOM changes.
  * - Predicting which registered elements the user is about to focus.
  * - Calling a provided callback when a prediction is made.
@@ -69,7 +72,9 @@ export class TabPredictor extends BaseForesightModule {
   }
 
   private handleFocusIn = (e: FocusEvent) => {
-    if (!this.lastKeyDown || !(e.target instanceof HTMLElement)) {
+    // Focus inside a shadow tree reaches the document retargeted to its host
+    const target = getComposedTarget(e)
+    if (!this.lastKeyDown || !(target instanceof HTMLElement)) {
       return
     }
 
@@ -82,7 +87,7 @@ export class TabPredictor extends BaseForesightModule {
       isReversed,
       this.lastFocusedIndex,
       this.tabbableElementsCache,
-      e.target
+      target
     )
     this.lastFocusedIndex = currentIndex
 
@@ -96,14 +101,15 @@ export class TabPredictor extends BaseForesightModule {
     }
 
     this.devLog("Caching tabbable elements")
-    this.tabbableElementsCache = tabbable(document.documentElement)
+    // Only the tab stops of an open focus trap or modal dialog are reachable
+    this.tabbableElementsCache = tabbable(getTabScope(this.focusScopes), { getShadowRoot: true })
   }
 
   private predictUpcomingTabs(currentIndex: number, isReversed: boolean): void {
-    const tabOffset = this.settings.tabOffset
+    const maxTabOffset = this.getMaxTabOffset()
     const subType = isReversed ? "reverse" : "forwards"
 
-    for (let i = 0; i <= tabOffset; i++) {
+    for (let i = 0; i <= maxTabOffset; i++) {
       const elementIndex = isReversed ? currentIndex - i : currentIndex + i
       const element = this.tabbableElementsCache[elementIndex]
 
@@ -112,9 +118,31 @@ export class TabPredictor extends BaseForesightModule {
       }
 
       const entry = this.elements.get(element)
-      if (entry && !entry.state.isPredicted && entry.state.isActive) {
+      if (
+        entry &&
+        !entry.state.isPredicted &&
+        entry.state.isActive &&
+        this.getElementSetting(entry, "enableTabPrediction") &&
+        i <= this.getElementSetting(entry, "tabOffset")
+      ) {
         this.callCallback(entry, { kind: "tab", subType })
       }
     }
   }
+
+  /**
+   * The furthest any element wants to be predicted ahead: the global `tabOffset`
+   * or a larger per-element override.
+   */
+  private getMaxTabOffset(): number {
+    let maxTabOffset = this.settings.tabOffset
+    for (const entry of this.elements.values()) {
+      const tabOffset = entry.state.settings.tabOffset
+      if (tabOffset !== undefined && tabOffset > maxTabOffset) {
+        maxTabOffset = tabOffset
+      }
+    }
+
+    return maxTabOffset
+  }
 }
@@ -0,0 +1,166 @@
+import { afterEach, beforeEach, describe, expect, it, vi, type Mock } from "vitest"
+import { ViewportPredictor } from "./ViewportPredictor"
+import { SpatialGrid } from "../helpers/SpatialGrid"
+import type { ForesightModuleDependencies } from "../core/BaseForesightModule"
+import type {
+  ForesightElement,
+  ForesightElementInternal,
+  ForesightManagerSettings,
+} from "../types/types"
+
+describe("ViewportPredictor", () => {
+  let elements: Map<ForesightElement, ForesightElementInternal>
+  let callCallback: Mock<ForesightModuleDependencies["callCallback"]>
+  let settings: ForesightManagerSettings
+  let predictor: ViewportPredictor
+  let observerCallback: IntersectionObserverCallback
+  let observerOptions: IntersectionObserverInit | undefined
+  const originalObserver = globalThis.IntersectionObserver
+
+  const createElement = (id: string): ForesightElement => {
+    const element = document.createElement("div")
+    element.id = id
+    elements.set(element, { element } as unknown as ForesightElementInternal)
+    predictor.observeElement(element)
+
+    return element
+  }
+
+  const report = (element: ForesightElement, intersectionRatio: number) => {
+    observerCallback(
+      [
+        {
+          target: element,
+          isIntersecting: intersectionRatio > 0,
+          intersectionRatio,
+        } as unknown as IntersectionObserverEntry,
+      ],
+      {} as IntersectionObserver
+    )
+  }
+
+  const connect = (overrides: Partial<ForesightManagerSettings> = {}) => {
+    Object.assign(settings, overrides)
+    predictor = new ViewportPredictor({
+      elements,
+      callCallback,
+      abortCallback: vi.fn(),
+      emit: vi.fn(),
+      hasListeners: vi.fn(() => false),
+      updateElementState: vi.fn(),
+      updateElementBounds: vi.fn(),
+      elementIndex: new SpatialGrid(),
+      runningElements: new Set(),
+      focusScopes: [],
+      settings,
+    })
+    predictor.connect()
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.stubGlobal(
+      "IntersectionObserver",
+      class {
+        constructor(callback: IntersectionObserverCallback, options?: IntersectionObserverInit) {
+          if (options?.rootMargin === "bogus") {
+            throw new SyntaxError("Failed to parse rootMargin")
+          }
+
+          observerCallback = callback
+          observerOptions = options
+        }
+        observe() {}
+        unobserve() {}
+        disconnect() {}
+      }
+    )
+
+    elements = new Map()
+    callCallback = vi.fn<ForesightModuleDependencies["callCallback"]>()
+    settings = {
+      enableManagerLogging: false,
+      viewportThreshold: 0,
+      viewportRootMargin: "0px",
+      viewportDwellMs: 0,
+    } as ForesightManagerSettings
+  })
+
+  afterEach(() => {
+    predictor.disconnect()
+    vi.useRealTimers()
+    vi.stubGlobal("IntersectionObserver", originalObserver)
+  })
+
+  it("passes the threshold and root margin to the observer", () => {
+    connect({ viewportThreshold: 0.5, viewportRootMargin: "100px 0px" })
+
+    expect(observerOptions).toEqual({ threshold: 0.5, rootMargin: "100px 0px" })
+  })
+
+  it("falls back to the default root margin when it is invalid", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {})
+
+    connect({ viewportRootMargin: "bogus" })
+
+    expect(observerOptions?.rootMargin).toBe("0px")
+    expect(warn).toHaveBeenCalled()
+    warn.mockRestore()
+  })
+
+  it("fires as soon as an element is visible without a dwell", () => {
+    connect()
+    const element = createElement("visible")
+
+    report(element, 0.1)
+
+    expect(callCallback).toHaveBeenCalledWith(elements.get(element), { kind: "viewport" })
+  })
+
+  it("ignores elements below the threshold", () => {
+    connect({ viewportThreshold: 0.5 })
+    const element = createElement("partly-visible")
+
+    report(element, 0.2)
+
+    expect(callCallback).not.toHaveBeenCalled()
+  })
+
+  it("fires once an element stayed visible for viewportDwellMs", () => {
+    connect({ viewportDwellMs: 300 })
+    const element = createElement("dwelling")
+
+    report(element, 1)
+    vi.advanceTimersByTime(299)
+    expect(callCallback).not.toHaveBeenCalled()
+
+    vi.advanceTimersByTime(1)
+    expect(callCallback).toHaveBeenCalledOnce()
+  })
+
+  it("cancels the dwell when the element leaves before it completes", () => {
+    connect({ viewportDwellMs: 300 })
+    const element = createElement("passing")
+
+    report(element, 1)
+    vi.advanceTimersByTime(200)
+    report(element, 0)
+    vi.advanceTimersByTime(200)
+
+    expect(callCallback).not.toHaveBeenCalled()
+  })
+
+  it("cancels the dwell when the element is unobserved or the predictor disconnects", () => {
+    connect({ viewportDwellMs: 300 })
+    const unobserved = createElement("unobserved")
+    const disconnected = createElement("disconnected")
+
+    report(unobserved, 1)
+    report(disconnected, 1)
+    predictor.unobserveElement(unobserved)
+    predictor.disconnect()
+    vi.advanceTimersByTime(300)
+
+    expect(callCallback).not.toHaveBeenCalled()
+  })
+})
@@ -1,22 +1,45 @@
 import type { ForesightElement } from "../types/types"
 import type { ForesightModuleDependencies } from "../core/BaseForesightModule"
 import { ElementObservingModule } from "../core/ElementObservingModule"
+import { DEFAULT_VIEWPORT_ROOT_MARGIN } from "../constants"
 
 export class ViewportPredictor extends ElementObservingModule {
   protected readonly moduleName = "ViewportPredictor"
 
   private intersectionObserver: IntersectionObserver | null = null
+  // Elements in view that still have to stay there for `viewportDwellMs`
+  private dwellTimeoutIds: Map<ForesightElement, ReturnType<typeof setTimeout>> = new Map()
 
   constructor(dependencies: ForesightModuleDependencies) {
     super(dependencies)
   }
 
-  protected onConnect = () =>
-    (this.intersectionObserver = new IntersectionObserver(this.handleViewportEnter))
+  protected onConnect() {
+    const { viewportThreshold: threshold, viewportRootMargin: rootMargin } = this.settings
+    try {
+      this.intersectionObserver = new IntersectionObserver(this.handleViewportChange, {
+        threshold,
+        rootMargin,
+      })
+    } catch {
+      // The constructor throws a SyntaxError for a malformed rootMargin
+      console.warn(
+        `ForesightJS: "viewportRootMargin" value "${rootMargin}" is invalid, falling back to ${DEFAULT_VIEWPORT_ROOT_MARGIN}`
+      )
+      this.intersectionObserver = new IntersectionObserver(this.handleViewportChange, {
+        threshold,
+        rootMargin: DEFAULT_VIEWPORT_ROOT_MARGIN,
+      })
+    }
+  }
 
   protected onDisconnect() {
     this.intersectionObserver?.disconnect()
     this.intersectionObserver = null
+    for (const timeoutId of this.dwellTimeoutIds.values()) {
+      clearTimeout(timeoutId)
+    }
+    this.dwellTimeoutIds.clear()
   }
 
   public observeElement(element: ForesightElement): void {
@@ -25,25 +48,51 @@ export class ViewportPredictor extends ElementObservingModule {
 
   public unobserveElement(element: ForesightElement): void {
     this.intersectionObserver?.unobserve(element)
+    this.cancelDwell(element)
   }
 
-  protected handleViewportEnter = (entries: IntersectionObserverEntry[]) => {
+  protected handleViewportChange = (entries: IntersectionObserverEntry[]) => {
     for (const entry of entries) {
-      if (!entry.isIntersecting) {
+      const element = entry.target as ForesightElement
+      // With a threshold the observer also reports elements that are visible but below it
+      const isVisible =
+        entry.isIntersecting && entry.intersectionRatio >= this.settings.viewportThreshold
+
+      if (!isVisible) {
+        this.cancelDwell(element)
         continue
       }
 
-      const data = this.elements.get(entry.target as ForesightElement)
-
-      if (!data) {
-        continue
+      if (this.settings.viewportDwellMs === 0) {
+        this.fire(element)
+      } else if (!this.dwellTimeoutIds.has(element)) {
+        this.dwellTimeoutIds.set(
+          element,
+          setTimeout(() => {
+            this.dwellTimeoutIds.delete(element)
+            this.fire(element)
+          }, this.settings.viewportDwellMs)
+        )
       }
+    }
+  }
 
-      this.callCallback(data, {
-        kind: "viewport",
-      })
+  private cancelDwell(element: ForesightElement): void {
+    clearTimeout(this.dwellTimeoutIds.get(element))
+    this.dwellTimeoutIds.delete(element)
+  }
 
-      this.unobserveElement(entry.target as ForesightElement)
+  private fire(element: ForesightElement): void {
+    const data = this.elements.get(element)
+
+    if (!data) {
+      return
     }
+
+    this.callCallback(data, {
+      kind: "viewport",
+    })
+
+    this.unobserveElement(element)
   }
 }
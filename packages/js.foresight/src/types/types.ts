@@ -10,8 +10,18 @@ export type Rect = {
 /**
  * A callback function that is executed when a foresight interaction
  * (e.g., hover, trajectory hit) occurs on a registered element.
+ *
+ * The `signal` is aborted when the run is no longer wanted (see
+ * {@link CallbackAbortReason}); pass it to `fetch` and friends to cancel the
+ * work. An aborted run completes with the `"aborted"` status, one that outlives
+ * its `callbackTimeout` with `"timeout"`. `element` is the registered element,
+ * e.g. to read its `href`.
  */
-export type ForesightCallback = (state: ForesightElementState) => void
+export type ForesightCallback = (
+  state: ForesightElementState,
+  signal: AbortSignal,
+  element: ForesightElement
+) => void
 
 /**
  * Represents the HTML element that is being tracked by the ForesightManager.
@@ -35,10 +45,66 @@ export type Point = {
   y: number
 }
 
+/**
+ * Predicts where the mouse will be `trajectoryPredictionTimeInMs` from now.
+ * It must add `currentPoint` (with a `performance.now()` timestamp) to `buffer`
+ * and write the prediction into `out`, without allocating a new point.
+ */
+export type TrajectoryModelFunction = (
+  currentPoint: Point,
+  buffer: CircularBuffer<MousePosition>,
+  trajectoryPredictionTimeInMs: number,
+  out: Point
+) => void
+
+/**
+ * Built-in mouse trajectory models, see the `trajectoryModel` setting.
+ * - `linear`: Velocity between the oldest and newest position.
+ * - `weightedLeastSquares`: Velocity of a line fitted through all positions, newer ones weighing more.
+ * - `constantAcceleration`: Velocity and acceleration, stopping where a braking cursor comes to rest.
+ * - `kalman`: Kalman filter smoothing out pointer jitter.
+ */
+export type TrajectoryModelName =
+  | "linear"
+  | "weightedLeastSquares"
+  | "constantAcceleration"
+  | "kalman"
+
+export type TrajectoryModel = TrajectoryModelName | TrajectoryModelFunction
+
+/**
+ * The shape of the predicted mouse path that elements are hit-tested against.
+ * - `line`: A straight segment from the cursor to the predicted point.
+ * - `curve`: A polyline that keeps bending the way the cursor has been turning.
+ * - `cone`: A cone around the predicted direction, wider while the heading is uncertain.
+ */
+export type TrajectoryShape = "line" | "curve" | "cone"
+
+/**
+ * A cone around the predicted mouse direction, used by the `cone` trajectory shape.
+ */
+export type TrajectoryCone = {
+  /** The cursor position the cone starts at. */
+  origin: Point
+  /** Direction of the cone's axis in radians, `0` pointing right and growing clockwise on screen. */
+  heading: number
+  /** Angle in radians between the axis and either side of the cone. */
+  halfAngle: number
+  /** Distance in px from the origin to the cone's far arc. */
+  length: number
+}
+
 export type TrajectoryPositions = {
   positions: CircularBuffer<MousePosition>
   currentPoint: Point
   predictedPoint: Point
+  /**
+   * The predicted path starting at `currentPoint`: `[currentPoint, predictedPoint]`
+   * for the `line` shape, the points of the bending polyline for `curve`.
+   */
+  predictedPath: Point[]
+  /** The cone hit-tested with the `cone` shape, `null` for the other shapes. */
+  predictedCone: TrajectoryCone | null
 }
 
 /**
@@ -105,6 +171,30 @@ export type ForesightElementState = {
   error: string | null
   /** Time in ms after which the callback can be fired again (Infinity = never). */
   reactivateAfter: number
+  /** Time in ms the mouse trajectory may point away from the element before its running callback is aborted (Infinity = never). */
+  abortAfterIntentLost: number
+  /** Priority used to order queued callbacks. Higher runs first (see `maxConcurrentCallbacks`). */
+  priority: number
+  /** True while a hit is waiting for a free callback slot because `maxConcurrentCallbacks`
+   * callbacks are already running. `isPredicted` is already true while queued. */
+  isQueued: boolean
+  /** Confidence (0-1) of the hit that most recently fired the callback. Only trajectory
+   * hits are scored; every other hit type counts as 1. `undefined` until the first hit. */
+  confidence: number | undefined
+  /** Minimum confidence a trajectory hit needs to fire the callback (see `confidence`). */
+  minConfidence: number
+  /** Normalized per-element overrides of global prediction settings. Empty when none are set. */
+  settings: ForesightElementSettings
+  /** Groups elements that load the same resource; only one callback runs per group (see `resourceKey` option). */
+  resourceKey: string | undefined
+  /** Normalized retry policy for callbacks that throw (see `retry` option). */
+  retry: Required<CallbackRetryOptions>
+  /** Attempt number of the current or most recent callback run, starting at 1. `0` until the first hit. */
+  attempt: number
+  /** Share of the `callbackBudget` a callback run of this element spends (see `weight` option). */
+  weight: number
+  /** True while a trajectory hit waits for the predicted path to keep crossing the element for `minDwellMs`. */
+  isDwelling: boolean
 }
 
 export type ForesightRegisterResult = ForesightElementState & {
@@ -148,17 +238,63 @@ export type ForesightElementInternal = {
   completedAt: number | undefined
   /** The DOM element this record tracks. */
   element: ForesightElement
+  /** Increases with every registration, orders otherwise equal elements like the registration map does. */
+  registrationOrder: number
   /** User-supplied callback. */
   callback: ForesightCallback
   /** Pending reactivation timer, if any. */
   reactivateTimeoutId?: ReturnType<typeof setTimeout>
+  /** Timestamp (`Date.now()`) the pending reactivation timer fires at. */
+  reactivateAt?: number
+  /** Whether the element is predicted only because another member of its resource group fired. */
+  isPredictedByResourceGroup: boolean
+  /** Hit type of the pending hit while the element waits in the callback queue. */
+  queuedHitType: CallbackHitType | undefined
+  /** Timestamp (`performance.now()`) the element entered the callback queue. */
+  queuedAt: number | undefined
+  /** The in-flight callback run, if any. Cleared once the run completes or is aborted. */
+  runningCallback: RunningCallback | undefined
+  /** Pending abort timer started when the trajectory moved away from a running element. */
+  intentLostTimeoutId?: ReturnType<typeof setTimeout>
+  /** Pending `minDwellMs` timer that confirms a trajectory hit while `isDwelling`. */
+  dwellTimeoutId?: ReturnType<typeof setTimeout>
   /** Listeners notified whenever `state` is replaced. */
   subscribers: Set<() => void>
   /** Listeners notified whenever `bounds` is replaced. */
   boundsSubscribers: Set<() => void>
+  /** Shadow roots and same-origin frame documents the element is nested in, observed for DOM mutations. */
+  observedRoots: (ShadowRoot | Document)[]
+  /** Registered by the `data-foresight` scan; unregistered (instead of parked) once removed from the DOM. */
+  isDeclarative: boolean
 }
 
-export type callbackStatus = "error" | "success" | undefined
+/**
+ * Manager-internal bookkeeping for a single callback run.
+ */
+export type RunningCallback = {
+  /** Controller whose signal is handed to the callback. */
+  controller: AbortController
+  hitType: CallbackHitType
+  /** Timestamp (`performance.now()`) the callback started. */
+  startTime: number
+  /** Time in ms the hit waited in the callback queue before starting. */
+  queueWaitMs: number
+  /** Pending `callbackTimeout` timer, unset when the run has no timeout. */
+  timeoutId?: ReturnType<typeof setTimeout>
+  /** Pending backoff timer before the next attempt of a failed run. */
+  retryTimeoutId?: ReturnType<typeof setTimeout>
+}
+
+export type callbackStatus = "error" | "success" | "aborted" | "timeout" | undefined
+
+/**
+ * Why a running callback's `AbortSignal` was aborted.
+ * - `unregistered`: The element was unregistered while its callback was running.
+ * - `parked`: The element was detached from the DOM (see `isParked`).
+ * - `intentLost`: The mouse trajectory pointed away from the element for longer than its `abortAfterIntentLost`.
+ * - `timeout`: The callback ran longer than its `callbackTimeout`.
+ */
+export type CallbackAbortReason = "unregistered" | "parked" | "intentLost" | "timeout"
 
 type MouseCallbackCounts = {
   hover: number
@@ -168,6 +304,8 @@ type MouseCallbackCounts = {
 type TabCallbackCounts = {
   reverse: number
   forwards: number
+  /** Arrow key navigation inside ARIA composite widgets (menus, grids, listboxes, ...). */
+  keyboard: number
 }
 
 export type ScrollDirection = "down" | "up" | "left" | "right" | "none"
@@ -200,6 +338,8 @@ export type ForesightManagerData = {
   currentDeviceStrategy: CurrentDeviceStrategy
   activeElementCount: number
   parkedElementCount: number
+  /** Summed `weight` of the callbacks started within the current `callbackBudgetWindow`. */
+  callbackBudgetUsage: number
   loadedModules: ForesightModules
 }
 
@@ -209,13 +349,16 @@ export type ForesightModules = {
   predictors: {
     mouse: boolean
     tab: boolean
+    arrowKey: boolean
     scroll: boolean
     viewport: boolean
     touchStart: boolean
+    scrollLanding: boolean
   }
 }
 
-export type TouchDeviceStrategy = "none" | "viewport" | "onTouchStart"
+export type TouchDeviceStrategy = "none" | "viewport" | "onTouchStart" | "scrollLanding"
+export type CallbackBudgetStrategy = "drop" | "defer"
 export type MinimumConnectionType = "slow-2g" | "2g" | "3g" | "4g"
 
 type BaseForesightManagerSettings = {
@@ -253,6 +396,55 @@ type BaseForesightManagerSettings = {
    */
   trajectoryPredictionTime: number
 
+  /**
+   * The algorithm predicting the mouse position `trajectoryPredictionTime` ahead.
+   * Pass a {@link TrajectoryModelName} or your own {@link TrajectoryModelFunction}.
+   * Changing it at runtime clears the mouse position history.
+   *
+   * @link https://foresightjs.com/docs/getting_started/config#available-global-settings
+   * @default "linear"
+   */
+  trajectoryModel: TrajectoryModel
+
+  /**
+   * The shape of the predicted mouse path elements are hit-tested against.
+   * `curve` follows the cursor's recent turning instead of a straight line,
+   * catching targets at the end of a bending path. `cone` sweeps a cone around
+   * the predicted direction that narrows as the heading settles and speed rises,
+   * catching targets slightly off the current heading.
+   *
+   * @link https://foresightjs.com/docs/getting_started/config#available-global-settings
+   * @default "line"
+   */
+  trajectoryShape: TrajectoryShape
+
+  /**
+   * How long in milliseconds the predicted mouse path must keep crossing an
+   * element before a trajectory hit fires its callback. Filters out paths that
+   * merely sweep across dense grids. While waiting the element is `isDwelling`.
+   * Hovering the element is not delayed. `0` fires on the first crossing frame.
+   *
+   * @link https://foresightjs.com/docs/getting_started/config#available-global-settings
+   *
+   * **This value is clamped between 0 and 2000.**
+   * @default 0
+   */
+  minDwellMs: number
+
+  /**
+   * Maximum number of elements a single mouse move fires trajectory hits for.
+   * When the predicted path crosses more, they are ranked by how far along the
+   * path it enters them, then by how close to their center it enters, then by
+   * `priority`. The rest are reported as `rankedOutCandidates` in the
+   * `mouseTrajectoryUpdate` event. Hover hits are not limited.
+   *
+   * @link https://foresightjs.com/docs/getting_started/config#available-global-settings
+   *
+   * **This value is clamped between 1 and Infinity.**
+   * @default Infinity
+   */
+  maxTargetsPerMove: number
+
   /**
    * Whether to enable mouse trajectory prediction.
    * If false, only direct hover/interaction is considered.
@@ -262,7 +454,8 @@ type BaseForesightManagerSettings = {
   enableMousePrediction: boolean
 
   /**
-   * Toggles whether keyboard prediction is on
+   * Toggles whether keyboard prediction is on, for Tab navigation and for arrow
+   * key navigation inside ARIA composite widgets (menus, grids, listboxes, ...)
    *
    * @link https://foresightjs.com/docs/getting_started/config#available-global-settings
    * @default true
@@ -287,7 +480,8 @@ type BaseForesightManagerSettings = {
   enableScrollPrediction: boolean
 
   /**
-   * Tab stops away from an element to trigger callback. Only works when @argument enableTabPrediction is true
+   * Tab stops away from an element to trigger callback, or arrow key presses inside a
+   * composite widget. Only works when @argument enableTabPrediction is true
    *
    * **This value is clamped between 0 and 20.**
    * @default 2
@@ -295,12 +489,51 @@ type BaseForesightManagerSettings = {
   tabOffset: number
 
   /**
-   * The prefetch strategy used for touch devices.
+   * The prefetch strategy used for touch devices, or an array of strategies to
+   * combine. An element fires on whichever of its strategies hits first. Can be
+   * overridden per element through the `settings` registration option.
    * - `viewport`: Prefetching is done based on the viewport, meaning elements in the viewport are preloaded.
    * - `onTouchStart`: Prefetching is done when the user touches the element
+   * - `scrollLanding`: Prefetching is done for elements expected to be visible where a
+   *   touch scroll comes to rest, predicted from its velocity and deceleration
+   * - `none`: No prefetching on touch devices, the same as an empty array
    * @default onTouchStart
    */
-  touchDeviceStrategy: TouchDeviceStrategy
+  touchDeviceStrategy: TouchDeviceStrategy | readonly TouchDeviceStrategy[]
+
+  /**
+   * Fraction of an element that must be visible before the `viewport` touch
+   * strategy counts it as in view. `0` means any visible pixel, `1` the whole element.
+   *
+   * @link https://foresightjs.com/docs/getting_started/config#available-global-settings
+   *
+   * **This value is clamped between 0 and 1.**
+   * @default 0
+   */
+  viewportThreshold: number
+
+  /**
+   * Margin around the viewport used by the `viewport` touch strategy, in CSS
+   * margin syntax (`px` or `%`). Positive values count elements as visible before
+   * they scroll into view, negative values only once they are further inside.
+   *
+   * @link https://developer.mozilla.org/en-US/docs/Web/API/IntersectionObserver/rootMargin
+   * @default "0px"
+   */
+  viewportRootMargin: string
+
+  /**
+   * Milliseconds an element must stay in view before the `viewport` touch
+   * strategy fires its callback. An element that leaves the viewport earlier
+   * is skipped until it comes back into view, which keeps fast scrolls through
+   * long feeds from prefetching every element they pass.
+   *
+   * @link https://foresightjs.com/docs/getting_started/config#available-global-settings
+   *
+   * **This value is clamped between 0 and 10000.**
+   * @default 0
+   */
+  viewportDwellMs: number
 
   /**
    * Network effective connection types that should be considered as limited connections.
@@ -312,6 +545,69 @@ type BaseForesightManagerSettings = {
    */
   minimumConnectionType: MinimumConnectionType
 
+  /**
+   * Maximum number of callbacks that may run at the same time. Hits that arrive
+   * while the limit is reached are queued (`isQueued`) and started as running
+   * callbacks complete, highest `priority` first (ties run in hit order).
+   *
+   * @link https://foresightjs.com/docs/getting_started/config#available-global-settings
+   *
+   * **This value is clamped between 1 and Infinity.**
+   * @default Infinity
+   */
+  maxConcurrentCallbacks: number
+
+  /**
+   * Maximum time in milliseconds a callback may run. Once exceeded its signal is
+   * aborted with the `"timeout"` reason and the element completes with the
+   * `"timeout"` status: it counts as spent, like a finished run, and is
+   * reactivated after `reactivateAfter`. Can be overridden per element through
+   * the `settings` registration option.
+   *
+   * @link https://foresightjs.com/docs/getting_started/config#available-global-settings
+   *
+   * **This value is clamped between 100 and Infinity.**
+   * @default Infinity
+   */
+  callbackTimeout: number
+
+  /**
+   * Maximum summed `weight` of the callbacks that may start within one
+   * `callbackBudgetWindow`. Elements weigh 1 unless registered with a `weight`,
+   * so by default this is the number of callbacks per window. Hits beyond the
+   * budget are handled according to `callbackBudgetStrategy` and emit a
+   * `budgetExceeded` event. A single hit always runs while nothing was spent in
+   * the window, even when its weight exceeds the budget on its own.
+   *
+   * @link https://foresightjs.com/docs/getting_started/config#available-global-settings
+   *
+   * **This value is clamped between 1 and Infinity.**
+   * @default Infinity
+   */
+  callbackBudget: number
+
+  /**
+   * Length in milliseconds of the sliding window `callbackBudget` applies to.
+   *
+   * @link https://foresightjs.com/docs/getting_started/config#available-global-settings
+   *
+   * **This value is clamped between 1000 and 3600000.**
+   * @default 60000
+   */
+  callbackBudgetWindow: number
+
+  /**
+   * What happens to a hit once the `callbackBudget` is spent.
+   * - `drop`: The hit is ignored and the element stays active, so a later hit can fire it.
+   *   Repeated drops of an element emit one `budgetExceeded` event until budget is freed.
+   * - `defer`: The hit waits in the callback queue (`isQueued`) until enough budget is freed.
+   *   Hits that don't outrank a waiting hit queue behind it, unless it is heavier than the whole budget.
+   *
+   * @link https://foresightjs.com/docs/getting_started/config#available-global-settings
+   * @default drop
+   */
+  callbackBudgetStrategy: CallbackBudgetStrategy
+
   /**
    * When `true` the manager mirrors every registered element's prediction state
    * onto `data-*` attributes via direct DOM mutation, so plain CSS can style
@@ -320,12 +616,27 @@ type BaseForesightManagerSettings = {
    *  - `data-predicted` — present while `isPredicted` is `true`
    *  - `data-active` — present while `isActive` is `true`
    *  - `data-callback-running` — present while `isCallbackRunning` is `true`
-   *  - `data-status` — set to `"success"` or `"error"` once a callback completes
+   *  - `data-queued` — present while `isQueued` is `true`
+   *  - `data-status` — set to `"success"`, `"error"`, `"aborted"` or `"timeout"` once a callback completes
    *
    * @link https://foresightjs.com/docs/getting_started/config#available-global-settings
    * @default true
    */
   setDataAttributes: boolean
+
+  /**
+   * When `true` the manager registers every element marked with a `data-foresight`
+   * attribute, reading its options from `data-foresight-*` attributes, and keeps
+   * scanning elements added to the DOM later. Elements registered this way are
+   * unregistered once they are removed from the DOM. Callbacks are resolved by
+   * name from the actions registered with `ForesightManager.defineAction`.
+   *
+   * Scoped managers (`ForesightManager.createScoped`) default this to `false`.
+   *
+   * @link https://foresightjs.com/docs/getting_started/config#available-global-settings
+   * @default true
+   */
+  scanDataAttributes: boolean
 }
 
 export type CurrentDeviceStrategy = "mouse" | "touch" | "pen"
@@ -338,6 +649,54 @@ export type ForesightManagerSettings = BaseForesightManagerSettings & {
   defaultHitSlop: Exclude<HitSlop, number>
 }
 
+/**
+ * Per-element overrides of global prediction settings, passed as the `settings`
+ * registration option. Omitted keys fall back to the global value. Numeric values
+ * are clamped with the same bounds as their global counterparts.
+ */
+export type ForesightElementSettings = Partial<
+  Pick<
+    BaseForesightManagerSettings,
+    | "trajectoryPredictionTime"
+    | "enableMousePrediction"
+    | "enableTabPrediction"
+    | "enableScrollPrediction"
+    | "tabOffset"
+    | "scrollMargin"
+    | "callbackTimeout"
+    | "minDwellMs"
+    | "touchDeviceStrategy"
+  >
+>
+
+/**
+ * Retry policy for callbacks that throw or reject, passed as the `retry`
+ * registration option. A number is shorthand for `{ maxAttempts }`.
+ */
+export type CallbackRetryOptions = {
+  /**
+   * Total number of attempts, including the first run. `1` disables retries.
+   * **This value is clamped between 1 and 10.**
+   */
+  maxAttempts: number
+  /**
+   * Delay in milliseconds before the first retry, doubled for every further one.
+   * @default 1000
+   */
+  baseDelay?: number
+  /**
+   * Upper bound in milliseconds for a single retry delay.
+   * @default 30000
+   */
+  maxDelay?: number
+  /**
+   * Pick every delay at random between 0 and its exponential value, so elements
+   * that failed together don't retry in lockstep.
+   * @default true
+   */
+  jitter?: boolean
+}
+
 /**
  * Update options for the ForesightManager
  * @link https://foresightjs.com/docs/getting_started/config#available-global-settings
@@ -384,6 +743,56 @@ export type ForesightRegisterOptionsWithoutElement = {
    * @default true
    */
   enabled?: boolean
+  /**
+   * Priority of this element's callback when it has to wait for a free slot
+   * (see the `maxConcurrentCallbacks` global setting). Higher runs first. Also
+   * settles ties when trajectory hits are ranked for `maxTargetsPerMove`.
+   * @default 0
+   */
+  priority?: number
+  /**
+   * Time in milliseconds the mouse trajectory may point away from the element
+   * before its running callback's `AbortSignal` is aborted with reason
+   * `"intentLost"`. Only applies to callbacks started by a mouse hit.
+   * Set to Infinity to never abort on lost intent.
+   * @default Infinity
+   */
+  abortAfterIntentLost?: number
+  /**
+   * Minimum confidence (0-1) a mouse trajectory hit needs before the callback fires.
+   * Confidence grows as the element gets closer along the predicted path and as
+   * the cursor keeps a steady heading and speed. Weaker hits are ignored, so the
+   * element stays active until intent is stronger or the cursor hovers it.
+   * **This value is clamped between 0 and 1.**
+   * @default 0
+   */
+  minConfidence?: number
+  /**
+   * Overrides global prediction settings for this element only, e.g. a longer
+   * `trajectoryPredictionTime` for a large hero card. Omitted keys use the global value.
+   */
+  settings?: ForesightElementSettings
+  /**
+   * Groups elements that load the same resource, e.g. every link to `/pricing`.
+   * When one element of the group fires, the others are marked predicted without
+   * running their callback, and the whole group is reactivated together (after
+   * the firing element's `reactivateAfter`).
+   */
+  resourceKey?: string
+  /**
+   * Retry the callback with exponential backoff when it throws or rejects.
+   * The element only completes with the `"error"` status once the last attempt
+   * failed. Timed out and aborted runs are not retried.
+   * @default 1 (no retries)
+   */
+  retry?: number | CallbackRetryOptions
+  /**
+   * Share of the `callbackBudget` global setting a callback run of this element
+   * spends, e.g. the estimated size of the prefetched resource in kilobytes.
+   * `0` exempts the element from the budget.
+   * @default 1
+   */
+  weight?: number
 }
 
 /**
@@ -410,13 +819,27 @@ export type ManagerBooleanSettingKeys = {
     : never
 }[keyof UpdateForsightManagerSettings]
 
+/**
+ * Get all keys in ForesightElementSettings that are numeric
+ */
+export type ElementNumericSettingKeys = NumericSettingKeys & keyof ForesightElementSettings
+
+/**
+ * Get all keys in ForesightElementSettings that are boolean
+ */
+export type ElementBooleanSettingKeys = ManagerBooleanSettingKeys & keyof ForesightElementSettings
+
 // This map connects the string name of an event to its data type
 export interface ForesightEventMap {
   elementRegistered: ElementRegisteredEvent
   elementUnregistered: ElementUnregisteredEvent
+  elementReactivated: ElementReactivatedEvent
   callbackInvoked: CallbackInvokedEvent
   callbackCompleted: CallbackCompletedEvent
+  callbackRetryScheduled: CallbackRetryScheduledEvent
+  budgetExceeded: BudgetExceededEvent
   mouseTrajectoryUpdate: MouseTrajectoryUpdateEvent
+  trajectoryDwellChanged: TrajectoryDwellChangedEvent
   scrollTrajectoryUpdate: ScrollTrajectoryUpdateEvent
   managerSettingsChanged: ManagerSettingsChangedEvent
   deviceStrategyChanged: DeviceStrategyChangedEvent
@@ -425,9 +848,13 @@ export interface ForesightEventMap {
 export type ForesightEvent =
   | "elementRegistered"
   | "elementUnregistered"
+  | "elementReactivated"
   | "callbackInvoked"
   | "callbackCompleted"
+  | "callbackRetryScheduled"
+  | "budgetExceeded"
   | "mouseTrajectoryUpdate"
+  | "trajectoryDwellChanged"
   | "scrollTrajectoryUpdate"
   | "managerSettingsChanged"
   | "deviceStrategyChanged"
@@ -444,6 +871,16 @@ export interface ElementRegisteredEvent extends ForesightBaseEvent {
   state: ForesightElementState
 }
 
+/**
+ * Fired when an element that already fired its callback becomes active again,
+ * either after `reactivateAfter` elapsed or through `reactivate()`.
+ */
+export interface ElementReactivatedEvent extends ForesightBaseEvent {
+  type: "elementReactivated"
+  element: ForesightElement
+  state: ForesightElementState
+}
+
 export interface ElementUnregisteredEvent extends ForesightBaseEvent {
   type: "elementUnregistered"
   element: ForesightElement
@@ -455,8 +892,9 @@ export interface ElementUnregisteredEvent extends ForesightBaseEvent {
 /**
  * The reason an element was unregistered from ForesightManager's tracking.
  * - `callbackHit`: The element was automatically unregistered after its callback fired.
- * - `disconnected`: No longer emitted. Elements detached from the DOM are now parked
- *   (kept registered but inactive) and resumed on reconnect, rather than unregistered.
+ * - `disconnected`: A declaratively registered (`data-foresight`) element was removed from
+ *   the DOM. Other elements detached from the DOM are parked (kept registered but inactive)
+ *   and resumed on reconnect, rather than unregistered.
  * - `apiCall`: The developer manually called the `unregister()` function for the element.
  * - `devtools`: When clicking the trash icon in the devtools element tab
  * - any other string
@@ -468,6 +906,8 @@ export interface CallbackInvokedEvent extends ForesightBaseEvent {
   element: ForesightElement
   state: ForesightElementState
   hitType: CallbackHitType
+  /** Confidence (0-1) of the hit. Only trajectory hits are scored; every other hit type reports 1. */
+  confidence: number
 }
 
 interface CallbackCompletedEventBase extends ForesightBaseEvent {
@@ -476,18 +916,78 @@ interface CallbackCompletedEventBase extends ForesightBaseEvent {
   state: ForesightElementState
   hitType: CallbackHitType
   elapsed: number
+  /** Time in ms the hit waited in the callback queue before the callback started (0 when it started immediately). */
+  queueWaitMs: number
   wasLastActiveElement: boolean
 }
 
 export type CallbackCompletedEvent = CallbackCompletedEventBase & {
   status: callbackStatus
   errorMessage: string | null
+  /** Why the callback's signal was aborted, `null` unless `status` is `"aborted"` or `"timeout"`. */
+  abortReason: CallbackAbortReason | null
+}
+
+export interface CallbackRetryScheduledEvent extends ForesightBaseEvent {
+  type: "callbackRetryScheduled"
+  element: ForesightElement
+  state: ForesightElementState
+  hitType: CallbackHitType
+  /** The attempt that failed, starting at 1. */
+  attempt: number
+  /** Time in ms until the next attempt starts. */
+  delay: number
+  errorMessage: string
+}
+
+export interface BudgetExceededEvent extends ForesightBaseEvent {
+  type: "budgetExceeded"
+  element: ForesightElement
+  state: ForesightElementState
+  hitType: CallbackHitType
+  /** Whether the hit was dropped or deferred, see `callbackBudgetStrategy`. */
+  strategy: CallbackBudgetStrategy
+  /** Budget spent in the current window when the hit arrived. */
+  budgetUsage: number
+}
+
+/**
+ * An element the predicted mouse path crossed on a move, ranked against the
+ * others when there are more than `maxTargetsPerMove`.
+ */
+export type TrajectoryCandidate = {
+  element: ForesightElement
+  name: string
+  /** How far along the predicted path it is entered, from `0` (cursor) to `1` (predicted point). */
+  entry: number
+  /** Distance in px from where the path enters the element to its center. */
+  centerDistance: number
+  priority: number
+  confidence: number
 }
 
 export interface MouseTrajectoryUpdateEvent extends Omit<ForesightBaseEvent, "timestamp"> {
   type: "mouseTrajectoryUpdate"
   trajectoryPositions: TrajectoryPositions
   predictionEnabled: boolean
+  /** Candidates of this move that lost the ranking, best first. Empty unless `maxTargetsPerMove` was exceeded. */
+  rankedOutCandidates: TrajectoryCandidate[]
+}
+
+/**
+ * Progress of a trajectory hit held back by `minDwellMs`.
+ * - `started`: The predicted path started crossing the element.
+ * - `confirmed`: It kept crossing for `minDwellMs`; the callback fires next.
+ * - `cancelled`: It stopped crossing (or the element went inactive) before that.
+ */
+export type TrajectoryDwellPhase = "started" | "confirmed" | "cancelled"
+
+export interface TrajectoryDwellChangedEvent extends ForesightBaseEvent {
+  type: "trajectoryDwellChanged"
+  element: ForesightElement
+  state: ForesightElementState
+  phase: TrajectoryDwellPhase
+  minDwellMs: number
 }
 
 export interface ScrollTrajectoryUpdateEvent extends Omit<ForesightBaseEvent, "timestamp"> {
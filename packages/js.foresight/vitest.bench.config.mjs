@@ -0,0 +1,10 @@
+import { defineConfig } from "vitest/config"
+
+// Benchmarks run without test-setup.ts, which mocks performance.now
+export default defineConfig({
+  test: {
+    benchmark: {
+      include: ["src/**/*.bench.ts"],
+    },
+  },
+})